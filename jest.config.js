@@ -0,0 +1,8 @@
+/** @type {import("jest").Config} */
+module.exports = {
+    preset: "ts-jest",
+    testEnvironment: "node",
+    roots: ["<rootDir>/tests"],
+    setupFiles: ["<rootDir>/tests/setup/ambiente.ts"],
+    setupFilesAfterEnv: ["<rootDir>/tests/setup/banco.ts"]
+};
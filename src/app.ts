@@ -0,0 +1,80 @@
+import "reflect-metadata";
+import express from "express";
+import cors from "cors";
+import swaggerUi from "swagger-ui-express";
+import YAML from "yamljs";
+import path from "path";
+import userRoutes from "./routes/userRoutes";
+import categoryRoutes from "./routes/categoryRoutes";
+import articleRoutes from "./routes/articleRoutes";
+import authRoutes from "./routes/authRoutes";
+import tagRoutes from "./routes/tagRoutes";
+import auditRoutes from "./routes/auditRoutes";
+import trashRoutes from "./routes/trashRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import mediaRoutes from "./routes/mediaRoutes";
+import webhookRoutes from "./routes/webhookRoutes";
+import feedRoutes from "./routes/feedRoutes";
+import exportRoutes from "./routes/exportRoutes";
+import importRoutes from "./routes/importRoutes";
+import { authMiddleware } from "./middleware/authMiddleware";
+import { chaosMiddleware } from "./middleware/chaosMiddleware";
+import { requestIdMiddleware, HEADER_REQUEST_ID } from "./middleware/requestIdMiddleware";
+import { accessLogMiddleware } from "./middleware/accessLogMiddleware";
+import { rateLimitMiddleware, HEADERS_RATE_LIMIT } from "./middleware/rateLimitMiddleware";
+import { Router } from "express";
+import { config } from "./config/config";
+
+const app = express();
+
+app.use(requestIdMiddleware);
+app.use(accessLogMiddleware);
+app.use(cors({
+    origin: config.corsOrigens.includes("*") ? "*" : config.corsOrigens,
+    exposedHeaders: [HEADER_REQUEST_ID, ...HEADERS_RATE_LIMIT]
+}));
+// A importação recebe o arquivo bruto (JSON, CSV ou NDJSON) e o interpreta conforme o formato
+app.use("/importar", express.text({ type: "*/*", limit: config.importacao.tamanhoMaximoBytes }));
+app.use(express.json());
+
+const swaggerDocument = YAML.load(path.resolve(__dirname, "../swagger.yaml"));
+app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocument));
+
+app.use(rateLimitMiddleware({
+    limitador: "global",
+    maximo: config.rateLimit.global.maximo,
+    janelaSegundos: config.rateLimit.global.janelaSegundos,
+    chave: req => req.ip
+}));
+
+app.use("/auth", authRoutes);
+
+// Feeds e sitemap são públicos e precisam ser registrados antes das rotas autenticadas de /categorias
+app.use(feedRoutes);
+
+app.use(["/usuarios", "/categorias", "/artigos"], chaosMiddleware);
+
+const userRouter = Router();
+app.use("/usuarios", userRouter);
+
+userRouter.post("/", userRoutes);
+
+userRouter.use(authMiddleware);
+userRouter.get("/", userRoutes);
+userRouter.get("/:id", userRoutes);
+userRouter.put("/:id", userRoutes);
+userRouter.delete("/:id", userRoutes);
+userRouter.post("/:id/restaurar", userRoutes);
+
+app.use("/categorias", authMiddleware, categoryRoutes);
+app.use("/artigos", authMiddleware, articleRoutes);
+app.use("/tags", authMiddleware, tagRoutes);
+app.use("/midias", authMiddleware, mediaRoutes);
+app.use("/webhooks", authMiddleware, webhookRoutes);
+app.use("/exportar", authMiddleware, exportRoutes);
+app.use("/importar", authMiddleware, importRoutes);
+app.use("/lixeira", authMiddleware, trashRoutes);
+app.use("/auditoria", authMiddleware, auditRoutes);
+app.use("/admin", authMiddleware, adminRoutes);
+
+export default app;
@@ -0,0 +1,296 @@
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type Ambiente = "development" | "test" | "production";
+export type NivelLog = "debug" | "info" | "warn" | "error";
+export type FormatoLog = "texto" | "json";
+export type TransporteEmailConfigurado = "outbox" | "log";
+
+export interface PoliticaRetencao {
+    maxRegistros?: number;
+    maxDiasIdade?: number;
+    desativada?: boolean;
+}
+
+export interface Configuracao {
+    ambiente: Ambiente;
+    porta: number;
+    caminhoBancoDados: string;
+    corsOrigens: string[];
+    urlPublica: string | null;
+    bcryptCusto: number;
+    jwt: {
+        segredo: string;
+        expiracaoAccessToken: string;
+        diasRefreshToken: number;
+    };
+    retencao: {
+        politicas: Record<string, PoliticaRetencao>;
+        intervaloMinutos: number;
+    };
+    log: {
+        nivel: NivelLog;
+        formato: FormatoLog;
+    };
+    rateLimit: {
+        global: { maximo: number; janelaSegundos: number };
+        login: { maximoPorIp: number; maximoPorConta: number; janelaSegundos: number };
+    };
+    bloqueioLogin: {
+        maxTentativas: number;
+        minutos: number;
+    };
+    email: {
+        transporte: TransporteEmailConfigurado;
+        remetente: string;
+        validadeVerificacaoHoras: number;
+        validadeRedefinicaoMinutos: number;
+    };
+    midias: {
+        diretorio: string;
+        tamanhoMaximoBytes: number;
+        tiposPermitidos: string[];
+    };
+    webhooks: {
+        intervaloSegundos: number;
+        maxTentativas: number;
+        timeoutSegundos: number;
+        esperaInicialSegundos: number;
+    };
+    importacao: {
+        tamanhoMaximoBytes: number;
+    };
+    dadosTeste: boolean;
+}
+
+const AMBIENTES: Ambiente[] = ["development", "test", "production"];
+const NIVEIS_LOG: NivelLog[] = ["debug", "info", "warn", "error"];
+const FORMATOS_LOG: FormatoLog[] = ["texto", "json"];
+const TRANSPORTES_EMAIL: TransporteEmailConfigurado[] = ["outbox", "log"];
+const TIPOS_MIDIA_PADRAO = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+const SEGREDO_JWT_PADRAO = "sua_chave_secreta_aqui";
+const MASCARA = "********";
+
+// Valores vêm, em ordem de prioridade, das variáveis de ambiente (incluindo o .env)
+// e do arquivo de configuração JSON, cujas chaves usam os mesmos nomes das variáveis.
+const lerArquivoConfiguracao = (erros: string[]): Record<string, unknown> => {
+    const arquivo = process.env.ARQUIVO_CONFIGURACAO
+        ? path.resolve(process.env.ARQUIVO_CONFIGURACAO)
+        : path.resolve(__dirname, "../../config.json");
+
+    if (!fs.existsSync(arquivo)) {
+        if (process.env.ARQUIVO_CONFIGURACAO) {
+            erros.push(`ARQUIVO_CONFIGURACAO: arquivo não encontrado (${arquivo})`);
+        }
+        return {};
+    }
+
+    try {
+        const conteudo = JSON.parse(fs.readFileSync(arquivo, "utf8"));
+        if (typeof conteudo !== "object" || conteudo === null || Array.isArray(conteudo)) {
+            throw new Error("o conteúdo deve ser um objeto");
+        }
+        return conteudo;
+    } catch (error) {
+        erros.push(`Arquivo de configuração inválido (${arquivo}): ${(error as Error).message}`);
+        return {};
+    }
+};
+
+// Valores inválidos são trocados pelo padrão e anotados em `erros`; quem inicia o processo decide se pode seguir
+const carregarConfiguracao = (): { configuracao: Configuracao; erros: string[] } => {
+    const erros: string[] = [];
+    const arquivo = lerArquivoConfiguracao(erros);
+    const valor = (chave: string): unknown => process.env[chave] ?? arquivo[chave];
+
+    const texto = (chave: string, padrao: string): string => {
+        const bruto = valor(chave);
+        return bruto === undefined || bruto === "" ? padrao : String(bruto);
+    };
+
+    const inteiro = (chave: string, padrao: number, minimo: number, maximo: number): number => {
+        const bruto = valor(chave);
+        if (bruto === undefined || bruto === "") {
+            return padrao;
+        }
+        const numero = Number(bruto);
+        if (!Number.isInteger(numero) || numero < minimo || numero > maximo) {
+            erros.push(`${chave}: deve ser um inteiro entre ${minimo} e ${maximo}`);
+            return padrao;
+        }
+        return numero;
+    };
+
+    const booleano = (chave: string, padrao: boolean): boolean => {
+        const bruto = valor(chave);
+        if (bruto === undefined || bruto === "") {
+            return padrao;
+        }
+        if (!["true", "false"].includes(String(bruto))) {
+            erros.push(`${chave}: deve ser true ou false`);
+            return padrao;
+        }
+        return String(bruto) === "true";
+    };
+
+    const opcao = <T extends string>(chave: string, padrao: T, opcoes: T[]): T => {
+        const escolhida = texto(chave, padrao) as T;
+        if (!opcoes.includes(escolhida)) {
+            erros.push(`${chave}: deve ser um dos valores ${opcoes.join(", ")}`);
+            return padrao;
+        }
+        return escolhida;
+    };
+
+    const json = <T>(chave: string, padrao: T): T => {
+        const bruto = valor(chave);
+        if (bruto === undefined || bruto === "") {
+            return padrao;
+        }
+        if (typeof bruto !== "string") {
+            return bruto as T;
+        }
+        try {
+            return JSON.parse(bruto);
+        } catch {
+            erros.push(`${chave}: JSON inválido`);
+            return padrao;
+        }
+    };
+
+    const ambiente = opcao<Ambiente>("NODE_ENV", "development", AMBIENTES);
+
+    const segredo = texto("JWT_SECRET", SEGREDO_JWT_PADRAO);
+    if (ambiente === "production" && segredo === SEGREDO_JWT_PADRAO) {
+        erros.push("JWT_SECRET: deve ser definido em produção");
+    }
+
+    const expiracaoAccessToken = texto("JWT_EXPIRACAO", "15m");
+    if (!/^\d+[smhd]$/.test(expiracaoAccessToken)) {
+        erros.push("JWT_EXPIRACAO: deve seguir o formato <número><s|m|h|d>, ex.: 15m");
+    }
+
+    const corsBruto = valor("CORS_ORIGENS");
+    const corsOrigens = (Array.isArray(corsBruto) ? corsBruto.map(String) : texto("CORS_ORIGENS", "*").split(","))
+        .map(origem => origem.trim())
+        .filter(origem => origem.length > 0);
+    for (const origem of corsOrigens) {
+        if (origem !== "*" && !/^https?:\/\/[^/\s]+$/.test(origem)) {
+            erros.push(`CORS_ORIGENS: origem inválida "${origem}" (use * ou esquema://host[:porta])`);
+        }
+    }
+
+    const urlPublica = texto("URL_PUBLICA", "").replace(/\/+$/, "");
+    if (urlPublica && !/^https?:\/\/[^\s]+$/.test(urlPublica)) {
+        erros.push("URL_PUBLICA: deve ser uma URL http ou https, ex.: https://cms.exemplo.com");
+    }
+    if (ambiente === "production" && !urlPublica) {
+        erros.push("URL_PUBLICA: deve ser definida em produção");
+    }
+
+    const remetente = texto("EMAIL_REMETENTE", "nao-responda@cms.local");
+    if (!/^[^@\s]+@[^@\s]+$/.test(remetente)) {
+        erros.push("EMAIL_REMETENTE: deve ser um endereço de email");
+    }
+
+    const tiposBruto = valor("MIDIAS_TIPOS_PERMITIDOS");
+    const tiposMidia = (Array.isArray(tiposBruto) ? tiposBruto.map(String) : texto("MIDIAS_TIPOS_PERMITIDOS", TIPOS_MIDIA_PADRAO.join(",")).split(","))
+        .map(tipo => tipo.trim().toLowerCase())
+        .filter(tipo => tipo.length > 0);
+    for (const tipo of tiposMidia) {
+        if (!/^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(tipo)) {
+            erros.push(`MIDIAS_TIPOS_PERMITIDOS: tipo inválido "${tipo}" (use tipo/subtipo, ex.: image/png)`);
+        }
+    }
+
+    const politicas = json<Record<string, PoliticaRetencao>>("RETENCAO_POLITICAS", {});
+    if (typeof politicas !== "object" || politicas === null || Array.isArray(politicas)) {
+        erros.push("RETENCAO_POLITICAS: deve ser um objeto com as políticas por tabela");
+    } else {
+        for (const [tabela, politica] of Object.entries(politicas)) {
+            for (const limite of [politica?.maxRegistros, politica?.maxDiasIdade]) {
+                if (limite !== undefined && (!Number.isInteger(limite) || limite < 1)) {
+                    erros.push(`RETENCAO_POLITICAS: política inválida para ${tabela}, limites devem ser inteiros positivos`);
+                }
+            }
+        }
+    }
+
+    const configuracao: Configuracao = {
+        ambiente,
+        porta: inteiro("PORT", 3000, 1, 65535),
+        caminhoBancoDados: texto("CAMINHO_BANCO_DADOS", "database.sqlite"),
+        corsOrigens: corsOrigens.length > 0 ? corsOrigens : ["*"],
+        urlPublica: urlPublica || null,
+        bcryptCusto: inteiro("BCRYPT_CUSTO", 10, 4, 15),
+        jwt: {
+            segredo,
+            expiracaoAccessToken,
+            diasRefreshToken: inteiro("REFRESH_TOKEN_DIAS", 7, 1, 365)
+        },
+        retencao: {
+            politicas,
+            intervaloMinutos: inteiro("RETENCAO_INTERVALO_MINUTOS", 60, 0, 7 * 24 * 60)
+        },
+        log: {
+            nivel: opcao<NivelLog>("LOG_NIVEL", "info", NIVEIS_LOG),
+            formato: opcao<FormatoLog>("LOG_FORMATO", "texto", FORMATOS_LOG)
+        },
+        rateLimit: {
+            global: {
+                maximo: inteiro("RATE_LIMIT_MAX", 0, 0, 1000000),
+                janelaSegundos: inteiro("RATE_LIMIT_JANELA_SEGUNDOS", 60, 1, 24 * 60 * 60)
+            },
+            login: {
+                maximoPorIp: inteiro("LOGIN_LIMITE_IP", 20, 0, 1000000),
+                maximoPorConta: inteiro("LOGIN_LIMITE_CONTA", 10, 0, 1000000),
+                janelaSegundos: inteiro("LOGIN_JANELA_SEGUNDOS", 15 * 60, 1, 24 * 60 * 60)
+            }
+        },
+        bloqueioLogin: {
+            maxTentativas: inteiro("LOGIN_MAX_TENTATIVAS", 5, 0, 1000),
+            minutos: inteiro("LOGIN_BLOQUEIO_MINUTOS", 15, 1, 24 * 60)
+        },
+        email: {
+            transporte: opcao<TransporteEmailConfigurado>("EMAIL_TRANSPORTE", "outbox", TRANSPORTES_EMAIL),
+            remetente,
+            validadeVerificacaoHoras: inteiro("EMAIL_VERIFICACAO_HORAS", 48, 1, 30 * 24),
+            validadeRedefinicaoMinutos: inteiro("REDEFINICAO_SENHA_MINUTOS", 60, 5, 24 * 60)
+        },
+        midias: {
+            diretorio: path.resolve(texto("MIDIAS_DIRETORIO", "uploads")),
+            tamanhoMaximoBytes: inteiro("MIDIAS_TAMANHO_MAXIMO_MB", 10, 1, 1024) * 1024 * 1024,
+            tiposPermitidos: tiposMidia.length > 0 ? tiposMidia : TIPOS_MIDIA_PADRAO
+        },
+        webhooks: {
+            intervaloSegundos: inteiro("WEBHOOKS_INTERVALO_SEGUNDOS", 5, 0, 60 * 60),
+            maxTentativas: inteiro("WEBHOOKS_MAX_TENTATIVAS", 8, 1, 50),
+            timeoutSegundos: inteiro("WEBHOOKS_TIMEOUT_SEGUNDOS", 10, 1, 120),
+            esperaInicialSegundos: inteiro("WEBHOOKS_ESPERA_INICIAL_SEGUNDOS", 30, 1, 24 * 60 * 60)
+        },
+        importacao: {
+            tamanhoMaximoBytes: inteiro("IMPORTACAO_TAMANHO_MAXIMO_MB", 10, 1, 1024) * 1024 * 1024
+        },
+        dadosTeste: booleano("HABILITAR_DADOS_TESTE", false)
+    };
+
+    return { configuracao, erros };
+};
+
+const carregada = carregarConfiguracao();
+
+export const config = carregada.configuracao;
+
+export const errosConfiguracao = (): string[] => [...carregada.erros];
+
+export const configuracaoMascarada = (): Configuracao => ({
+    ...config,
+    jwt: { ...config.jwt, segredo: MASCARA }
+});
+
+export const avisosConfiguracao = (): string[] => config.jwt.segredo === SEGREDO_JWT_PADRAO
+    ? ["JWT_SECRET não definido: usando o segredo padrão, inadequado para produção"]
+    : [];
@@ -0,0 +1,32 @@
+import { QueryRunner } from "typeorm";
+
+export const TABELA_BUSCA_ARTIGOS = "articles_fts";
+
+const TRIGGERS_BUSCA_ARTIGOS = ["articles_fts_insert", "articles_fts_update", "articles_fts_delete"];
+
+// O SQLite descarta os triggers ao recriar a tabela de artigos, o que acontece em toda migração que altera suas
+// colunas: essas migrações precisam chamar esta função depois de renomear a tabela temporária para "articles"
+export const criarTriggersBuscaArtigos = async (queryRunner: QueryRunner): Promise<void> => {
+    await queryRunner.query(`
+        CREATE TRIGGER IF NOT EXISTS articles_fts_insert AFTER INSERT ON articles BEGIN
+            INSERT INTO ${TABELA_BUSCA_ARTIGOS} (article_id, titulo, conteudo) VALUES (new.id, new.titulo, new.conteudo);
+        END
+    `);
+    await queryRunner.query(`
+        CREATE TRIGGER IF NOT EXISTS articles_fts_update AFTER UPDATE OF titulo, conteudo ON articles BEGIN
+            DELETE FROM ${TABELA_BUSCA_ARTIGOS} WHERE article_id = old.id;
+            INSERT INTO ${TABELA_BUSCA_ARTIGOS} (article_id, titulo, conteudo) VALUES (new.id, new.titulo, new.conteudo);
+        END
+    `);
+    await queryRunner.query(`
+        CREATE TRIGGER IF NOT EXISTS articles_fts_delete AFTER DELETE ON articles BEGIN
+            DELETE FROM ${TABELA_BUSCA_ARTIGOS} WHERE article_id = old.id;
+        END
+    `);
+};
+
+export const removerTriggersBuscaArtigos = async (queryRunner: QueryRunner): Promise<void> => {
+    for (const trigger of TRIGGERS_BUSCA_ARTIGOS) {
+        await queryRunner.query(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+};
@@ -1,15 +1,28 @@
 import "reflect-metadata";
+import path from "path";
 import { DataSource } from "typeorm";
 import { User } from "../entities/User";
 import { Category } from "../entities/Category";
 import { Article } from "../entities/Article";
+import { RefreshToken } from "../entities/RefreshToken";
+import { ArticleRevision } from "../entities/ArticleRevision";
+import { Comment } from "../entities/Comment";
+import { Tag } from "../entities/Tag";
+import { AuditLog } from "../entities/AuditLog";
+import { EmailToken } from "../entities/EmailToken";
+import { OutboxEmail } from "../entities/OutboxEmail";
+import { Media } from "../entities/Media";
+import { Webhook } from "../entities/Webhook";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { config } from "../config/config";
 
 export const AppDataSource = new DataSource({
     type: "sqlite",
-    database: "database.sqlite",
-    synchronize: true,
+    database: config.caminhoBancoDados,
+    synchronize: false,
+    migrationsRun: true,
     logging: false,
-    entities: [User, Category, Article],
-    migrations: [],
+    entities: [User, Category, Article, RefreshToken, ArticleRevision, Comment, Tag, AuditLog, EmailToken, OutboxEmail, Media, Webhook, WebhookDelivery],
+    migrations: [path.join(__dirname, "migrations", "*.{ts,js}")],
     subscribers: [],
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,247 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+interface TabelaEsquemaInicial {
+    nome: string;
+    criacao: (nome: string) => string;
+    indices: string[];
+    // Expressões SQL, avaliadas sobre a tabela existente, para colunas obrigatórias que ela ainda não possui
+    preenchimento?: Record<string, string>;
+}
+
+// Formato final das tabelas desta migração, usado para adotar bancos criados pelo synchronize
+const TABELAS_ESQUEMA_INICIAL: TabelaEsquemaInicial[] = [
+    {
+        nome: "categories",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_e844d6613638d724faf5e1fed96" FOREIGN KEY ("categoria_pai_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        indices: [
+            `CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `
+        ]
+    },
+    {
+        nome: "comments",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "artigo_id" varchar NOT NULL, "comentario_pai_id" varchar, "status" varchar CHECK( "status" IN ('pendente','aprovado','rejeitado','oculto') ) NOT NULL DEFAULT ('pendente'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_atualizacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_402edee1c62529f80d64148ef58" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_52f05b26858b79c3b94fd3f3296" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_18b20296de9103ec4b59b45b50b" FOREIGN KEY ("comentario_pai_id") REFERENCES "comments" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        indices: []
+    },
+    {
+        nome: "tags",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar(50) NOT NULL, "slug" varchar(60) NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`,
+        indices: [
+            `CREATE UNIQUE INDEX "IDX_b3aa10c29ea4e61a830362bd25" ON "tags" ("slug") `
+        ]
+    },
+    {
+        nome: "articles",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        indices: [],
+        // Antes do fluxo editorial, todo artigo cadastrado era público
+        preenchimento: {
+            status: `'publicado'`
+        }
+    },
+    {
+        nome: "users",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`,
+        indices: [
+            `CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `,
+            `CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `
+        ],
+        // O primeiro usuário cadastrado se torna admin, como na criação de usuários pela API
+        preenchimento: {
+            papel: `CASE WHEN "id" = (SELECT "id" FROM "users" ORDER BY "data_criacao", "rowid" LIMIT 1) THEN 'admin' ELSE 'autor' END`
+        }
+    },
+    {
+        nome: "refresh_tokens",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "usuario_id" varchar NOT NULL, "sessao_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "revogado_em" datetime, "substituido_por_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_c8349fdadc1bc791125bdd8c855" FOREIGN KEY ("usuario_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        indices: [
+            `CREATE UNIQUE INDEX "IDX_a7838d2ba25be1342091b6695f" ON "refresh_tokens" ("token_hash") `,
+            `CREATE INDEX "IDX_98ddf7ec6e4841c3884c1a8600" ON "refresh_tokens" ("sessao_id") `
+        ]
+    },
+    {
+        nome: "article_revisions",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "artigo_id" varchar NOT NULL, "numero" integer NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "campos_alterados" text NOT NULL, "editor_id" varchar, "restaurada_de" integer, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_814d5440235e75a0f23de81f19e" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_01ede1aa4906d3fd684fdd0a56d" FOREIGN KEY ("editor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        indices: [
+            `CREATE UNIQUE INDEX "IDX_024d907913c8b9b1e2d6eeb9aa" ON "article_revisions" ("artigo_id", "numero") `
+        ]
+    },
+    {
+        nome: "audit_logs",
+        criacao: nome => `CREATE TABLE "${nome}" ("id" varchar PRIMARY KEY NOT NULL, "usuario_id" varchar, "acao" varchar CHECK( "acao" IN ('criar','atualizar','excluir') ) NOT NULL, "entidade" varchar(50) NOT NULL, "entidade_id" varchar NOT NULL, "dados_anteriores" text, "dados_novos" text, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`,
+        indices: [
+            `CREATE INDEX "IDX_76adac46b6075b2a28f1a7d100" ON "audit_logs" ("usuario_id") `,
+            `CREATE INDEX "IDX_6da46b69093a8e8ea259ccc2ab" ON "audit_logs" ("data_criacao") `,
+            `CREATE INDEX "IDX_d8ec3fe96e379fc829ef5334ad" ON "audit_logs" ("entidade", "entidade_id") `
+        ]
+    },
+    {
+        nome: "articles_tags",
+        criacao: nome => `CREATE TABLE "${nome}" ("artigo_id" varchar NOT NULL, "tag_id" varchar NOT NULL, CONSTRAINT "FK_65d08b528bd0b8de4b1acb24a99" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_82ccd5e9ccf84c6c2445a5331fa" FOREIGN KEY ("tag_id") REFERENCES "tags" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, PRIMARY KEY ("artigo_id", "tag_id"))`,
+        indices: [
+            `CREATE INDEX "IDX_65d08b528bd0b8de4b1acb24a9" ON "articles_tags" ("artigo_id") `,
+            `CREATE INDEX "IDX_82ccd5e9ccf84c6c2445a5331f" ON "articles_tags" ("tag_id") `
+        ]
+    }
+];
+
+export class EsquemaInicial1792388194272 implements MigrationInterface {
+    name = 'EsquemaInicial1792388194272'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Bancos criados antes das migrações, via synchronize, são adotados em vez de recriados
+        if (await queryRunner.hasTable("users")) {
+            await this.adotarEsquemaExistente(queryRunner);
+            return;
+        }
+
+        await queryRunner.query(`CREATE TABLE "categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `);
+        await queryRunner.query(`CREATE TABLE "comments" ("id" varchar PRIMARY KEY NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "artigo_id" varchar NOT NULL, "comentario_pai_id" varchar, "status" varchar CHECK( "status" IN ('pendente','aprovado','rejeitado','oculto') ) NOT NULL DEFAULT ('pendente'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_atualizacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE TABLE "tags" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar(50) NOT NULL, "slug" varchar(60) NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_b3aa10c29ea4e61a830362bd25" ON "tags" ("slug") `);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE TABLE "users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        await queryRunner.query(`CREATE TABLE "refresh_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "usuario_id" varchar NOT NULL, "sessao_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "revogado_em" datetime, "substituido_por_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_a7838d2ba25be1342091b6695f" ON "refresh_tokens" ("token_hash") `);
+        await queryRunner.query(`CREATE INDEX "IDX_98ddf7ec6e4841c3884c1a8600" ON "refresh_tokens" ("sessao_id") `);
+        await queryRunner.query(`CREATE TABLE "article_revisions" ("id" varchar PRIMARY KEY NOT NULL, "artigo_id" varchar NOT NULL, "numero" integer NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "campos_alterados" text NOT NULL, "editor_id" varchar, "restaurada_de" integer, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_024d907913c8b9b1e2d6eeb9aa" ON "article_revisions" ("artigo_id", "numero") `);
+        await queryRunner.query(`CREATE TABLE "audit_logs" ("id" varchar PRIMARY KEY NOT NULL, "usuario_id" varchar, "acao" varchar CHECK( "acao" IN ('criar','atualizar','excluir') ) NOT NULL, "entidade" varchar(50) NOT NULL, "entidade_id" varchar NOT NULL, "dados_anteriores" text, "dados_novos" text, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE INDEX "IDX_76adac46b6075b2a28f1a7d100" ON "audit_logs" ("usuario_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6da46b69093a8e8ea259ccc2ab" ON "audit_logs" ("data_criacao") `);
+        await queryRunner.query(`CREATE INDEX "IDX_d8ec3fe96e379fc829ef5334ad" ON "audit_logs" ("entidade", "entidade_id") `);
+        await queryRunner.query(`CREATE TABLE "articles_tags" ("artigo_id" varchar NOT NULL, "tag_id" varchar NOT NULL, PRIMARY KEY ("artigo_id", "tag_id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_65d08b528bd0b8de4b1acb24a9" ON "articles_tags" ("artigo_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_82ccd5e9ccf84c6c2445a5331f" ON "articles_tags" ("tag_id") `);
+        await queryRunner.query(`DROP INDEX "IDX_83fb837fe9f069174d22b6ab69"`);
+        await queryRunner.query(`CREATE TABLE "temporary_categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_e844d6613638d724faf5e1fed96" FOREIGN KEY ("categoria_pai_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_categories"("id", "nome", "descricao", "categoria_pai_id", "data_criacao") SELECT "id", "nome", "descricao", "categoria_pai_id", "data_criacao" FROM "categories"`);
+        await queryRunner.query(`DROP TABLE "categories"`);
+        await queryRunner.query(`ALTER TABLE "temporary_categories" RENAME TO "categories"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `);
+        await queryRunner.query(`CREATE TABLE "temporary_comments" ("id" varchar PRIMARY KEY NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "artigo_id" varchar NOT NULL, "comentario_pai_id" varchar, "status" varchar CHECK( "status" IN ('pendente','aprovado','rejeitado','oculto') ) NOT NULL DEFAULT ('pendente'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_atualizacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_402edee1c62529f80d64148ef58" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_52f05b26858b79c3b94fd3f3296" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_18b20296de9103ec4b59b45b50b" FOREIGN KEY ("comentario_pai_id") REFERENCES "comments" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_comments"("id", "conteudo", "autor_id", "artigo_id", "comentario_pai_id", "status", "data_criacao", "data_atualizacao") SELECT "id", "conteudo", "autor_id", "artigo_id", "comentario_pai_id", "status", "data_criacao", "data_atualizacao" FROM "comments"`);
+        await queryRunner.query(`DROP TABLE "comments"`);
+        await queryRunner.query(`ALTER TABLE "temporary_comments" RENAME TO "comments"`);
+        await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao" FROM "articles"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_a7838d2ba25be1342091b6695f"`);
+        await queryRunner.query(`DROP INDEX "IDX_98ddf7ec6e4841c3884c1a8600"`);
+        await queryRunner.query(`CREATE TABLE "temporary_refresh_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "usuario_id" varchar NOT NULL, "sessao_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "revogado_em" datetime, "substituido_por_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_c8349fdadc1bc791125bdd8c855" FOREIGN KEY ("usuario_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_refresh_tokens"("id", "token_hash", "usuario_id", "sessao_id", "expira_em", "revogado_em", "substituido_por_id", "data_criacao") SELECT "id", "token_hash", "usuario_id", "sessao_id", "expira_em", "revogado_em", "substituido_por_id", "data_criacao" FROM "refresh_tokens"`);
+        await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+        await queryRunner.query(`ALTER TABLE "temporary_refresh_tokens" RENAME TO "refresh_tokens"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_a7838d2ba25be1342091b6695f" ON "refresh_tokens" ("token_hash") `);
+        await queryRunner.query(`CREATE INDEX "IDX_98ddf7ec6e4841c3884c1a8600" ON "refresh_tokens" ("sessao_id") `);
+        await queryRunner.query(`DROP INDEX "IDX_024d907913c8b9b1e2d6eeb9aa"`);
+        await queryRunner.query(`CREATE TABLE "temporary_article_revisions" ("id" varchar PRIMARY KEY NOT NULL, "artigo_id" varchar NOT NULL, "numero" integer NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "campos_alterados" text NOT NULL, "editor_id" varchar, "restaurada_de" integer, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_814d5440235e75a0f23de81f19e" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_01ede1aa4906d3fd684fdd0a56d" FOREIGN KEY ("editor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_article_revisions"("id", "artigo_id", "numero", "titulo", "conteudo", "campos_alterados", "editor_id", "restaurada_de", "data_criacao") SELECT "id", "artigo_id", "numero", "titulo", "conteudo", "campos_alterados", "editor_id", "restaurada_de", "data_criacao" FROM "article_revisions"`);
+        await queryRunner.query(`DROP TABLE "article_revisions"`);
+        await queryRunner.query(`ALTER TABLE "temporary_article_revisions" RENAME TO "article_revisions"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_024d907913c8b9b1e2d6eeb9aa" ON "article_revisions" ("artigo_id", "numero") `);
+        await queryRunner.query(`DROP INDEX "IDX_65d08b528bd0b8de4b1acb24a9"`);
+        await queryRunner.query(`DROP INDEX "IDX_82ccd5e9ccf84c6c2445a5331f"`);
+        await queryRunner.query(`CREATE TABLE "temporary_articles_tags" ("artigo_id" varchar NOT NULL, "tag_id" varchar NOT NULL, CONSTRAINT "FK_65d08b528bd0b8de4b1acb24a99" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_82ccd5e9ccf84c6c2445a5331fa" FOREIGN KEY ("tag_id") REFERENCES "tags" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, PRIMARY KEY ("artigo_id", "tag_id"))`);
+        await queryRunner.query(`INSERT INTO "temporary_articles_tags"("artigo_id", "tag_id") SELECT "artigo_id", "tag_id" FROM "articles_tags"`);
+        await queryRunner.query(`DROP TABLE "articles_tags"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles_tags" RENAME TO "articles_tags"`);
+        await queryRunner.query(`CREATE INDEX "IDX_65d08b528bd0b8de4b1acb24a9" ON "articles_tags" ("artigo_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_82ccd5e9ccf84c6c2445a5331f" ON "articles_tags" ("tag_id") `);
+    }
+
+    // O synchronize pode ter criado qualquer versão anterior do esquema, como a original, só com usuários,
+    // categorias e artigos: tabelas ausentes são criadas e as existentes são recriadas no formato final,
+    // preservando as colunas em comum e preenchendo as novas colunas obrigatórias
+    private async adotarEsquemaExistente(queryRunner: QueryRunner): Promise<void> {
+        for (const tabela of TABELAS_ESQUEMA_INICIAL) {
+            if (!(await queryRunner.hasTable(tabela.nome))) {
+                await queryRunner.query(tabela.criacao(tabela.nome));
+                for (const indice of tabela.indices) {
+                    await queryRunner.query(indice);
+                }
+                continue;
+            }
+
+            const colunasExistentes: string[] = (await queryRunner.query(`PRAGMA table_info("${tabela.nome}")`))
+                .map((coluna: { name: string }) => coluna.name);
+
+            await queryRunner.query(tabela.criacao(`temporary_${tabela.nome}`));
+            const colunas: string[] = (await queryRunner.query(`PRAGMA table_info("temporary_${tabela.nome}")`))
+                .map((coluna: { name: string }) => coluna.name)
+                .filter((coluna: string) => colunasExistentes.includes(coluna) || tabela.preenchimento?.[coluna]);
+            const valores = colunas.map(coluna => colunasExistentes.includes(coluna) ? `"${coluna}"` : tabela.preenchimento![coluna]);
+
+            await queryRunner.query(`INSERT INTO "temporary_${tabela.nome}"(${colunas.map(coluna => `"${coluna}"`).join(", ")}) SELECT ${valores.join(", ")} FROM "${tabela.nome}"`);
+            await queryRunner.query(`DROP TABLE "${tabela.nome}"`);
+            await queryRunner.query(`ALTER TABLE "temporary_${tabela.nome}" RENAME TO "${tabela.nome}"`);
+            for (const indice of tabela.indices) {
+                await queryRunner.query(indice);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_82ccd5e9ccf84c6c2445a5331f"`);
+        await queryRunner.query(`DROP INDEX "IDX_65d08b528bd0b8de4b1acb24a9"`);
+        await queryRunner.query(`ALTER TABLE "articles_tags" RENAME TO "temporary_articles_tags"`);
+        await queryRunner.query(`CREATE TABLE "articles_tags" ("artigo_id" varchar NOT NULL, "tag_id" varchar NOT NULL, PRIMARY KEY ("artigo_id", "tag_id"))`);
+        await queryRunner.query(`INSERT INTO "articles_tags"("artigo_id", "tag_id") SELECT "artigo_id", "tag_id" FROM "temporary_articles_tags"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles_tags"`);
+        await queryRunner.query(`CREATE INDEX "IDX_82ccd5e9ccf84c6c2445a5331f" ON "articles_tags" ("tag_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_65d08b528bd0b8de4b1acb24a9" ON "articles_tags" ("artigo_id") `);
+        await queryRunner.query(`DROP INDEX "IDX_024d907913c8b9b1e2d6eeb9aa"`);
+        await queryRunner.query(`ALTER TABLE "article_revisions" RENAME TO "temporary_article_revisions"`);
+        await queryRunner.query(`CREATE TABLE "article_revisions" ("id" varchar PRIMARY KEY NOT NULL, "artigo_id" varchar NOT NULL, "numero" integer NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "campos_alterados" text NOT NULL, "editor_id" varchar, "restaurada_de" integer, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "article_revisions"("id", "artigo_id", "numero", "titulo", "conteudo", "campos_alterados", "editor_id", "restaurada_de", "data_criacao") SELECT "id", "artigo_id", "numero", "titulo", "conteudo", "campos_alterados", "editor_id", "restaurada_de", "data_criacao" FROM "temporary_article_revisions"`);
+        await queryRunner.query(`DROP TABLE "temporary_article_revisions"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_024d907913c8b9b1e2d6eeb9aa" ON "article_revisions" ("artigo_id", "numero") `);
+        await queryRunner.query(`DROP INDEX "IDX_98ddf7ec6e4841c3884c1a8600"`);
+        await queryRunner.query(`DROP INDEX "IDX_a7838d2ba25be1342091b6695f"`);
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" RENAME TO "temporary_refresh_tokens"`);
+        await queryRunner.query(`CREATE TABLE "refresh_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "usuario_id" varchar NOT NULL, "sessao_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "revogado_em" datetime, "substituido_por_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "refresh_tokens"("id", "token_hash", "usuario_id", "sessao_id", "expira_em", "revogado_em", "substituido_por_id", "data_criacao") SELECT "id", "token_hash", "usuario_id", "sessao_id", "expira_em", "revogado_em", "substituido_por_id", "data_criacao" FROM "temporary_refresh_tokens"`);
+        await queryRunner.query(`DROP TABLE "temporary_refresh_tokens"`);
+        await queryRunner.query(`CREATE INDEX "IDX_98ddf7ec6e4841c3884c1a8600" ON "refresh_tokens" ("sessao_id") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_a7838d2ba25be1342091b6695f" ON "refresh_tokens" ("token_hash") `);
+        await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao" FROM "temporary_articles"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles"`);
+        await queryRunner.query(`ALTER TABLE "comments" RENAME TO "temporary_comments"`);
+        await queryRunner.query(`CREATE TABLE "comments" ("id" varchar PRIMARY KEY NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "artigo_id" varchar NOT NULL, "comentario_pai_id" varchar, "status" varchar CHECK( "status" IN ('pendente','aprovado','rejeitado','oculto') ) NOT NULL DEFAULT ('pendente'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_atualizacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "comments"("id", "conteudo", "autor_id", "artigo_id", "comentario_pai_id", "status", "data_criacao", "data_atualizacao") SELECT "id", "conteudo", "autor_id", "artigo_id", "comentario_pai_id", "status", "data_criacao", "data_atualizacao" FROM "temporary_comments"`);
+        await queryRunner.query(`DROP TABLE "temporary_comments"`);
+        await queryRunner.query(`DROP INDEX "IDX_83fb837fe9f069174d22b6ab69"`);
+        await queryRunner.query(`ALTER TABLE "categories" RENAME TO "temporary_categories"`);
+        await queryRunner.query(`CREATE TABLE "categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "categories"("id", "nome", "descricao", "categoria_pai_id", "data_criacao") SELECT "id", "nome", "descricao", "categoria_pai_id", "data_criacao" FROM "temporary_categories"`);
+        await queryRunner.query(`DROP TABLE "temporary_categories"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `);
+        await queryRunner.query(`DROP INDEX "IDX_82ccd5e9ccf84c6c2445a5331f"`);
+        await queryRunner.query(`DROP INDEX "IDX_65d08b528bd0b8de4b1acb24a9"`);
+        await queryRunner.query(`DROP TABLE "articles_tags"`);
+        await queryRunner.query(`DROP INDEX "IDX_d8ec3fe96e379fc829ef5334ad"`);
+        await queryRunner.query(`DROP INDEX "IDX_6da46b69093a8e8ea259ccc2ab"`);
+        await queryRunner.query(`DROP INDEX "IDX_76adac46b6075b2a28f1a7d100"`);
+        await queryRunner.query(`DROP TABLE "audit_logs"`);
+        await queryRunner.query(`DROP INDEX "IDX_024d907913c8b9b1e2d6eeb9aa"`);
+        await queryRunner.query(`DROP TABLE "article_revisions"`);
+        await queryRunner.query(`DROP INDEX "IDX_98ddf7ec6e4841c3884c1a8600"`);
+        await queryRunner.query(`DROP INDEX "IDX_a7838d2ba25be1342091b6695f"`);
+        await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`DROP TABLE "users"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_b3aa10c29ea4e61a830362bd25"`);
+        await queryRunner.query(`DROP TABLE "tags"`);
+        await queryRunner.query(`DROP TABLE "comments"`);
+        await queryRunner.query(`DROP INDEX "IDX_83fb837fe9f069174d22b6ab69"`);
+        await queryRunner.query(`DROP TABLE "categories"`);
+    }
+
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class BloqueioLogin1792388583191 implements MigrationInterface {
+    name = 'BloqueioLogin1792388583191'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`CREATE TABLE "temporary_users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "tentativas_login_falhas" integer NOT NULL DEFAULT (0), "bloqueado_ate" datetime)`);
+        await queryRunner.query(`INSERT INTO "temporary_users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao" FROM "users"`);
+        await queryRunner.query(`DROP TABLE "users"`);
+        await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+        await queryRunner.query(`CREATE TABLE "users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao" FROM "temporary_users"`);
+        await queryRunner.query(`DROP TABLE "temporary_users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+    }
+
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class VerificacaoEmailERedefinicaoSenha1792388787617 implements MigrationInterface {
+    name = 'VerificacaoEmailERedefinicaoSenha1792388787617'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "email_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "tipo" varchar CHECK( "tipo" IN ('verificacao-email','redefinicao-senha') ) NOT NULL, "usuario_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "usado_em" datetime, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8acb431edfc9f9d0e77741468e" ON "email_tokens" ("token_hash") `);
+        await queryRunner.query(`CREATE TABLE "outbox_emails" ("id" varchar PRIMARY KEY NOT NULL, "remetente" varchar NOT NULL, "destinatario" varchar NOT NULL, "assunto" varchar NOT NULL, "texto" text NOT NULL, "tipo" varchar(50), "dados" text, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE INDEX "IDX_ab5ba2e0231126dc407754a5f9" ON "outbox_emails" ("destinatario") `);
+        await queryRunner.query(`CREATE INDEX "IDX_b8fcad0c55b87f9e4553a3eb54" ON "outbox_emails" ("data_criacao") `);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`CREATE TABLE "temporary_users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "tentativas_login_falhas" integer NOT NULL DEFAULT (0), "bloqueado_ate" datetime, "email_verificado" boolean NOT NULL DEFAULT (0))`);
+        await queryRunner.query(`INSERT INTO "temporary_users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate" FROM "users"`);
+        await queryRunner.query(`DROP TABLE "users"`);
+        await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        // Usuários cadastrados antes da verificação de email são considerados verificados
+        await queryRunner.query(`UPDATE "users" SET "email_verificado" = 1`);
+        await queryRunner.query(`DROP INDEX "IDX_8acb431edfc9f9d0e77741468e"`);
+        await queryRunner.query(`CREATE TABLE "temporary_email_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "tipo" varchar CHECK( "tipo" IN ('verificacao-email','redefinicao-senha') ) NOT NULL, "usuario_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "usado_em" datetime, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_9d8e67835ac00a6b2830cc45f05" FOREIGN KEY ("usuario_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_email_tokens"("id", "token_hash", "tipo", "usuario_id", "expira_em", "usado_em", "data_criacao") SELECT "id", "token_hash", "tipo", "usuario_id", "expira_em", "usado_em", "data_criacao" FROM "email_tokens"`);
+        await queryRunner.query(`DROP TABLE "email_tokens"`);
+        await queryRunner.query(`ALTER TABLE "temporary_email_tokens" RENAME TO "email_tokens"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8acb431edfc9f9d0e77741468e" ON "email_tokens" ("token_hash") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_8acb431edfc9f9d0e77741468e"`);
+        await queryRunner.query(`ALTER TABLE "email_tokens" RENAME TO "temporary_email_tokens"`);
+        await queryRunner.query(`CREATE TABLE "email_tokens" ("id" varchar PRIMARY KEY NOT NULL, "token_hash" varchar NOT NULL, "tipo" varchar CHECK( "tipo" IN ('verificacao-email','redefinicao-senha') ) NOT NULL, "usuario_id" varchar NOT NULL, "expira_em" datetime NOT NULL, "usado_em" datetime, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "email_tokens"("id", "token_hash", "tipo", "usuario_id", "expira_em", "usado_em", "data_criacao") SELECT "id", "token_hash", "tipo", "usuario_id", "expira_em", "usado_em", "data_criacao" FROM "temporary_email_tokens"`);
+        await queryRunner.query(`DROP TABLE "temporary_email_tokens"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8acb431edfc9f9d0e77741468e" ON "email_tokens" ("token_hash") `);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+        await queryRunner.query(`CREATE TABLE "users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "tentativas_login_falhas" integer NOT NULL DEFAULT (0), "bloqueado_ate" datetime)`);
+        await queryRunner.query(`INSERT INTO "users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate" FROM "temporary_users"`);
+        await queryRunner.query(`DROP TABLE "temporary_users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`DROP INDEX "IDX_b8fcad0c55b87f9e4553a3eb54"`);
+        await queryRunner.query(`DROP INDEX "IDX_ab5ba2e0231126dc407754a5f9"`);
+        await queryRunner.query(`DROP TABLE "outbox_emails"`);
+        await queryRunner.query(`DROP INDEX "IDX_8acb431edfc9f9d0e77741468e"`);
+        await queryRunner.query(`DROP TABLE "email_tokens"`);
+    }
+
+}
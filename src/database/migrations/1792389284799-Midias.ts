@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Midias1792389284799 implements MigrationInterface {
+    name = 'Midias1792389284799'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "media" ("id" varchar PRIMARY KEY NOT NULL, "nome_original" varchar NOT NULL, "tipo_mime" varchar(100) NOT NULL, "tamanho_bytes" integer NOT NULL, "chave_armazenamento" varchar NOT NULL, "usuario_id" varchar NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_da6fd0675a827a8556209ea637" ON "media" ("chave_armazenamento") `);
+        await queryRunner.query(`CREATE INDEX "IDX_bb5aea99750fb057c276a19cba" ON "media" ("usuario_id") `);
+        await queryRunner.query(`CREATE TABLE "articles_media" ("artigo_id" varchar NOT NULL, "midia_id" varchar NOT NULL, PRIMARY KEY ("artigo_id", "midia_id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_a77761c1641bca99f4c7215a4a" ON "articles_media" ("artigo_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_35c5e91a2c613d010e32a7d835" ON "articles_media" ("midia_id") `);
+        await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao" FROM "articles"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_da6fd0675a827a8556209ea637"`);
+        await queryRunner.query(`DROP INDEX "IDX_bb5aea99750fb057c276a19cba"`);
+        await queryRunner.query(`CREATE TABLE "temporary_media" ("id" varchar PRIMARY KEY NOT NULL, "nome_original" varchar NOT NULL, "tipo_mime" varchar(100) NOT NULL, "tamanho_bytes" integer NOT NULL, "chave_armazenamento" varchar NOT NULL, "usuario_id" varchar NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_bb5aea99750fb057c276a19cba9" FOREIGN KEY ("usuario_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_media"("id", "nome_original", "tipo_mime", "tamanho_bytes", "chave_armazenamento", "usuario_id", "data_criacao") SELECT "id", "nome_original", "tipo_mime", "tamanho_bytes", "chave_armazenamento", "usuario_id", "data_criacao" FROM "media"`);
+        await queryRunner.query(`DROP TABLE "media"`);
+        await queryRunner.query(`ALTER TABLE "temporary_media" RENAME TO "media"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_da6fd0675a827a8556209ea637" ON "media" ("chave_armazenamento") `);
+        await queryRunner.query(`CREATE INDEX "IDX_bb5aea99750fb057c276a19cba" ON "media" ("usuario_id") `);
+        await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_0d7c1588afbc420be78cb5b504e" FOREIGN KEY ("capa_id") REFERENCES "media" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id" FROM "articles"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_a77761c1641bca99f4c7215a4a"`);
+        await queryRunner.query(`DROP INDEX "IDX_35c5e91a2c613d010e32a7d835"`);
+        await queryRunner.query(`CREATE TABLE "temporary_articles_media" ("artigo_id" varchar NOT NULL, "midia_id" varchar NOT NULL, CONSTRAINT "FK_a77761c1641bca99f4c7215a4ad" FOREIGN KEY ("artigo_id") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_35c5e91a2c613d010e32a7d8359" FOREIGN KEY ("midia_id") REFERENCES "media" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, PRIMARY KEY ("artigo_id", "midia_id"))`);
+        await queryRunner.query(`INSERT INTO "temporary_articles_media"("artigo_id", "midia_id") SELECT "artigo_id", "midia_id" FROM "articles_media"`);
+        await queryRunner.query(`DROP TABLE "articles_media"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles_media" RENAME TO "articles_media"`);
+        await queryRunner.query(`CREATE INDEX "IDX_a77761c1641bca99f4c7215a4a" ON "articles_media" ("artigo_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_35c5e91a2c613d010e32a7d835" ON "articles_media" ("midia_id") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_35c5e91a2c613d010e32a7d835"`);
+        await queryRunner.query(`DROP INDEX "IDX_a77761c1641bca99f4c7215a4a"`);
+        await queryRunner.query(`ALTER TABLE "articles_media" RENAME TO "temporary_articles_media"`);
+        await queryRunner.query(`CREATE TABLE "articles_media" ("artigo_id" varchar NOT NULL, "midia_id" varchar NOT NULL, PRIMARY KEY ("artigo_id", "midia_id"))`);
+        await queryRunner.query(`INSERT INTO "articles_media"("artigo_id", "midia_id") SELECT "artigo_id", "midia_id" FROM "temporary_articles_media"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles_media"`);
+        await queryRunner.query(`CREATE INDEX "IDX_35c5e91a2c613d010e32a7d835" ON "articles_media" ("midia_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_a77761c1641bca99f4c7215a4a" ON "articles_media" ("artigo_id") `);
+        await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id" FROM "temporary_articles"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_bb5aea99750fb057c276a19cba"`);
+        await queryRunner.query(`DROP INDEX "IDX_da6fd0675a827a8556209ea637"`);
+        await queryRunner.query(`ALTER TABLE "media" RENAME TO "temporary_media"`);
+        await queryRunner.query(`CREATE TABLE "media" ("id" varchar PRIMARY KEY NOT NULL, "nome_original" varchar NOT NULL, "tipo_mime" varchar(100) NOT NULL, "tamanho_bytes" integer NOT NULL, "chave_armazenamento" varchar NOT NULL, "usuario_id" varchar NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "media"("id", "nome_original", "tipo_mime", "tamanho_bytes", "chave_armazenamento", "usuario_id", "data_criacao") SELECT "id", "nome_original", "tipo_mime", "tamanho_bytes", "chave_armazenamento", "usuario_id", "data_criacao" FROM "temporary_media"`);
+        await queryRunner.query(`DROP TABLE "temporary_media"`);
+        await queryRunner.query(`CREATE INDEX "IDX_bb5aea99750fb057c276a19cba" ON "media" ("usuario_id") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_da6fd0675a827a8556209ea637" ON "media" ("chave_armazenamento") `);
+        await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao" FROM "temporary_articles"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_35c5e91a2c613d010e32a7d835"`);
+        await queryRunner.query(`DROP INDEX "IDX_a77761c1641bca99f4c7215a4a"`);
+        await queryRunner.query(`DROP TABLE "articles_media"`);
+        await queryRunner.query(`DROP INDEX "IDX_bb5aea99750fb057c276a19cba"`);
+        await queryRunner.query(`DROP INDEX "IDX_da6fd0675a827a8556209ea637"`);
+        await queryRunner.query(`DROP TABLE "media"`);
+    }
+
+}
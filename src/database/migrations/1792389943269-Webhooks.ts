@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Webhooks1792389943269 implements MigrationInterface {
+    name = 'Webhooks1792389943269'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "webhook_deliveries" ("id" varchar PRIMARY KEY NOT NULL, "webhook_id" varchar NOT NULL, "evento" varchar(50) NOT NULL, "payload" text NOT NULL, "status" varchar CHECK( "status" IN ('pendente','sucesso','falha') ) NOT NULL DEFAULT ('pendente'), "tentativas" integer NOT NULL DEFAULT (0), "proxima_tentativa_em" datetime, "ultimo_status_http" integer, "ultimo_erro" text, "historico" text NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE INDEX "IDX_a0286aeb96db651efd1ae2966f" ON "webhook_deliveries" ("webhook_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6f19bd80d66a12899ae5b9154c" ON "webhook_deliveries" ("status", "proxima_tentativa_em") `);
+        await queryRunner.query(`CREATE TABLE "webhooks" ("id" varchar PRIMARY KEY NOT NULL, "url" varchar(2000) NOT NULL, "descricao" varchar(255), "eventos" text NOT NULL, "segredo" varchar NOT NULL, "ativo" boolean NOT NULL DEFAULT (1), "usuario_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_atualizacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`DROP INDEX "IDX_a0286aeb96db651efd1ae2966f"`);
+        await queryRunner.query(`DROP INDEX "IDX_6f19bd80d66a12899ae5b9154c"`);
+        await queryRunner.query(`CREATE TABLE "temporary_webhook_deliveries" ("id" varchar PRIMARY KEY NOT NULL, "webhook_id" varchar NOT NULL, "evento" varchar(50) NOT NULL, "payload" text NOT NULL, "status" varchar CHECK( "status" IN ('pendente','sucesso','falha') ) NOT NULL DEFAULT ('pendente'), "tentativas" integer NOT NULL DEFAULT (0), "proxima_tentativa_em" datetime, "ultimo_status_http" integer, "ultimo_erro" text, "historico" text NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a0286aeb96db651efd1ae2966f2" FOREIGN KEY ("webhook_id") REFERENCES "webhooks" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_webhook_deliveries"("id", "webhook_id", "evento", "payload", "status", "tentativas", "proxima_tentativa_em", "ultimo_status_http", "ultimo_erro", "historico", "data_criacao") SELECT "id", "webhook_id", "evento", "payload", "status", "tentativas", "proxima_tentativa_em", "ultimo_status_http", "ultimo_erro", "historico", "data_criacao" FROM "webhook_deliveries"`);
+        await queryRunner.query(`DROP TABLE "webhook_deliveries"`);
+        await queryRunner.query(`ALTER TABLE "temporary_webhook_deliveries" RENAME TO "webhook_deliveries"`);
+        await queryRunner.query(`CREATE INDEX "IDX_a0286aeb96db651efd1ae2966f" ON "webhook_deliveries" ("webhook_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6f19bd80d66a12899ae5b9154c" ON "webhook_deliveries" ("status", "proxima_tentativa_em") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_6f19bd80d66a12899ae5b9154c"`);
+        await queryRunner.query(`DROP INDEX "IDX_a0286aeb96db651efd1ae2966f"`);
+        await queryRunner.query(`ALTER TABLE "webhook_deliveries" RENAME TO "temporary_webhook_deliveries"`);
+        await queryRunner.query(`CREATE TABLE "webhook_deliveries" ("id" varchar PRIMARY KEY NOT NULL, "webhook_id" varchar NOT NULL, "evento" varchar(50) NOT NULL, "payload" text NOT NULL, "status" varchar CHECK( "status" IN ('pendente','sucesso','falha') ) NOT NULL DEFAULT ('pendente'), "tentativas" integer NOT NULL DEFAULT (0), "proxima_tentativa_em" datetime, "ultimo_status_http" integer, "ultimo_erro" text, "historico" text NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "webhook_deliveries"("id", "webhook_id", "evento", "payload", "status", "tentativas", "proxima_tentativa_em", "ultimo_status_http", "ultimo_erro", "historico", "data_criacao") SELECT "id", "webhook_id", "evento", "payload", "status", "tentativas", "proxima_tentativa_em", "ultimo_status_http", "ultimo_erro", "historico", "data_criacao" FROM "temporary_webhook_deliveries"`);
+        await queryRunner.query(`DROP TABLE "temporary_webhook_deliveries"`);
+        await queryRunner.query(`CREATE INDEX "IDX_6f19bd80d66a12899ae5b9154c" ON "webhook_deliveries" ("status", "proxima_tentativa_em") `);
+        await queryRunner.query(`CREATE INDEX "IDX_a0286aeb96db651efd1ae2966f" ON "webhook_deliveries" ("webhook_id") `);
+        await queryRunner.query(`DROP TABLE "webhooks"`);
+        await queryRunner.query(`DROP INDEX "IDX_6f19bd80d66a12899ae5b9154c"`);
+        await queryRunner.query(`DROP INDEX "IDX_a0286aeb96db651efd1ae2966f"`);
+        await queryRunner.query(`DROP TABLE "webhook_deliveries"`);
+    }
+
+}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Lixeira1792390885625 implements MigrationInterface {
+    name = 'Lixeira1792390885625'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_83fb837fe9f069174d22b6ab69"`);
+        await queryRunner.query(`CREATE TABLE "temporary_categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "data_exclusao" datetime, CONSTRAINT "FK_e844d6613638d724faf5e1fed96" FOREIGN KEY ("categoria_pai_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_categories"("id", "nome", "descricao", "categoria_pai_id", "data_criacao") SELECT "id", "nome", "descricao", "categoria_pai_id", "data_criacao" FROM "categories"`);
+        await queryRunner.query(`DROP TABLE "categories"`);
+        await queryRunner.query(`ALTER TABLE "temporary_categories" RENAME TO "categories"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `);
+        await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, "formato_conteudo" varchar CHECK( "formato_conteudo" IN ('texto','markdown') ) NOT NULL DEFAULT ('texto'), "data_exclusao" datetime, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_0d7c1588afbc420be78cb5b504e" FOREIGN KEY ("capa_id") REFERENCES "media" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo" FROM "articles"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`CREATE TABLE "temporary_users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "tentativas_login_falhas" integer NOT NULL DEFAULT (0), "bloqueado_ate" datetime, "email_verificado" boolean NOT NULL DEFAULT (0), "data_exclusao" datetime)`);
+        await queryRunner.query(`INSERT INTO "temporary_users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate", "email_verificado") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate", "email_verificado" FROM "users"`);
+        await queryRunner.query(`DROP TABLE "users"`);
+        await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`DROP INDEX "IDX_d8ec3fe96e379fc829ef5334ad"`);
+        await queryRunner.query(`DROP INDEX "IDX_6da46b69093a8e8ea259ccc2ab"`);
+        await queryRunner.query(`DROP INDEX "IDX_76adac46b6075b2a28f1a7d100"`);
+        await queryRunner.query(`CREATE TABLE "temporary_audit_logs" ("id" varchar PRIMARY KEY NOT NULL, "usuario_id" varchar, "acao" varchar CHECK( "acao" IN ('criar','atualizar','excluir','restaurar','expurgar') ) NOT NULL, "entidade" varchar(50) NOT NULL, "entidade_id" varchar NOT NULL, "dados_anteriores" text, "dados_novos" text, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "temporary_audit_logs"("id", "usuario_id", "acao", "entidade", "entidade_id", "dados_anteriores", "dados_novos", "data_criacao") SELECT "id", "usuario_id", "acao", "entidade", "entidade_id", "dados_anteriores", "dados_novos", "data_criacao" FROM "audit_logs"`);
+        await queryRunner.query(`DROP TABLE "audit_logs"`);
+        await queryRunner.query(`ALTER TABLE "temporary_audit_logs" RENAME TO "audit_logs"`);
+        await queryRunner.query(`CREATE INDEX "IDX_d8ec3fe96e379fc829ef5334ad" ON "audit_logs" ("entidade", "entidade_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6da46b69093a8e8ea259ccc2ab" ON "audit_logs" ("data_criacao") `);
+        await queryRunner.query(`CREATE INDEX "IDX_76adac46b6075b2a28f1a7d100" ON "audit_logs" ("usuario_id") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_76adac46b6075b2a28f1a7d100"`);
+        await queryRunner.query(`DROP INDEX "IDX_6da46b69093a8e8ea259ccc2ab"`);
+        await queryRunner.query(`DROP INDEX "IDX_d8ec3fe96e379fc829ef5334ad"`);
+        await queryRunner.query(`ALTER TABLE "audit_logs" RENAME TO "temporary_audit_logs"`);
+        await queryRunner.query(`CREATE TABLE "audit_logs" ("id" varchar PRIMARY KEY NOT NULL, "usuario_id" varchar, "acao" varchar CHECK( "acao" IN ('criar','atualizar','excluir') ) NOT NULL, "entidade" varchar(50) NOT NULL, "entidade_id" varchar NOT NULL, "dados_anteriores" text, "dados_novos" text, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`INSERT INTO "audit_logs"("id", "usuario_id", "acao", "entidade", "entidade_id", "dados_anteriores", "dados_novos", "data_criacao") SELECT "id", "usuario_id", "acao", "entidade", "entidade_id", "dados_anteriores", "dados_novos", "data_criacao" FROM "temporary_audit_logs"`);
+        await queryRunner.query(`DROP TABLE "temporary_audit_logs"`);
+        await queryRunner.query(`CREATE INDEX "IDX_76adac46b6075b2a28f1a7d100" ON "audit_logs" ("usuario_id") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6da46b69093a8e8ea259ccc2ab" ON "audit_logs" ("data_criacao") `);
+        await queryRunner.query(`CREATE INDEX "IDX_d8ec3fe96e379fc829ef5334ad" ON "audit_logs" ("entidade", "entidade_id") `);
+        await queryRunner.query(`DROP INDEX "IDX_341df6237adcec3e27a951b048"`);
+        await queryRunner.query(`DROP INDEX "IDX_97672ac88f789774dd47f7c8be"`);
+        await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+        await queryRunner.query(`CREATE TABLE "users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "papel" varchar CHECK( "papel" IN ('admin','editor','autor','leitor') ) NOT NULL DEFAULT ('autor'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "tentativas_login_falhas" integer NOT NULL DEFAULT (0), "bloqueado_ate" datetime, "email_verificado" boolean NOT NULL DEFAULT (0))`);
+        await queryRunner.query(`INSERT INTO "users"("id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate", "email_verificado") SELECT "id", "nome_completo", "nome_usuario", "email", "senha", "papel", "data_criacao", "tentativas_login_falhas", "bloqueado_ate", "email_verificado" FROM "temporary_users"`);
+        await queryRunner.query(`DROP TABLE "temporary_users"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `);
+        await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, "formato_conteudo" varchar CHECK( "formato_conteudo" IN ('texto','markdown') ) NOT NULL DEFAULT ('texto'), CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_0d7c1588afbc420be78cb5b504e" FOREIGN KEY ("capa_id") REFERENCES "media" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo" FROM "temporary_articles"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles"`);
+        await queryRunner.query(`DROP INDEX "IDX_83fb837fe9f069174d22b6ab69"`);
+        await queryRunner.query(`ALTER TABLE "categories" RENAME TO "temporary_categories"`);
+        await queryRunner.query(`CREATE TABLE "categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "categoria_pai_id" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_e844d6613638d724faf5e1fed96" FOREIGN KEY ("categoria_pai_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "categories"("id", "nome", "descricao", "categoria_pai_id", "data_criacao") SELECT "id", "nome", "descricao", "categoria_pai_id", "data_criacao" FROM "temporary_categories"`);
+        await queryRunner.query(`DROP TABLE "temporary_categories"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `);
+    }
+
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { criarTriggersBuscaArtigos, removerTriggersBuscaArtigos, TABELA_BUSCA_ARTIGOS } from "../buscaTextual";
+
+export class BuscaTextual1792392488598 implements MigrationInterface {
+    name = 'BuscaTextual1792392488598'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Bancos existentes já têm o índice, criado ao iniciar o servidor, mas possivelmente sem os triggers
+        await removerTriggersBuscaArtigos(queryRunner);
+        await queryRunner.query(`DROP TABLE IF EXISTS ${TABELA_BUSCA_ARTIGOS}`);
+
+        await queryRunner.query(`CREATE VIRTUAL TABLE ${TABELA_BUSCA_ARTIGOS} USING fts5(article_id UNINDEXED, titulo, conteudo, tokenize = 'unicode61 remove_diacritics 2')`);
+        await criarTriggersBuscaArtigos(queryRunner);
+        await queryRunner.query(`INSERT INTO ${TABELA_BUSCA_ARTIGOS} (article_id, titulo, conteudo) SELECT "id", "titulo", "conteudo" FROM "articles"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await removerTriggersBuscaArtigos(queryRunner);
+        await queryRunner.query(`DROP TABLE ${TABELA_BUSCA_ARTIGOS}`);
+    }
+
+}
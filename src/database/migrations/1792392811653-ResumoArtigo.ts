@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { criarTriggersBuscaArtigos } from "../buscaTextual";
+import { FormatoConteudo } from "../../entities/Article";
+import { ArticleContentService } from "../../services/ArticleContentService";
+
+export class ResumoArtigo1792392811653 implements MigrationInterface {
+    name = 'ResumoArtigo1792392811653'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, "formato_conteudo" varchar CHECK( "formato_conteudo" IN ('texto','markdown') ) NOT NULL DEFAULT ('texto'), "data_exclusao" datetime, "resumo" text NOT NULL DEFAULT (''), "tempo_leitura_minutos" integer NOT NULL DEFAULT (1), CONSTRAINT "FK_0d7c1588afbc420be78cb5b504e" FOREIGN KEY ("capa_id") REFERENCES "media" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "temporary_articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo", "data_exclusao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo", "data_exclusao" FROM "articles"`);
+        await queryRunner.query(`DROP TABLE "articles"`);
+        await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+
+        // Artigos existentes recebem o resumo e o tempo de leitura calculados a partir do conteúdo
+        const artigos: { id: string; conteudo: string; formato_conteudo: FormatoConteudo }[] =
+            await queryRunner.query(`SELECT "id", "conteudo", "formato_conteudo" FROM "articles"`);
+        for (const artigo of artigos) {
+            const { resumo, tempoLeituraMinutos } = ArticleContentService.renderizar(artigo.conteudo, artigo.formato_conteudo);
+            await queryRunner.query(
+                `UPDATE "articles" SET "resumo" = ?, "tempo_leitura_minutos" = ? WHERE "id" = ?`,
+                [resumo, tempoLeituraMinutos, artigo.id]
+            );
+        }
+
+        // Recriar a tabela derrubou os triggers do índice de busca
+        await criarTriggersBuscaArtigos(queryRunner);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+        await queryRunner.query(`CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "status" varchar CHECK( "status" IN ('rascunho','revisao','agendado','publicado','arquivado') ) NOT NULL DEFAULT ('rascunho'), "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), "capa_id" varchar, "formato_conteudo" varchar CHECK( "formato_conteudo" IN ('texto','markdown') ) NOT NULL DEFAULT ('texto'), "data_exclusao" datetime, CONSTRAINT "FK_0d7c1588afbc420be78cb5b504e" FOREIGN KEY ("capa_id") REFERENCES "media" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+        await queryRunner.query(`INSERT INTO "articles"("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo", "data_exclusao") SELECT "id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao", "status", "data_criacao", "capa_id", "formato_conteudo", "data_exclusao" FROM "temporary_articles"`);
+        await queryRunner.query(`DROP TABLE "temporary_articles"`);
+        await criarTriggersBuscaArtigos(queryRunner);
+    }
+
+}
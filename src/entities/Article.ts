@@ -1,6 +1,23 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, DeleteDateColumn, ManyToOne, OneToMany, ManyToMany, JoinColumn, JoinTable, AfterLoad, BeforeInsert, BeforeUpdate } from "typeorm";
 import { User } from "./User";
 import { Category } from "./Category";
+import { Comment } from "./Comment";
+import { Tag } from "./Tag";
+import { Media } from "./Media";
+import { ArticleContentService } from "../services/ArticleContentService";
+
+export enum StatusArtigo {
+    RASCUNHO = "rascunho",
+    REVISAO = "revisao",
+    AGENDADO = "agendado",
+    PUBLICADO = "publicado",
+    ARQUIVADO = "arquivado"
+}
+
+export enum FormatoConteudo {
+    TEXTO = "texto",
+    MARKDOWN = "markdown"
+}
 
 @Entity("articles")
 export class Article {
@@ -13,6 +30,16 @@ export class Article {
     @Column("text")
     conteudo: string;
 
+    @Column({ name: "formato_conteudo", type: "simple-enum", enum: FormatoConteudo, default: FormatoConteudo.TEXTO })
+    formatoConteudo: FormatoConteudo;
+
+    // Derivados do conteúdo a cada gravação, para que as listagens não precisem carregá-lo nem renderizá-lo
+    @Column("text", { default: "" })
+    resumo: string;
+
+    @Column({ name: "tempo_leitura_minutos", type: "integer", default: 1 })
+    tempoLeituraMinutos: number;
+
     @Column({ name: "autor_id" })
     autorId: string;
 
@@ -22,9 +49,19 @@ export class Article {
     @Column({ name: "data_publicacao" })
     dataPublicacao: Date;
 
+    @Column({ name: "capa_id", type: "varchar", nullable: true })
+    capaId: string | null;
+
+    @Column({ type: "simple-enum", enum: StatusArtigo, default: StatusArtigo.RASCUNHO })
+    status: StatusArtigo;
+
     @CreateDateColumn({ name: "data_criacao" })
     dataCriacao: Date;
 
+    // Preenchida quando o artigo vai para a lixeira; find e query builders ignoram esses registros
+    @DeleteDateColumn({ name: "data_exclusao", type: "datetime", nullable: true })
+    dataExclusao: Date | null;
+
     @ManyToOne(() => User, user => user.artigos)
     @JoinColumn({ name: "autor_id" })
     autor: User;
@@ -32,4 +69,45 @@ export class Article {
     @ManyToOne(() => Category, category => category.artigos)
     @JoinColumn({ name: "categoria_id" })
     categoria: Category;
-} 
\ No newline at end of file
+
+    @OneToMany(() => Comment, comment => comment.artigo)
+    comentarios: Comment[];
+
+    @ManyToMany(() => Tag, tag => tag.artigos)
+    @JoinTable({
+        name: "articles_tags",
+        joinColumn: { name: "artigo_id" },
+        inverseJoinColumn: { name: "tag_id" }
+    })
+    tags: Tag[];
+
+    @ManyToMany(() => Media, media => media.artigos)
+    @JoinTable({
+        name: "articles_media",
+        joinColumn: { name: "artigo_id" },
+        inverseJoinColumn: { name: "midia_id" }
+    })
+    midias: Media[];
+
+    @ManyToOne(() => Media, { onDelete: "SET NULL" })
+    @JoinColumn({ name: "capa_id" })
+    capa: Media | null;
+
+    @AfterLoad()
+    atualizarStatusAgendado() {
+        if (this.status === StatusArtigo.AGENDADO && this.dataPublicacao && new Date(this.dataPublicacao) <= new Date()) {
+            this.status = StatusArtigo.PUBLICADO;
+        }
+    }
+
+    // Só recalcula quando o conteúdo foi carregado; listagens selecionam o artigo sem ele
+    @BeforeInsert()
+    @BeforeUpdate()
+    atualizarResumo() {
+        if (this.conteudo !== undefined) {
+            const { resumo, tempoLeituraMinutos } = ArticleContentService.renderizar(this.conteudo, this.formatoConteudo ?? FormatoConteudo.TEXTO);
+            this.resumo = resumo;
+            this.tempoLeituraMinutos = tempoLeituraMinutos;
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Article } from "./Article";
+import { User } from "./User";
+
+@Entity("article_revisions")
+@Index(["artigoId", "numero"], { unique: true })
+export class ArticleRevision {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "artigo_id" })
+    artigoId: string;
+
+    @Column("integer")
+    numero: number;
+
+    @Column({ length: 100 })
+    titulo: string;
+
+    @Column("text")
+    conteudo: string;
+
+    @Column({ name: "campos_alterados", type: "simple-json" })
+    camposAlterados: string[];
+
+    @Column({ name: "editor_id", type: "varchar", nullable: true })
+    editorId: string | null;
+
+    @Column({ name: "restaurada_de", type: "integer", nullable: true })
+    restauradaDe: number | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToOne(() => Article, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "artigo_id" })
+    artigo: Article;
+
+    @ManyToOne(() => User, { onDelete: "SET NULL" })
+    @JoinColumn({ name: "editor_id" })
+    editor: User;
+}
@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+export enum AcaoAuditoria {
+    CRIAR = "criar",
+    ATUALIZAR = "atualizar",
+    EXCLUIR = "excluir",
+    RESTAURAR = "restaurar",
+    EXPURGAR = "expurgar"
+}
+
+@Entity("audit_logs")
+@Index(["entidade", "entidadeId"])
+export class AuditLog {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "usuario_id", type: "varchar", nullable: true })
+    @Index()
+    usuarioId: string | null;
+
+    @Column({ type: "simple-enum", enum: AcaoAuditoria })
+    acao: AcaoAuditoria;
+
+    @Column({ length: 50 })
+    entidade: string;
+
+    @Column({ name: "entidade_id" })
+    entidadeId: string;
+
+    @Column({ name: "dados_anteriores", type: "simple-json", nullable: true })
+    dadosAnteriores: Record<string, any> | null;
+
+    @Column({ name: "dados_novos", type: "simple-json", nullable: true })
+    dadosNovos: Record<string, any> | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    @Index()
+    dataCriacao: Date;
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, Index, CreateDateColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, ManyToOne, JoinColumn, Index, CreateDateColumn, DeleteDateColumn } from "typeorm";
 import { Article } from "./Article";
 
 @Entity("categories")
@@ -13,9 +13,22 @@ export class Category {
     @Column({ nullable: true })
     descricao: string;
 
+    @Column({ name: "categoria_pai_id", type: "varchar", nullable: true })
+    categoriaPaiId: string | null;
+
     @CreateDateColumn({ name: "data_criacao" })
     dataCriacao: Date;
 
+    @DeleteDateColumn({ name: "data_exclusao", type: "datetime", nullable: true })
+    dataExclusao: Date | null;
+
     @OneToMany(() => Article, article => article.categoria)
     artigos: Article[];
-} 
\ No newline at end of file
+
+    @ManyToOne(() => Category, category => category.subcategorias)
+    @JoinColumn({ name: "categoria_pai_id" })
+    categoriaPai: Category;
+
+    @OneToMany(() => Category, category => category.categoriaPai)
+    subcategorias: Category[];
+}
@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from "typeorm";
+import { User } from "./User";
+import { Article } from "./Article";
+
+export enum StatusComentario {
+    PENDENTE = "pendente",
+    APROVADO = "aprovado",
+    REJEITADO = "rejeitado",
+    OCULTO = "oculto"
+}
+
+@Entity("comments")
+export class Comment {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column("text")
+    conteudo: string;
+
+    @Column({ name: "autor_id" })
+    autorId: string;
+
+    @Column({ name: "artigo_id" })
+    artigoId: string;
+
+    @Column({ name: "comentario_pai_id", type: "varchar", nullable: true })
+    comentarioPaiId: string | null;
+
+    @Column({ type: "simple-enum", enum: StatusComentario, default: StatusComentario.PENDENTE })
+    status: StatusComentario;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @UpdateDateColumn({ name: "data_atualizacao" })
+    dataAtualizacao: Date;
+
+    @ManyToOne(() => User, user => user.comentarios)
+    @JoinColumn({ name: "autor_id" })
+    autor: User;
+
+    @ManyToOne(() => Article, article => article.comentarios)
+    @JoinColumn({ name: "artigo_id" })
+    artigo: Article;
+
+    @ManyToOne(() => Comment, comment => comment.respostas)
+    @JoinColumn({ name: "comentario_pai_id" })
+    comentarioPai: Comment;
+
+    @OneToMany(() => Comment, comment => comment.comentarioPai)
+    respostas: Comment[];
+}
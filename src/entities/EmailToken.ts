@@ -0,0 +1,36 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { User } from "./User";
+
+export enum TipoTokenEmail {
+    VERIFICACAO_EMAIL = "verificacao-email",
+    REDEFINICAO_SENHA = "redefinicao-senha"
+}
+
+@Entity("email_tokens")
+export class EmailToken {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "token_hash" })
+    @Index({ unique: true })
+    tokenHash: string;
+
+    @Column({ type: "simple-enum", enum: TipoTokenEmail })
+    tipo: TipoTokenEmail;
+
+    @Column({ name: "usuario_id" })
+    usuarioId: string;
+
+    @Column({ name: "expira_em" })
+    expiraEm: Date;
+
+    @Column({ name: "usado_em", type: "datetime", nullable: true })
+    usadoEm: Date | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToOne(() => User, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "usuario_id" })
+    usuario: User;
+}
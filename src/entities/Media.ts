@@ -0,0 +1,36 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, ManyToMany, JoinColumn, Index } from "typeorm";
+import { User } from "./User";
+import { Article } from "./Article";
+
+@Entity("media")
+export class Media {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "nome_original" })
+    nomeOriginal: string;
+
+    @Column({ name: "tipo_mime", length: 100 })
+    tipoMime: string;
+
+    @Column({ name: "tamanho_bytes" })
+    tamanhoBytes: number;
+
+    @Column({ name: "chave_armazenamento" })
+    @Index({ unique: true })
+    chaveArmazenamento: string;
+
+    @Column({ name: "usuario_id" })
+    @Index()
+    usuarioId: string;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToOne(() => User, user => user.midias)
+    @JoinColumn({ name: "usuario_id" })
+    usuario: User;
+
+    @ManyToMany(() => Article, article => article.midias)
+    artigos: Article[];
+}
@@ -0,0 +1,30 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity("outbox_emails")
+export class OutboxEmail {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column()
+    remetente: string;
+
+    @Column()
+    @Index()
+    destinatario: string;
+
+    @Column()
+    assunto: string;
+
+    @Column("text")
+    texto: string;
+
+    @Column({ type: "varchar", length: 50, nullable: true })
+    tipo: string | null;
+
+    @Column({ type: "simple-json", nullable: true })
+    dados: Record<string, any> | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    @Index()
+    dataCriacao: Date;
+}
@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { User } from "./User";
+
+@Entity("refresh_tokens")
+export class RefreshToken {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "token_hash" })
+    @Index({ unique: true })
+    tokenHash: string;
+
+    @Column({ name: "usuario_id" })
+    usuarioId: string;
+
+    @Column({ name: "sessao_id" })
+    @Index()
+    sessaoId: string;
+
+    @Column({ name: "expira_em" })
+    expiraEm: Date;
+
+    @Column({ name: "revogado_em", type: "datetime", nullable: true })
+    revogadoEm: Date | null;
+
+    @Column({ name: "substituido_por_id", type: "varchar", nullable: true })
+    substituidoPorId: string | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToOne(() => User, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "usuario_id" })
+    usuario: User;
+}
@@ -0,0 +1,21 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToMany, Index } from "typeorm";
+import { Article } from "./Article";
+
+@Entity("tags")
+export class Tag {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ length: 50 })
+    nome: string;
+
+    @Column({ length: 60 })
+    @Index({ unique: true })
+    slug: string;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToMany(() => Article, article => article.tags)
+    artigos: Article[];
+}
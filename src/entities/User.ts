@@ -1,5 +1,14 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, OneToMany, Index } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, DeleteDateColumn, OneToMany, Index } from "typeorm";
 import { Article } from "./Article";
+import { Comment } from "./Comment";
+import { Media } from "./Media";
+
+export enum PapelUsuario {
+    ADMIN = "admin",
+    EDITOR = "editor",
+    AUTOR = "autor",
+    LEITOR = "leitor"
+}
 
 @Entity("users")
 export class User {
@@ -20,9 +29,30 @@ export class User {
     @Column({ select: false })
     senha: string;
 
+    @Column({ type: "simple-enum", enum: PapelUsuario, default: PapelUsuario.AUTOR })
+    papel: PapelUsuario;
+
+    @Column({ name: "email_verificado", default: false })
+    emailVerificado: boolean;
+
+    @Column({ name: "tentativas_login_falhas", default: 0, select: false })
+    tentativasLoginFalhas: number;
+
+    @Column({ name: "bloqueado_ate", type: "datetime", nullable: true, select: false })
+    bloqueadoAte: Date | null;
+
     @CreateDateColumn({ name: "data_criacao" })
     dataCriacao: Date;
 
+    @DeleteDateColumn({ name: "data_exclusao", type: "datetime", nullable: true })
+    dataExclusao: Date | null;
+
     @OneToMany(() => Article, article => article.autor)
     artigos: Article[];
-} 
\ No newline at end of file
+
+    @OneToMany(() => Comment, comment => comment.autor)
+    comentarios: Comment[];
+
+    @OneToMany(() => Media, media => media.usuario)
+    midias: Media[];
+}
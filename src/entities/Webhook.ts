@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany } from "typeorm";
+import { WebhookDelivery } from "./WebhookDelivery";
+
+@Entity("webhooks")
+export class Webhook {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ length: 2000 })
+    url: string;
+
+    @Column({ type: "varchar", length: 255, nullable: true })
+    descricao: string | null;
+
+    @Column("simple-json")
+    eventos: string[];
+
+    @Column({ select: false })
+    segredo: string;
+
+    @Column({ default: true })
+    ativo: boolean;
+
+    @Column({ name: "usuario_id", type: "varchar", nullable: true })
+    usuarioId: string | null;
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @UpdateDateColumn({ name: "data_atualizacao" })
+    dataAtualizacao: Date;
+
+    @OneToMany(() => WebhookDelivery, entrega => entrega.webhook)
+    entregas: WebhookDelivery[];
+}
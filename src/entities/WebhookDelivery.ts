@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Webhook } from "./Webhook";
+
+export enum StatusEntrega {
+    PENDENTE = "pendente",
+    SUCESSO = "sucesso",
+    FALHA = "falha"
+}
+
+export interface TentativaEntrega {
+    data: Date;
+    statusHttp: number | null;
+    erro: string | null;
+    duracaoMs: number;
+    manual: boolean;
+}
+
+@Entity("webhook_deliveries")
+@Index(["status", "proximaTentativaEm"])
+export class WebhookDelivery {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ name: "webhook_id" })
+    @Index()
+    webhookId: string;
+
+    @Column({ length: 50 })
+    evento: string;
+
+    @Column("simple-json")
+    payload: Record<string, any>;
+
+    @Column({ type: "simple-enum", enum: StatusEntrega, default: StatusEntrega.PENDENTE })
+    status: StatusEntrega;
+
+    @Column({ default: 0 })
+    tentativas: number;
+
+    @Column({ name: "proxima_tentativa_em", type: "datetime", nullable: true })
+    proximaTentativaEm: Date | null;
+
+    @Column({ name: "ultimo_status_http", type: "integer", nullable: true })
+    ultimoStatusHttp: number | null;
+
+    @Column({ name: "ultimo_erro", type: "text", nullable: true })
+    ultimoErro: string | null;
+
+    @Column({ type: "simple-json" })
+    historico: TentativaEntrega[];
+
+    @CreateDateColumn({ name: "data_criacao" })
+    dataCriacao: Date;
+
+    @ManyToOne(() => Webhook, webhook => webhook.entregas, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "webhook_id" })
+    webhook: Webhook;
+}
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from "express";
+import { LoggerService } from "../services/LoggerService";
+
+export const accessLogMiddleware = (req: Request, res: Response, next: NextFunction) => {
+    const inicio = process.hrtime.bigint();
+    const caminho = req.originalUrl.split("?")[0];
+
+    const registrar = () => {
+        const duracaoMs = Number((process.hrtime.bigint() - inicio) / BigInt(1000)) / 1000;
+        const dados = { metodo: req.method, caminho, status: res.statusCode, duracaoMs };
+
+        if (!res.writableFinished) {
+            LoggerService.warn("Conexão encerrada antes do fim da resposta", dados);
+        } else if (res.statusCode >= 500) {
+            LoggerService.warn("Requisição concluída", dados);
+        } else {
+            LoggerService.info("Requisição concluída", dados);
+        }
+    };
+
+    res.once("close", registrar);
+    next();
+};
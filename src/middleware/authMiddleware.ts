@@ -1,14 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { LoggerService } from "../services/LoggerService";
-
-const JWT_SECRET = process.env.JWT_SECRET || "sua_chave_secreta_aqui";
+import { TokenService } from "../services/TokenService";
+import { PapelUsuario } from "../entities/User";
 
 export interface AuthRequest extends Request {
     userId?: string;
+    userPapel?: PapelUsuario;
+    refreshTokenId?: string;
 }
 
-export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authMiddleware = async (req: AuthRequest, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
 
     if (!authHeader) {
@@ -19,7 +21,7 @@ export const authMiddleware = (req: AuthRequest, res: Response, next: NextFuncti
     const parts = authHeader.split(" ");
 
     if (parts.length !== 2) {
-        LoggerService.warn("Token mal formatado", { path: req.path, method: req.method, token: authHeader });
+        LoggerService.warn("Token mal formatado", { path: req.path, method: req.method });
         return res.status(401).json({ erro: "Token mal formatado" });
     }
 
@@ -30,13 +32,30 @@ export const authMiddleware = (req: AuthRequest, res: Response, next: NextFuncti
         return res.status(401).json({ erro: "Token mal formatado" });
     }
 
+    let decoded;
     try {
-        const decoded = jwt.verify(token, JWT_SECRET) as { id: string };
-        req.userId = decoded.id;
-        LoggerService.info("Usuário autenticado com sucesso", { userId: decoded.id, });
-        return next();
+        decoded = TokenService.verificarAccessToken(token);
     } catch (error) {
+        if (error instanceof jwt.TokenExpiredError) {
+            LoggerService.warn("Token expirado", { path: req.path, method: req.method, expiredAt: error.expiredAt });
+            return res.status(401).json({ erro: "Token expirado" });
+        }
         LoggerService.error("Token inválido", { path: req.path, method: req.method, error });
         return res.status(401).json({ erro: "Token inválido" });
     }
+
+    try {
+        if (!(await TokenService.sessaoAtiva(decoded.sid))) {
+            LoggerService.warn("Token revogado", { path: req.path, method: req.method, userId: decoded.id });
+            return res.status(401).json({ erro: "Token revogado" });
+        }
+    } catch (error) {
+        LoggerService.error("Erro ao verificar sessão do token", error);
+        return res.status(500).json({ erro: "Erro ao verificar token" });
+    }
+
+    req.userId = decoded.id;
+    req.refreshTokenId = decoded.sid;
+    LoggerService.debug("Usuário autenticado com sucesso", { userId: decoded.id });
+    return next();
 };
\ No newline at end of file
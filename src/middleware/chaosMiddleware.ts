@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import { ChaosService } from "../services/ChaosService";
+import { LoggerService } from "../services/LoggerService";
+
+export const HEADER_CENARIO = "x-chaos-scenario";
+export const HEADER_FALHA = "X-Chaos-Fault";
+
+export const chaosMiddleware = (req: Request, res: Response, next: NextFunction) => {
+    if (!ChaosService.ativo()) {
+        return next();
+    }
+
+    const caminho = req.baseUrl + req.path;
+    const cenario = req.header(HEADER_CENARIO);
+    let sorteada = null;
+
+    if (cenario) {
+        sorteada = ChaosService.interpretarCenario(cenario);
+        if (!sorteada) {
+            LoggerService.warn("Cenário de caos inválido", { cenario, path: caminho });
+            return res.status(400).json({ erro: `Cenário de caos inválido: ${cenario}` });
+        }
+    } else {
+        sorteada = ChaosService.sortearFalha(req.method, caminho);
+    }
+
+    if (!sorteada) {
+        return next();
+    }
+
+    LoggerService.warn("Falha injetada pelo modo caos", { falha: sorteada.falha, method: req.method, path: caminho });
+    res.setHeader(HEADER_FALHA, sorteada.falha);
+
+    switch (sorteada.falha) {
+        case "latencia":
+            setTimeout(next, sorteada.latenciaMs);
+            return;
+        case "erro-500":
+            return res.status(500).json({ erro: "Falha injetada pelo modo caos" });
+        case "erro-503":
+            res.setHeader("Retry-After", "1");
+            return res.status(503).json({ erro: "Serviço indisponível (falha injetada pelo modo caos)" });
+        case "json-malformado": {
+            res.json = (corpo?: unknown) => {
+                const texto = JSON.stringify(corpo) ?? "";
+                return res.type("application/json").send(texto.slice(0, Math.max(1, Math.floor(texto.length / 2))));
+            };
+            return next();
+        }
+        case "conexao-encerrada":
+            req.socket.destroy();
+            return;
+    }
+};
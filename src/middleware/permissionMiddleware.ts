@@ -0,0 +1,54 @@
+import { Response, NextFunction } from "express";
+import { AppDataSource } from "../database/data-source";
+import { User, PapelUsuario } from "../entities/User";
+import { AuthRequest } from "./authMiddleware";
+import { LoggerService } from "../services/LoggerService";
+
+export const carregarPapel = async (req: AuthRequest): Promise<PapelUsuario | undefined> => {
+    if (req.userPapel) {
+        return req.userPapel;
+    }
+
+    const user = await AppDataSource.getRepository(User).findOne({
+        where: { id: req.userId },
+        select: ["id", "papel"]
+    });
+
+    req.userPapel = user?.papel;
+    return req.userPapel;
+};
+
+export const PAPEIS_EDITORIAIS = [PapelUsuario.ADMIN, PapelUsuario.EDITOR];
+
+export const isEditorial = async (req: AuthRequest): Promise<boolean> => {
+    const papel = await carregarPapel(req);
+    return !!papel && PAPEIS_EDITORIAIS.includes(papel);
+};
+
+export const permissionMiddleware = (...papeisPermitidos: PapelUsuario[]) =>
+    async (req: AuthRequest, res: Response, next: NextFunction) => {
+        try {
+            const papel = await carregarPapel(req);
+
+            if (!papel) {
+                LoggerService.warn("Usuário autenticado não encontrado", { userId: req.userId, path: req.path });
+                return res.status(401).json({ erro: "Usuário não encontrado" });
+            }
+
+            if (!papeisPermitidos.includes(papel)) {
+                LoggerService.warn("Acesso negado por falta de permissão", {
+                    userId: req.userId,
+                    papel,
+                    papeisPermitidos,
+                    path: req.path,
+                    method: req.method
+                });
+                return res.status(403).json({ erro: "Acesso negado" });
+            }
+
+            return next();
+        } catch (error) {
+            LoggerService.error("Erro ao verificar permissões", error);
+            return res.status(500).json({ erro: "Erro ao verificar permissões" });
+        }
+    };
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import { RateLimitService } from "../services/RateLimitService";
+import { LoggerService } from "../services/LoggerService";
+
+export interface OpcoesRateLimit {
+    limitador: string;
+    maximo: number;
+    janelaSegundos: number;
+    chave: (req: Request) => string | undefined;
+}
+
+export const HEADERS_RATE_LIMIT = ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy", "Retry-After"];
+
+// Um limite igual a 0 desativa o limitador
+export const rateLimitMiddleware = (opcoes: OpcoesRateLimit) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const chave = opcoes.chave(req);
+        if (opcoes.maximo === 0 || !chave) {
+            return next();
+        }
+
+        const consumo = RateLimitService.consumir(opcoes.limitador, chave, opcoes.maximo, opcoes.janelaSegundos);
+
+        // Com vários limitadores na mesma rota, os headers refletem o mais próximo de ser atingido
+        const restanteAtual = res.getHeader("RateLimit-Remaining");
+        if (restanteAtual === undefined || consumo.restante <= Number(restanteAtual)) {
+            res.setHeader("RateLimit-Limit", consumo.limite);
+            res.setHeader("RateLimit-Remaining", consumo.restante);
+            res.setHeader("RateLimit-Reset", consumo.resetSegundos);
+            res.setHeader("RateLimit-Policy", `${opcoes.maximo};w=${opcoes.janelaSegundos}`);
+        }
+
+        if (!consumo.permitido) {
+            LoggerService.warn("Limite de requisições excedido", {
+                limitador: opcoes.limitador,
+                path: req.originalUrl.split("?")[0],
+                method: req.method,
+                ip: req.ip
+            });
+            res.setHeader("Retry-After", consumo.resetSegundos);
+            return res.status(429).json({ erro: `Muitas requisições. Tente novamente em ${consumo.resetSegundos} segundos` });
+        }
+
+        return next();
+    };
+};
@@ -0,0 +1,15 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { RequestContextService } from "../services/RequestContextService";
+
+export const HEADER_REQUEST_ID = "X-Request-Id";
+
+const REQUEST_ID_VALIDO = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
+    const recebido = req.header(HEADER_REQUEST_ID);
+    const requestId = recebido && REQUEST_ID_VALIDO.test(recebido) ? recebido : crypto.randomUUID();
+
+    res.setHeader(HEADER_REQUEST_ID, requestId);
+    RequestContextService.executar({ requestId }, next);
+};
@@ -10,9 +10,12 @@ export const validateRequest = (
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
         const validationErrors = errors.array();
-        LoggerService.warn(`Validação falhou na rota ${req.method} ${req.path}`, { errors: validationErrors });
+        // Os valores recebidos ficam fora do log, pois podem conter senhas
+        LoggerService.warn(`Validação falhou na rota ${req.method} ${req.path}`, {
+            errors: validationErrors.map(erro => ({ campo: erro.type === "field" ? erro.path : erro.type, msg: erro.msg }))
+        });
         return res.status(400).json({ errors: validationErrors });
     }
-    LoggerService.info(`Validação bem-sucedida na rota ${req.method} ${req.path}`);
+    LoggerService.debug(`Validação bem-sucedida na rota ${req.method} ${req.path}`);
     next();
 };
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { Router, Response } from "express";
+import { body } from "express-validator";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { RetentionService } from "../services/RetentionService";
+import { ChaosService, TIPOS_FALHA } from "../services/ChaosService";
+import { LoginLockoutService } from "../services/LoginLockoutService";
+import { AppDataSource } from "../database/data-source";
+import { User, PapelUsuario } from "../entities/User";
+import testDataRoutes from "./testDataRoutes";
+import outboxRoutes from "./outboxRoutes";
+
+const router = Router();
+
+router.use(permissionMiddleware(PapelUsuario.ADMIN));
+
+router.get("/retencao", async (_req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Consultando políticas de retenção");
+        return res.json(await RetentionService.estadoAtual());
+    } catch (error) {
+        LoggerService.error("Erro ao consultar políticas de retenção", error);
+        return res.status(500).json({ erro: "Erro ao consultar políticas de retenção" });
+    }
+});
+
+router.post("/retencao/executar",
+    [
+        body("simulacao")
+            .optional()
+            .isBoolean({ strict: true }).withMessage("simulacao deve ser booleano"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const simulacao = req.body.simulacao === true;
+            LoggerService.info("Execução manual da retenção solicitada", { simulacao, userId: req.userId });
+
+            const relatorio = await RetentionService.executar({ simulacao, usuarioId: req.userId });
+            if (!relatorio) {
+                return res.status(409).json({ erro: "Execução de retenção já em andamento" });
+            }
+
+            return res.json(relatorio);
+        } catch (error) {
+            LoggerService.error("Erro ao executar retenção", error);
+            return res.status(500).json({ erro: "Erro ao executar retenção" });
+        }
+    }
+);
+
+router.get("/caos", (_req: AuthRequest, res: Response) => {
+    LoggerService.info("Consultando configuração do modo caos");
+    return res.json(ChaosService.obterConfiguracao());
+});
+
+router.post("/caos",
+    [
+        body("ativo").isBoolean({ strict: true }).withMessage("ativo deve ser booleano"),
+        body("regras")
+            .optional()
+            .isArray().withMessage("regras deve ser uma lista"),
+        body("regras.*.rota")
+            .isString().withMessage("Rota é obrigatória")
+            .matches(/^\//).withMessage("Rota deve começar com '/'"),
+        body("regras.*.metodo")
+            .optional()
+            .isIn(["GET", "POST", "PUT", "PATCH", "DELETE"]).withMessage("Método inválido"),
+        body("regras.*.falha")
+            .isIn([...TIPOS_FALHA]).withMessage(`Falha deve ser uma de: ${TIPOS_FALHA.join(", ")}`),
+        body("regras.*.probabilidade")
+            .isFloat({ min: 0, max: 1 }).withMessage("Probabilidade deve estar entre 0 e 1"),
+        body("regras.*.latenciaMs")
+            .optional()
+            .isInt({ min: 0, max: ChaosService.LATENCIA_MAXIMA_MS })
+            .withMessage(`Latência deve estar entre 0 e ${ChaosService.LATENCIA_MAXIMA_MS} ms`),
+        validateRequest
+    ],
+    (req: AuthRequest, res: Response) => {
+        const regras = (req.body.regras ?? []).map((regra: Record<string, unknown>) => ({
+            rota: regra.rota,
+            metodo: regra.metodo,
+            falha: regra.falha,
+            probabilidade: Number(regra.probabilidade),
+            latenciaMs: regra.latenciaMs === undefined ? undefined : Number(regra.latenciaMs)
+        }));
+
+        LoggerService.info("Alterando configuração do modo caos", { userId: req.userId });
+        return res.json(ChaosService.configurar({ ativo: req.body.ativo, regras }));
+    }
+);
+
+router.get("/usuarios/:id/bloqueio", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Consultando bloqueio de login do usuário", { id: req.params.id });
+        const user = await AppDataSource.getRepository(User).findOneBy({ id: req.params.id });
+        if (!user) {
+            return res.status(404).json({ erro: "Usuário não encontrado" });
+        }
+
+        const estado = await LoginLockoutService.estado(user.id);
+        return res.json({
+            ...estado,
+            bloqueado: LoginLockoutService.segundosRestantes(estado) > 0
+        });
+    } catch (error) {
+        LoggerService.error("Erro ao consultar bloqueio de login do usuário", error);
+        return res.status(500).json({ erro: "Erro ao consultar bloqueio de login do usuário" });
+    }
+});
+
+router.post("/usuarios/:id/desbloquear", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Desbloqueando login do usuário", { id: req.params.id, userId: req.userId });
+        const user = await AppDataSource.getRepository(User).findOneBy({ id: req.params.id });
+        if (!user) {
+            return res.status(404).json({ erro: "Usuário não encontrado" });
+        }
+
+        await LoginLockoutService.desbloquear(user, req.userId);
+        LoggerService.info("Login do usuário desbloqueado com sucesso", { id: user.id });
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error("Erro ao desbloquear login do usuário", error);
+        return res.status(500).json({ erro: "Erro ao desbloquear login do usuário" });
+    }
+});
+
+router.use("/emails", outboxRoutes);
+router.use("/dados", testDataRoutes);
+
+export default router;
@@ -1,120 +1,756 @@
-import { Router, Request, Response } from "express";
-import { body } from "express-validator";
+import { Router, Response } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import { Brackets, EntityManager, FindOptionsWhere, In } from "typeorm";
 import { AppDataSource } from "../database/data-source";
-import { Article } from "../entities/Article";
-import { User } from "../entities/User";
+import { Article, FormatoConteudo, StatusArtigo } from "../entities/Article";
+import { User, PapelUsuario } from "../entities/User";
 import { Category } from "../entities/Category";
 import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { isEditorial, permissionMiddleware } from "../middleware/permissionMiddleware";
 import { LoggerService } from "../services/LoggerService";
+import { AcaoArtigo, ArticleWorkflowService } from "../services/ArticleWorkflowService";
+import { ArticleRevisionService, CAMPOS_VERSIONADOS } from "../services/ArticleRevisionService";
+import { ArticleSearchService } from "../services/ArticleSearchService";
+import { ArticleRevision } from "../entities/ArticleRevision";
+import { diffLines, MAXIMO_LINHAS_DIFF } from "../utils/DiffLines";
+import { Comment } from "../entities/Comment";
+import commentRoutes from "./commentRoutes";
+import { ModoFiltroTags, TagService } from "../services/TagService";
+import { CategoryTreeService } from "../services/CategoryTreeService";
+import { EnvelopeListagem, ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { AuditService } from "../services/AuditService";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { Tag } from "../entities/Tag";
+import { Media } from "../entities/Media";
+import { ArticleContentService, ArtigoResumido } from "../services/ArticleContentService";
+import { slugify } from "../utils/Slugify";
 
 const router = Router();
 const articleRepository = AppDataSource.getRepository(Article);
-const userRepository = AppDataSource.getRepository(User);
-const categoryRepository = AppDataSource.getRepository(Category);
+const revisionRepository = AppDataSource.getRepository(ArticleRevision);
+
+const podeGerenciarArtigo = async (req: AuthRequest, article: Article): Promise<boolean> => {
+    if (await isEditorial(req)) {
+        return true;
+    }
+    return req.userPapel === PapelUsuario.AUTOR && article.autorId === req.userId;
+};
+
+const validarTags = () => [
+    body("tags")
+        .optional()
+        .isArray({ max: 20 }).withMessage("Tags devem ser uma lista com no máximo 20 itens"),
+    body("tags.*")
+        .isString().withMessage("Cada tag deve ser um texto")
+        .bail()
+        .trim()
+        .isLength({ min: 1, max: 50 }).withMessage("Cada tag deve ter entre 1 e 50 caracteres")
+        .custom(tag => slugify(tag).length > 0).withMessage("Tag deve conter letras ou números")
+];
+
+const validarFormatoConteudo = () =>
+    body("formatoConteudo")
+        .optional()
+        .isIn(Object.values(FormatoConteudo)).withMessage(`Formato do conteúdo deve ser um dos valores: ${Object.values(FormatoConteudo).join(", ")}`);
+
+const validarMidias = () => [
+    body("midias")
+        .optional()
+        .isArray({ max: 50 }).withMessage("Mídias devem ser uma lista com no máximo 50 itens"),
+    body("midias.*")
+        .isUUID().withMessage("Cada mídia deve ser um ID válido"),
+    body("capaId")
+        .optional({ values: "null" })
+        .isUUID().withMessage("Capa deve ser o ID de uma mídia")
+];
+
+interface VinculosMidia {
+    midias: Media[];
+    capa: Media | null;
+}
+
+// Falha esperada de uma operação, com o status e a mensagem que a rota devolve
+class FalhaOperacao extends Error {
+    constructor(readonly status: number, mensagem: string) {
+        super(mensagem);
+    }
+}
+
+// Autores só podem vincular mídias enviadas por eles ou que já estavam vinculadas ao artigo
+const carregarMidias = async (
+    req: AuthRequest,
+    manager: EntityManager,
+    ids: string[],
+    capaId: string | null,
+    jaVinculadas: string[] = []
+): Promise<VinculosMidia> => {
+    const unicos = [...new Set(capaId ? [...ids, capaId] : ids)];
+    const encontradas = unicos.length > 0 ? await manager.findBy(Media, { id: In(unicos) }) : [];
+
+    if (encontradas.length !== unicos.length) {
+        LoggerService.warn("Mídia não encontrada para vincular ao artigo", { ids: unicos });
+        throw new FalhaOperacao(404, "Mídia não encontrada");
+    }
+
+    const alheias = encontradas.filter(media => media.usuarioId !== req.userId && !jaVinculadas.includes(media.id));
+    if (alheias.length > 0 && !(await isEditorial(req))) {
+        LoggerService.warn("Tentativa de vincular mídia de outro usuário", { userId: req.userId, ids: alheias.map(media => media.id) });
+        throw new FalhaOperacao(403, "Autores só podem vincular mídias enviadas por eles");
+    }
+
+    const capa = encontradas.find(media => media.id === capaId) ?? null;
+    if (capa && !capa.tipoMime.startsWith("image/")) {
+        LoggerService.warn(`Mídia usada como capa não é uma imagem: ${capa.id}`);
+        throw new FalhaOperacao(400, "A capa deve ser uma imagem");
+    }
+
+    return { midias: encontradas.filter(media => ids.includes(media.id)), capa };
+};
+
+const mesmasMidias = (atuais: Media[], ids: string[]): boolean => {
+    const novos = new Set(ids);
+    return atuais.length === novos.size && atuais.every(media => novos.has(media.id));
+};
+
+const mesmasTags = (atuais: Tag[], nomes: string[]): boolean => {
+    const slugsAtuais = new Set(atuais.map(tag => tag.slug));
+    const slugsNovos = new Set(nomes.map(slugify).filter(slug => slug.length > 0));
+    return slugsAtuais.size === slugsNovos.size && [...slugsNovos].every(slug => slugsAtuais.has(slug));
+};
+
+const validarCriacao = () => [
+    body("titulo")
+        .notEmpty().withMessage("Título é obrigatório")
+        .isLength({ max: 100 }).withMessage("Título deve ter no máximo 100 caracteres"),
+    body("conteudo").notEmpty().withMessage("Conteúdo é obrigatório"),
+    validarFormatoConteudo(),
+    body("nomeAutor").notEmpty().withMessage("Nome do autor é obrigatório"),
+    body("nomeCategoria").notEmpty().withMessage("Nome da categoria é obrigatório"),
+    body("dataPublicacao")
+        .optional()
+        .isISO8601().withMessage("Data de publicação deve estar no formato ISO8601"),
+    ...validarTags(),
+    ...validarMidias()
+];
+
+const validarAtualizacao = () => [
+    body("titulo")
+        .optional()
+        .isLength({ max: 100 }).withMessage("Título deve ter no máximo 100 caracteres"),
+    body("conteudo")
+        .optional()
+        .notEmpty().withMessage("Conteúdo não pode ser vazio"),
+    validarFormatoConteudo(),
+    body("nomeCategoria")
+        .optional()
+        .notEmpty().withMessage("Nome da categoria não pode ser vazio"),
+    ...validarTags(),
+    ...validarMidias()
+];
+
+const validarMovimentacao = () => [
+    body("categoriaOrigemId").isUUID().withMessage("Categoria de origem inválida"),
+    body("categoriaDestinoId").isUUID().withMessage("Categoria de destino inválida"),
+    body("incluirSubcategorias")
+        .optional()
+        .isBoolean({ strict: true }).withMessage("incluirSubcategorias deve ser booleano")
+];
+
+const criarArtigo = async (req: AuthRequest, manager: EntityManager, dados: Record<string, any>): Promise<Article> => {
+    const {
+        titulo,
+        conteudo,
+        formatoConteudo = FormatoConteudo.TEXTO,
+        nomeAutor,
+        nomeCategoria,
+        dataPublicacao,
+        tags = [],
+        midias = [],
+        capaId = null
+    } = dados;
+    LoggerService.info(`Iniciando criação de artigo: ${titulo}`);
+
+    const autor = await manager.findOne(User, {
+        where: { nomeUsuario: nomeAutor }
+    });
+
+    if (!autor) {
+        LoggerService.warn(`Autor não encontrado: ${nomeAutor}`);
+        throw new FalhaOperacao(404, "Autor não encontrado");
+    }
+
+    if (req.userPapel === PapelUsuario.AUTOR && autor.id !== req.userId) {
+        LoggerService.warn(`Autor tentou criar artigo em nome de outro usuário: ${nomeAutor}`, { userId: req.userId });
+        throw new FalhaOperacao(403, "Autores só podem criar artigos em seu próprio nome");
+    }
+
+    const categoria = await manager.findOne(Category, {
+        where: { nome: nomeCategoria }
+    });
+
+    if (!categoria) {
+        LoggerService.warn(`Categoria não encontrada: ${nomeCategoria}`);
+        throw new FalhaOperacao(404, "Categoria não encontrada");
+    }
+
+    const vinculos = await carregarMidias(req, manager, midias, capaId);
+
+    const article = new Article();
+    article.titulo = titulo;
+    article.conteudo = conteudo;
+    article.formatoConteudo = formatoConteudo;
+    article.autor = autor;
+    article.categoria = categoria;
+    article.dataPublicacao = dataPublicacao ? new Date(dataPublicacao) : new Date();
+    article.midias = vinculos.midias;
+    article.capa = vinculos.capa;
+    article.capaId = vinculos.capa?.id ?? null;
+    article.tags = await TagService.resolverTags(manager, tags);
+
+    await manager.save(article);
+    await ArticleRevisionService.registrar(manager, article, req.userId ?? null, [...CAMPOS_VERSIONADOS]);
+    await AuditService.registrar(manager, {
+        usuarioId: req.userId,
+        acao: AcaoAuditoria.CRIAR,
+        entidade: Article,
+        entidadeId: article.id,
+        depois: article
+    });
+    return article;
+};
+
+// Devolve null quando os dados informados já correspondem ao artigo
+const atualizarArtigo = async (
+    req: AuthRequest,
+    manager: EntityManager,
+    id: string,
+    dados: Record<string, any>
+): Promise<Article | null> => {
+    LoggerService.info(`Iniciando atualização do artigo: ${id}`);
+    const article = await manager.findOne(Article, {
+        where: { id },
+        relations: ["autor", "categoria", "tags", "midias", "capa"]
+    });
+
+    if (!article) {
+        LoggerService.warn(`Artigo não encontrado para atualização: ${id}`);
+        throw new FalhaOperacao(404, "Artigo não encontrado");
+    }
+
+    if (!(await podeGerenciarArtigo(req, article))) {
+        LoggerService.warn(`Tentativa de atualizar artigo sem permissão: ${id}`, { userId: req.userId });
+        throw new FalhaOperacao(403, "Acesso negado");
+    }
+
+    const { titulo, conteudo, formatoConteudo, nomeCategoria, tags, midias, capaId } = dados;
+    const updateData: Partial<Pick<Article, "titulo" | "conteudo" | "formatoConteudo">> = {};
+    if (titulo !== undefined) updateData.titulo = titulo;
+    if (conteudo !== undefined) updateData.conteudo = conteudo;
+    if (formatoConteudo !== undefined) updateData.formatoConteudo = formatoConteudo;
+
+    let categoria: Category | null = null;
+    if (nomeCategoria !== undefined) {
+        categoria = await manager.findOne(Category, { where: { nome: nomeCategoria } });
+        if (!categoria) {
+            LoggerService.warn(`Categoria não encontrada: ${nomeCategoria}`);
+            throw new FalhaOperacao(404, "Categoria não encontrada");
+        }
+    }
+
+    const camposAlterados = ArticleRevisionService.camposAlterados(article, updateData);
+    const tagsAlteradas = tags !== undefined && !mesmasTags(article.tags, tags);
+    const midiasAlteradas = midias !== undefined && !mesmasMidias(article.midias, midias);
+    const capaAlterada = capaId !== undefined && capaId !== article.capaId;
+    const formatoAlterado = formatoConteudo !== undefined && formatoConteudo !== article.formatoConteudo;
+    const categoriaAlterada = categoria !== null && categoria.id !== article.categoriaId;
+
+    if (camposAlterados.length === 0 && !formatoAlterado && !tagsAlteradas && !midiasAlteradas && !capaAlterada && !categoriaAlterada) {
+        LoggerService.info(`Nenhuma alteração necessária para o artigo: ${id}`);
+        return null;
+    }
+
+    const vinculos = await carregarMidias(
+        req,
+        manager,
+        midiasAlteradas ? midias : [],
+        capaAlterada ? capaId : null,
+        article.midias.map(media => media.id)
+    );
+
+    const antes = AuditService.snapshot(article);
+    if (camposAlterados.length > 0) {
+        await ArticleRevisionService.garantirRevisaoInicial(manager, article);
+    }
+    manager.merge(Article, article, updateData);
+    if (categoriaAlterada) {
+        article.categoria = categoria!;
+        article.categoriaId = categoria!.id;
+    }
+    if (tagsAlteradas) {
+        article.tags = await TagService.resolverTags(manager, tags);
+    }
+    if (midiasAlteradas) {
+        article.midias = vinculos.midias;
+    }
+    if (capaAlterada) {
+        article.capa = vinculos.capa;
+        article.capaId = vinculos.capa?.id ?? null;
+    }
+    await manager.save(article);
+    if (camposAlterados.length > 0) {
+        await ArticleRevisionService.registrar(manager, article, req.userId ?? null, camposAlterados);
+    }
+    await AuditService.registrar(manager, {
+        usuarioId: req.userId,
+        acao: AcaoAuditoria.ATUALIZAR,
+        entidade: Article,
+        entidadeId: article.id,
+        antes,
+        depois: article
+    });
+    return article;
+};
+
+// Move o artigo para a lixeira; mídias e tags continuam vinculadas até a remoção definitiva
+const excluirArtigo = async (req: AuthRequest, manager: EntityManager, id: string): Promise<void> => {
+    LoggerService.info(`Iniciando exclusão do artigo: ${id}`);
+    const article = await manager.findOneBy(Article, { id });
+    if (!article) {
+        LoggerService.warn(`Artigo não encontrado para exclusão: ${id}`);
+        throw new FalhaOperacao(404, "Artigo não encontrado");
+    }
+
+    if (!(await podeGerenciarArtigo(req, article))) {
+        LoggerService.warn(`Tentativa de excluir artigo sem permissão: ${id}`, { userId: req.userId });
+        throw new FalhaOperacao(403, "Acesso negado");
+    }
+
+    const comentarios = await manager.count(Comment, { where: { artigoId: article.id } });
+    if (comentarios > 0) {
+        LoggerService.warn(`Tentativa de excluir artigo com comentários vinculados: ${id}`, { comentarios });
+        throw new FalhaOperacao(400, "Não é possível excluir artigo com comentários vinculados");
+    }
+
+    const antes = AuditService.snapshot(article);
+    await manager.softRemove(article);
+    await AuditService.registrar(manager, {
+        usuarioId: req.userId,
+        acao: AcaoAuditoria.EXCLUIR,
+        entidade: Article,
+        entidadeId: id,
+        antes
+    });
+};
+
+const restaurarArtigo = async (req: AuthRequest, manager: EntityManager, id: string): Promise<Article> => {
+    LoggerService.info(`Iniciando restauração do artigo: ${id}`);
+    const article = await manager.findOne(Article, { where: { id }, withDeleted: true });
+    if (!article) {
+        LoggerService.warn(`Artigo não encontrado para restauração: ${id}`);
+        throw new FalhaOperacao(404, "Artigo não encontrado");
+    }
+
+    if (!(await podeGerenciarArtigo(req, article))) {
+        LoggerService.warn(`Tentativa de restaurar artigo sem permissão: ${id}`, { userId: req.userId });
+        throw new FalhaOperacao(403, "Acesso negado");
+    }
+
+    if (!article.dataExclusao) {
+        throw new FalhaOperacao(409, "Artigo não está na lixeira");
+    }
+
+    const [categoria, autor] = await Promise.all([
+        manager.findOne(Category, { where: { id: article.categoriaId }, withDeleted: true }),
+        manager.findOne(User, { where: { id: article.autorId }, withDeleted: true })
+    ]);
+    if (categoria?.dataExclusao) {
+        LoggerService.warn(`Restauração de artigo bloqueada por categoria na lixeira: ${id}`, { categoriaId: categoria.id });
+        throw new FalhaOperacao(409, `Não é possível restaurar o artigo: a categoria "${categoria.nome}" está na lixeira. Restaure a categoria primeiro`);
+    }
+    if (autor?.dataExclusao) {
+        LoggerService.warn(`Restauração de artigo bloqueada por autor na lixeira: ${id}`, { autorId: autor.id });
+        throw new FalhaOperacao(409, `Não é possível restaurar o artigo: o autor "${autor.nomeUsuario}" está na lixeira. Restaure o usuário primeiro`);
+    }
+
+    const antes = AuditService.snapshot(article);
+    await manager.recover(article);
+    await AuditService.registrar(manager, {
+        usuarioId: req.userId,
+        acao: AcaoAuditoria.RESTAURAR,
+        entidade: Article,
+        entidadeId: id,
+        antes,
+        depois: article
+    });
+    return article;
+};
+
+// Move os artigos de uma categoria (e, opcionalmente, de suas subcategorias) para outra
+const moverArtigos = async (req: AuthRequest, manager: EntityManager, dados: Record<string, any>): Promise<number> => {
+    const { categoriaOrigemId, categoriaDestinoId, incluirSubcategorias = false } = dados;
+    LoggerService.info(`Iniciando movimentação de artigos da categoria ${categoriaOrigemId} para ${categoriaDestinoId}`);
+
+    if (!(await isEditorial(req))) {
+        LoggerService.warn("Tentativa de mover artigos entre categorias sem permissão", { userId: req.userId });
+        throw new FalhaOperacao(403, "Acesso negado");
+    }
+
+    const [origem, destino] = await Promise.all([
+        manager.findOneBy(Category, { id: categoriaOrigemId }),
+        manager.findOneBy(Category, { id: categoriaDestinoId })
+    ]);
+    if (!origem || !destino) {
+        LoggerService.warn("Categoria não encontrada para movimentação de artigos", { categoriaOrigemId, categoriaDestinoId });
+        throw new FalhaOperacao(404, origem ? "Categoria de destino não encontrada" : "Categoria de origem não encontrada");
+    }
+
+    const categorias = incluirSubcategorias ? await CategoryTreeService.idsDaSubarvore(origem.id, manager) : [origem.id];
+    const artigos = await manager.findBy(Article, { categoriaId: In(categorias.filter(id => id !== destino.id)) });
+
+    for (const article of artigos) {
+        const antes = AuditService.snapshot(article);
+        article.categoriaId = destino.id;
+        await manager.save(article);
+        await AuditService.registrar(manager, {
+            usuarioId: req.userId,
+            acao: AcaoAuditoria.ATUALIZAR,
+            entidade: Article,
+            entidadeId: article.id,
+            antes,
+            depois: article
+        });
+    }
+    return artigos.length;
+};
 
 router.post("/",
     [
-        body("titulo")
-            .notEmpty().withMessage("Título é obrigatório")
-            .isLength({ max: 100 }).withMessage("Título deve ter no máximo 100 caracteres"),
-        body("conteudo").notEmpty().withMessage("Conteúdo é obrigatório"),
-        body("nomeAutor").notEmpty().withMessage("Nome do autor é obrigatório"),
-        body("nomeCategoria").notEmpty().withMessage("Nome da categoria é obrigatório"),
-        body("dataPublicacao")
+        permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR, PapelUsuario.AUTOR),
+        ...validarCriacao(),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const article = await AppDataSource.transaction(manager => criarArtigo(req, manager, req.body));
+            LoggerService.info(`Artigo criado com sucesso: ${article.id}`);
+
+            return res.status(201).json(article);
+        } catch (error) {
+            if (error instanceof FalhaOperacao) {
+                return res.status(error.status).json({ erro: error.message });
+            }
+            LoggerService.error("Erro ao criar artigo", error);
+            return res.status(500).json({ erro: "Erro ao criar artigo" });
+        }
+    }
+);
+
+type TipoOperacaoLote = "criar" | "atualizar" | "excluir" | "mover";
+
+const TIPOS_OPERACAO_LOTE: TipoOperacaoLote[] = ["criar", "atualizar", "excluir", "mover"];
+const MAXIMO_OPERACOES_LOTE = 100;
+
+interface OperacaoLote {
+    operacao: TipoOperacaoLote;
+    id?: string;
+    dados?: Record<string, any>;
+    categoriaOrigemId?: string;
+    categoriaDestinoId?: string;
+    incluirSubcategorias?: boolean;
+}
+
+// Cada resultado traz o status e o corpo que a rota individual equivalente responderia
+interface ResultadoOperacaoLote {
+    indice: number;
+    operacao: TipoOperacaoLote;
+    id: string | null;
+    status: number;
+    resposta?: unknown;
+    desfeita?: boolean;
+}
+
+// As mesmas cadeias de validação das rotas individuais, executadas sobre os dados de cada operação
+const validarOperacao = async (operacao: OperacaoLote): Promise<unknown[]> => {
+    const validadores = {
+        criar: () => validarCriacao(),
+        atualizar: () => [param("id").isUUID().withMessage("ID inválido"), ...validarAtualizacao()],
+        excluir: () => [param("id").isUUID().withMessage("ID inválido")],
+        mover: () => validarMovimentacao()
+    }[operacao.operacao]();
+
+    const requisicao = operacao.operacao === "mover"
+        ? { body: operacao }
+        : { body: operacao.dados ?? {}, params: { id: operacao.id } };
+    for (const validador of validadores) {
+        await validador.run(requisicao);
+    }
+    return validationResult(requisicao).array();
+};
+
+const executarOperacao = async (
+    req: AuthRequest,
+    manager: EntityManager,
+    operacao: OperacaoLote,
+    resultado: ResultadoOperacaoLote
+): Promise<void> => {
+    switch (operacao.operacao) {
+        case "criar": {
+            const article = await criarArtigo(req, manager, operacao.dados ?? {});
+            Object.assign(resultado, { id: article.id, status: 201, resposta: article });
+            return;
+        }
+        case "atualizar": {
+            const article = await atualizarArtigo(req, manager, operacao.id!, operacao.dados ?? {});
+            Object.assign(resultado, { status: 200, resposta: article ?? { mensagem: "Não houve alterações" } });
+            return;
+        }
+        case "excluir":
+            await excluirArtigo(req, manager, operacao.id!);
+            resultado.status = 204;
+            return;
+        case "mover":
+            resultado.status = 200;
+            resultado.resposta = { movidos: await moverArtigos(req, manager, operacao) };
+            return;
+    }
+};
+
+router.post("/lote",
+    [
+        permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR, PapelUsuario.AUTOR),
+        body("atomico")
             .optional()
-            .isISO8601().withMessage("Data de publicação deve estar no formato ISO8601"),
+            .isBoolean({ strict: true }).withMessage("atomico deve ser booleano"),
+        body("operacoes")
+            .isArray({ min: 1, max: MAXIMO_OPERACOES_LOTE })
+            .withMessage(`Operações deve ser uma lista com 1 a ${MAXIMO_OPERACOES_LOTE} itens`),
+        body("operacoes.*.operacao")
+            .isIn(TIPOS_OPERACAO_LOTE).withMessage(`Operação deve ser um dos valores: ${TIPOS_OPERACAO_LOTE.join(", ")}`),
+        body("operacoes.*.dados")
+            .optional()
+            .isObject().withMessage("Dados da operação devem ser um objeto"),
         validateRequest
     ],
-    async (req: Request, res: Response) => {
+    async (req: AuthRequest, res: Response) => {
         try {
-            const { titulo, conteudo, nomeAutor, nomeCategoria, dataPublicacao } = req.body;
-            LoggerService.info(`Iniciando criação de artigo: ${titulo}`);
+            const operacoes: OperacaoLote[] = req.body.operacoes;
+            const atomico = req.body.atomico !== false;
+            LoggerService.info(`Iniciando lote de operações em artigos: ${operacoes.length}`, { atomico, userId: req.userId });
 
-            const autor = await userRepository.findOne({
-                where: { nomeUsuario: nomeAutor }
-            });
+            const resultados: ResultadoOperacaoLote[] = [];
+            const validas: number[] = [];
+            for (const [indice, operacao] of operacoes.entries()) {
+                const resultado: ResultadoOperacaoLote = { indice, operacao: operacao.operacao, id: operacao.id ?? null, status: 0 };
+                const errors = await validarOperacao(operacao);
+                if (errors.length > 0) {
+                    Object.assign(resultado, { status: 400, resposta: { errors } });
+                } else {
+                    validas.push(indice);
+                }
+                resultados.push(resultado);
+            }
+
+            const executar = async (manager: EntityManager, indice: number) => {
+                try {
+                    await executarOperacao(req, manager, operacoes[indice], resultados[indice]);
+                } catch (error) {
+                    if (!(error instanceof FalhaOperacao)) {
+                        throw error;
+                    }
+                    Object.assign(resultados[indice], { status: error.status, resposta: { erro: error.message } });
+                }
+            };
+            const falhou = (resultado: ResultadoOperacaoLote) => resultado.status >= 400;
 
-            if (!autor) {
-                LoggerService.warn(`Autor não encontrado: ${nomeAutor}`);
-                return res.status(404).json({ erro: "Autor não encontrado" });
+            let aplicado: boolean;
+            if (atomico) {
+                // Todas rodam na mesma transação, desfeita se alguma falhar; as demais ainda são executadas para o relatório
+                aplicado = await AppDataSource.transaction(async manager => {
+                    for (const indice of validas) {
+                        await executar(manager, indice);
+                    }
+                    if (resultados.some(falhou)) {
+                        throw new FalhaOperacao(400, "Operações do lote desfeitas");
+                    }
+                    return true;
+                }).catch(error => {
+                    if (error instanceof FalhaOperacao) {
+                        return false;
+                    }
+                    throw error;
+                });
+            } else {
+                for (const indice of validas) {
+                    await AppDataSource.transaction(manager => executar(manager, indice)).catch(error => {
+                        LoggerService.error(`Erro ao executar operação ${indice} do lote de artigos`, error);
+                        Object.assign(resultados[indice], { status: 500, resposta: { erro: "Erro ao executar operação" } });
+                    });
+                }
+                aplicado = !resultados.some(falhou);
             }
-        
-            const categoria = await categoryRepository.findOne({
-                where: { nome: nomeCategoria }
-            });
 
-            if (!categoria) {
-                LoggerService.warn(`Categoria não encontrada: ${nomeCategoria}`);
-                return res.status(404).json({ erro: "Categoria não encontrada" });
+            // Num lote atômico desfeito, as operações que tinham dado certo não existem mais: o relatório não pode trazer seus ids
+            if (!aplicado && atomico) {
+                resultados
+                    .filter(resultado => !falhou(resultado))
+                    .forEach(resultado => Object.assign(resultado, {
+                        id: operacoes[resultado.indice].id ?? null,
+                        status: 409,
+                        desfeita: true,
+                        resposta: { erro: "Operação desfeita: outra operação do lote falhou" }
+                    }));
             }
 
-            const article = new Article();
-            article.titulo = titulo;
-            article.conteudo = conteudo;
-            article.autor = autor;
-            article.categoria = categoria;
-            article.dataPublicacao = dataPublicacao ? new Date(dataPublicacao) : new Date();
+            const totais = {
+                sucesso: resultados.filter(resultado => !falhou(resultado)).length,
+                falha: resultados.filter(resultado => falhou(resultado) && !resultado.desfeita).length,
+                desfeitas: resultados.filter(resultado => resultado.desfeita).length
+            };
+            const resposta = { atomico, aplicado, totais, resultados };
 
-            await articleRepository.save(article);
-            LoggerService.info(`Artigo criado com sucesso: ${article.id}`);
+            if (atomico && !aplicado) {
+                LoggerService.warn("Lote de operações em artigos não aplicado", { totais });
+                return res.status(400).json({ erro: "Nenhuma operação foi aplicada: há operações com falha", ...resposta });
+            }
 
-            return res.status(201).json(article);
+            LoggerService.info("Lote de operações em artigos concluído", { atomico, totais });
+            return res.json(resposta);
         } catch (error) {
-            LoggerService.error("Erro ao criar artigo", error);
-            return res.status(500).json({ erro: "Erro ao criar artigo" });
+            LoggerService.error("Erro ao executar lote de operações em artigos", error);
+            return res.status(500).json({ erro: "Erro ao executar lote de operações em artigos" });
         }
     }
 );
 
-router.get("/", async (req: Request, res: Response) => {
-    try {
-        const { categoria_id, autor_id, page = 1, limit = 10 } = req.query;
-        LoggerService.info(`Listando artigos - page: ${page}, limit: ${limit}`, { categoria_id, autor_id });
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["titulo"],
+    filtrosData: ["dataCriacao", "dataPublicacao"],
+    camposOrdenaveis: ["titulo", "status", "dataPublicacao", "dataCriacao"],
+    ordenacaoPadrao: "dataPublicacao:desc",
+    camposSelecionaveis: [
+        "id", "titulo", "resumo", "tempoLeituraMinutos", "formatoConteudo", "autorId", "categoriaId",
+        "dataPublicacao", "status", "dataCriacao", "autor", "categoria", "tags", "capaId", "capa"
+    ]
+};
+
+router.get("/",
+    [
+        query("status")
+            .optional()
+            .isIn(Object.values(StatusArtigo)).withMessage("Status inválido"),
+        query("incluirSubcategorias")
+            .optional()
+            .isBoolean().withMessage("incluirSubcategorias deve ser 'true' ou 'false'"),
+        query("modoTags")
+            .optional()
+            .isIn(["any", "all"]).withMessage("Modo de filtro de tags deve ser 'any' ou 'all'"),
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const { categoria_id, incluirSubcategorias, autor_id, status, tags, modoTags = "any" } = req.query;
+            LoggerService.info("Listando artigos", { filtros: req.query });
 
-        const skip = (Number(page) - 1) * Number(limit);
-        let where: any = {};
+            const where: FindOptionsWhere<Article> = {};
 
-        if (categoria_id) {
-            where.categoriaId = categoria_id;
-        }
-        if (autor_id) {
-            where.autorId = autor_id;
+            if (categoria_id) {
+                where.categoriaId = incluirSubcategorias === "true"
+                    ? In(await CategoryTreeService.idsDaSubarvore(String(categoria_id)))
+                    : String(categoria_id);
+            }
+            if (autor_id) {
+                where.autorId = String(autor_id);
+            }
+            if (tags) {
+                const slugs = String(tags).split(",").map(slugify).filter(slug => slug.length > 0);
+                if (slugs.length > 0) {
+                    where.id = In(await TagService.idsDeArtigosComTags(slugs, modoTags as ModoFiltroTags));
+                }
+            }
+
+            const condicoes = ArticleWorkflowService.condicoesVisiveis(
+                where,
+                req.userId,
+                await isEditorial(req),
+                status as StatusArtigo | undefined
+            );
+
+            // A listagem traz o resumo gravado no lugar do conteúdo completo, disponível em GET /artigos/:id
+            const qb = ArticleContentService.semConteudo(articleRepository.createQueryBuilder("article"))
+                .leftJoinAndSelect("article.autor", "autor")
+                .leftJoinAndSelect("article.categoria", "categoria")
+                .leftJoinAndSelect("article.tags", "tags")
+                .leftJoinAndSelect("article.capa", "capa")
+                .where(new Brackets(sub => {
+                    if (condicoes.length === 0) {
+                        sub.where("1 = 0");
+                    }
+                    condicoes.forEach(condicao => sub.orWhere(condicao));
+                }));
+
+            const resultado = await ListQueryService.listar(qb, OPCOES_LISTAGEM, req.query, article => ArticleContentService.resumido(article));
+
+            LoggerService.info(`Artigos listados com sucesso. Total: ${resultado.total}`);
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao listar artigos", error);
+            return res.status(500).json({ erro: "Erro ao listar artigos" });
         }
+    }
+);
 
-        const [articles, total] = await articleRepository.findAndCount({
-            where,
-            skip,
-            take: Number(limit),
-            relations: ["autor", "categoria"],
-            order: { dataPublicacao: "DESC" }
-        });
+router.get("/busca",
+    [
+        query("q").trim().notEmpty().withMessage("Termo de busca é obrigatório"),
+        query("page").optional().isInt({ min: 1 }).withMessage("Página deve ser um inteiro positivo"),
+        query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limite deve estar entre 1 e 100"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const { q, page = 1, limit = 10 } = req.query;
+            LoggerService.info(`Buscando artigos - q: ${q}, page: ${page}, limit: ${limit}`);
 
-        LoggerService.info(`Artigos listados com sucesso. Total: ${total}`);
-        return res.json({
-            data: articles,
-            total,
-            page: Number(page),
-            lastPage: Math.ceil(total / Number(limit))
-        });
-    } catch (error) {
-        LoggerService.error("Erro ao listar artigos", error);
-        return res.status(500).json({ erro: "Erro ao listar artigos" });
+            const { artigos, total } = await ArticleSearchService.buscar(String(q), {
+                userId: req.userId,
+                editorial: await isEditorial(req),
+                skip: (Number(page) - 1) * Number(limit),
+                take: Number(limit)
+            });
+
+            LoggerService.info(`Busca de artigos concluída. Total: ${total}`);
+            // Mesmo envelope das listagens; a busca pagina apenas por página
+            const resultado: EnvelopeListagem<ArtigoResumido> = {
+                data: artigos.map(article => ArticleContentService.resumido(article)),
+                total,
+                page: Number(page),
+                lastPage: Math.ceil(total / Number(limit)),
+                limit: Number(limit),
+                nextCursor: null
+            };
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao buscar artigos", error);
+            return res.status(500).json({ erro: "Erro ao buscar artigos" });
+        }
     }
-});
+);
 
-router.get("/:id", async (req: Request, res: Response) => {
+router.get("/:id", async (req: AuthRequest, res: Response) => {
     try {
         LoggerService.info(`Buscando artigo: ${req.params.id}`);
         const article = await articleRepository.findOne({
             where: { id: req.params.id },
-            relations: ["autor", "categoria"]
+            relations: ["autor", "categoria", "tags", "midias", "capa"]
         });
-        if (!article) {
+        if (!article || !ArticleWorkflowService.podeVisualizar(article, req.userId, await isEditorial(req))) {
             LoggerService.warn(`Artigo não encontrado: ${req.params.id}`);
             return res.status(404).json({ erro: "Artigo não encontrado" });
         }
         LoggerService.info(`Artigo encontrado: ${req.params.id}`);
-        return res.json(article);
+        return res.json(ArticleContentService.detalhar(article));
     } catch (error) {
         LoggerService.error(`Erro ao buscar artigo: ${req.params.id}`, error);
         return res.status(500).json({ erro: "Erro ao buscar artigo" });
@@ -123,64 +759,254 @@ router.get("/:id", async (req: Request, res: Response) => {
 
 router.put("/:id",
     [
-        body("titulo")
-            .optional()
-            .isLength({ max: 100 }).withMessage("Título deve ter no máximo 100 caracteres"),
-        body("conteudo")
-            .optional()
-            .notEmpty().withMessage("Conteúdo não pode ser vazio"),
+        ...validarAtualizacao(),
         validateRequest
     ],
-    async (req: Request, res: Response) => {
+    async (req: AuthRequest, res: Response) => {
         try {
-            LoggerService.info(`Iniciando atualização do artigo: ${req.params.id}`);
-            const article = await articleRepository.findOne({ 
-                where: { id: req.params.id },
-                relations: ["autor", "categoria"]
-            });
-
+            const article = await AppDataSource.transaction(manager => atualizarArtigo(req, manager, req.params.id, req.body));
             if (!article) {
-                LoggerService.warn(`Artigo não encontrado para atualização: ${req.params.id}`);
-                return res.status(404).json({ erro: "Artigo não encontrado" });
-            }
-
-            const changes = Object.entries(req.body).some(([key, value]) => 
-                article[key as keyof Article] !== value
-            );
-
-            if (!changes) {
-                LoggerService.info(`Nenhuma alteração necessária para o artigo: ${req.params.id}`);
                 return res.status(200).json({ mensagem: "Não houve alterações" });
             }
-
-            articleRepository.merge(article, req.body);
-            await articleRepository.save(article);
             LoggerService.info(`Artigo atualizado com sucesso: ${req.params.id}`);
-            
+
             return res.json(article);
         } catch (error) {
+            if (error instanceof FalhaOperacao) {
+                return res.status(error.status).json({ erro: error.message });
+            }
             LoggerService.error(`Erro ao atualizar artigo: ${req.params.id}`, error);
             return res.status(500).json({ erro: "Erro ao atualizar artigo" });
         }
     }
 );
 
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", async (req: AuthRequest, res: Response) => {
     try {
-        LoggerService.info(`Iniciando exclusão do artigo: ${req.params.id}`);
-        const article = await articleRepository.findOne({ where: { id: req.params.id } });
-        if (!article) {
-            LoggerService.warn(`Artigo não encontrado para exclusão: ${req.params.id}`);
-            return res.status(404).json({ erro: "Artigo não encontrado" });
-        }
+        await AppDataSource.transaction(manager => excluirArtigo(req, manager, req.params.id));
+        LoggerService.info(`Artigo movido para a lixeira: ${req.params.id}`);
 
-        await articleRepository.remove(article);
-        LoggerService.info(`Artigo excluído com sucesso: ${req.params.id}`);
         return res.status(204).send();
     } catch (error) {
+        if (error instanceof FalhaOperacao) {
+            return res.status(error.status).json({ erro: error.message });
+        }
         LoggerService.error(`Erro ao excluir artigo: ${req.params.id}`, error);
         return res.status(500).json({ erro: "Erro ao excluir artigo" });
     }
 });
 
+router.post("/:id/restaurar", async (req: AuthRequest, res: Response) => {
+    try {
+        const article = await AppDataSource.transaction(manager => restaurarArtigo(req, manager, req.params.id));
+        LoggerService.info(`Artigo restaurado da lixeira: ${req.params.id}`);
+
+        return res.json(article);
+    } catch (error) {
+        if (error instanceof FalhaOperacao) {
+            return res.status(error.status).json({ erro: error.message });
+        }
+        LoggerService.error(`Erro ao restaurar artigo: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao restaurar artigo" });
+    }
+});
+
+const transicaoHandler = (acao: AcaoArtigo) => async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando transição '${acao}' do artigo: ${req.params.id}`);
+        const article = await articleRepository.findOne({
+            where: { id: req.params.id },
+            relations: ["autor", "categoria", "tags", "midias", "capa"]
+        });
+
+        if (!article || !ArticleWorkflowService.podeVisualizar(article, req.userId, await isEditorial(req))) {
+            LoggerService.warn(`Artigo não encontrado para transição: ${req.params.id}`);
+            return res.status(404).json({ erro: "Artigo não encontrado" });
+        }
+
+        const permitido = ArticleWorkflowService.TRANSICOES[acao].somenteEditorial
+            ? await isEditorial(req)
+            : await podeGerenciarArtigo(req, article);
+
+        if (!permitido) {
+            LoggerService.warn(`Tentativa de transição '${acao}' sem permissão: ${req.params.id}`, { userId: req.userId });
+            return res.status(403).json({ erro: "Acesso negado" });
+        }
+
+        if (!ArticleWorkflowService.podeTransicionar(acao, article.status)) {
+            LoggerService.warn(`Transição '${acao}' inválida para o status '${article.status}': ${req.params.id}`);
+            return res.status(409).json({
+                erro: `Não é possível executar '${acao}' em um artigo com status '${article.status}'`
+            });
+        }
+
+        const antes = AuditService.snapshot(article);
+        if (acao === "publicar" && req.body.dataPublicacao) {
+            article.dataPublicacao = new Date(req.body.dataPublicacao);
+        }
+
+        const statusAnterior = article.status;
+        article.status = ArticleWorkflowService.proximoStatus(acao, article);
+        await AppDataSource.transaction(async manager => {
+            await manager.save(article);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.ATUALIZAR,
+                entidade: Article,
+                entidadeId: article.id,
+                antes,
+                depois: article
+            });
+        });
+
+        LoggerService.info(`Artigo ${req.params.id} alterado de '${statusAnterior}' para '${article.status}'`);
+        return res.json(article);
+    } catch (error) {
+        LoggerService.error(`Erro ao executar transição '${acao}' do artigo: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao alterar status do artigo" });
+    }
+};
+
+router.post("/:id/enviar-revisao", transicaoHandler("enviar-revisao"));
+router.post("/:id/devolver", transicaoHandler("devolver"));
+router.post("/:id/publicar",
+    [
+        body("dataPublicacao")
+            .optional()
+            .isISO8601().withMessage("Data de publicação deve estar no formato ISO8601"),
+        validateRequest
+    ],
+    transicaoHandler("publicar")
+);
+router.post("/:id/arquivar", transicaoHandler("arquivar"));
+
+const carregarArtigoGerenciavel = async (req: AuthRequest, res: Response): Promise<Article | null> => {
+    const article = await articleRepository.findOne({ where: { id: req.params.id } });
+
+    if (!article) {
+        LoggerService.warn(`Artigo não encontrado: ${req.params.id}`);
+        res.status(404).json({ erro: "Artigo não encontrado" });
+        return null;
+    }
+
+    if (!(await podeGerenciarArtigo(req, article))) {
+        LoggerService.warn(`Tentativa de acessar revisões sem permissão: ${req.params.id}`, { userId: req.userId });
+        res.status(403).json({ erro: "Acesso negado" });
+        return null;
+    }
+
+    return article;
+};
+
+router.get("/:id/revisoes", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Listando revisões do artigo: ${req.params.id}`);
+        const article = await carregarArtigoGerenciavel(req, res);
+        if (!article) return;
+
+        const revisoes = await revisionRepository.find({
+            where: { artigoId: article.id },
+            relations: ["editor"],
+            order: { numero: "DESC" }
+        });
+
+        LoggerService.info(`Revisões listadas com sucesso. Total: ${revisoes.length}`);
+        return res.json(revisoes);
+    } catch (error) {
+        LoggerService.error(`Erro ao listar revisões do artigo: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao listar revisões" });
+    }
+});
+
+router.get("/:id/revisoes/:numero/diff",
+    [
+        param("numero").isInt({ min: 1 }).withMessage("Número da revisão inválido"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Gerando diff da revisão ${req.params.numero} do artigo: ${req.params.id}`);
+            const article = await carregarArtigoGerenciavel(req, res);
+            if (!article) return;
+
+            const revisao = await revisionRepository.findOne({
+                where: { artigoId: article.id, numero: Number(req.params.numero) }
+            });
+
+            if (!revisao) {
+                LoggerService.warn(`Revisão não encontrada: ${req.params.numero}`, { artigoId: article.id });
+                return res.status(404).json({ erro: "Revisão não encontrada" });
+            }
+
+            const titulo = diffLines(revisao.titulo, article.titulo);
+            const conteudo = diffLines(revisao.conteudo, article.conteudo);
+            if (!titulo || !conteudo) {
+                LoggerService.warn(`Diff da revisão ${revisao.numero} excede o limite de linhas`, { artigoId: article.id });
+                return res.status(422).json({
+                    erro: `Diff muito grande: o trecho alterado excede ${MAXIMO_LINHAS_DIFF} linhas`
+                });
+            }
+
+            return res.json({ revisao: revisao.numero, titulo, conteudo });
+        } catch (error) {
+            LoggerService.error(`Erro ao gerar diff da revisão do artigo: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao gerar diff da revisão" });
+        }
+    }
+);
+
+router.post("/:id/revisoes/:numero/restaurar",
+    [
+        param("numero").isInt({ min: 1 }).withMessage("Número da revisão inválido"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Restaurando revisão ${req.params.numero} do artigo: ${req.params.id}`);
+            const article = await carregarArtigoGerenciavel(req, res);
+            if (!article) return;
+
+            const revisao = await revisionRepository.findOne({
+                where: { artigoId: article.id, numero: Number(req.params.numero) }
+            });
+
+            if (!revisao) {
+                LoggerService.warn(`Revisão não encontrada: ${req.params.numero}`, { artigoId: article.id });
+                return res.status(404).json({ erro: "Revisão não encontrada" });
+            }
+
+            const camposAlterados = ArticleRevisionService.camposAlterados(article, revisao);
+
+            if (camposAlterados.length === 0) {
+                LoggerService.info(`Revisão ${revisao.numero} já corresponde ao conteúdo atual: ${req.params.id}`);
+                return res.status(200).json({ mensagem: "Não houve alterações" });
+            }
+
+            const antes = AuditService.snapshot(article);
+            await AppDataSource.transaction(async manager => {
+                article.titulo = revisao.titulo;
+                article.conteudo = revisao.conteudo;
+                await manager.save(article);
+                await ArticleRevisionService.registrar(manager, article, req.userId ?? null, camposAlterados, revisao.numero);
+                await AuditService.registrar(manager, {
+                    usuarioId: req.userId,
+                    acao: AcaoAuditoria.ATUALIZAR,
+                    entidade: Article,
+                    entidadeId: article.id,
+                    antes,
+                    depois: article
+                });
+            });
+
+            LoggerService.info(`Revisão ${revisao.numero} restaurada com sucesso: ${req.params.id}`);
+            return res.json(article);
+        } catch (error) {
+            LoggerService.error(`Erro ao restaurar revisão do artigo: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao restaurar revisão" });
+        }
+    }
+);
+
+router.use("/:id/comentarios", commentRoutes);
+
 export default router;
\ No newline at end of file
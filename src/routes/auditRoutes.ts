@@ -0,0 +1,52 @@
+import { Router, Request, Response } from "express";
+import { query } from "express-validator";
+import { AppDataSource } from "../database/data-source";
+import { AuditLog, AcaoAuditoria } from "../entities/AuditLog";
+import { PapelUsuario } from "../entities/User";
+import { validateRequest } from "../middleware/validateRequest";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+
+const router = Router();
+const auditRepository = AppDataSource.getRepository(AuditLog);
+
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosExatos: ["usuarioId", "acao", "entidade", "entidadeId"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["dataCriacao"],
+    ordenacaoPadrao: "dataCriacao:desc",
+    camposSelecionaveis: [
+        "id", "usuarioId", "acao", "entidade", "entidadeId", "dadosAnteriores", "dadosNovos", "dataCriacao"
+    ]
+};
+
+router.get("/",
+    [
+        permissionMiddleware(PapelUsuario.ADMIN),
+        query("acao")
+            .optional()
+            .isIn(Object.values(AcaoAuditoria)).withMessage("Ação inválida"),
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Listando registros de auditoria", { filtros: req.query });
+
+            const resultado = await ListQueryService.listar(
+                auditRepository.createQueryBuilder("audit"),
+                OPCOES_LISTAGEM,
+                req.query
+            );
+
+            LoggerService.info(`Registros de auditoria listados com sucesso. Total: ${resultado.total}`);
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao listar registros de auditoria", error);
+            return res.status(500).json({ erro: "Erro ao listar registros de auditoria" });
+        }
+    }
+);
+
+export default router;
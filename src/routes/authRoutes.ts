@@ -1,22 +1,53 @@
+import crypto from "crypto";
 import { Router, Request, Response } from "express";
 import { body } from "express-validator";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
 import { AppDataSource } from "../database/data-source";
 import { User } from "../entities/User";
 import { validateRequest } from "../middleware/validateRequest";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
 import { LoggerService } from "../services/LoggerService";
+import { TokenService } from "../services/TokenService";
+import { LoginLockoutService } from "../services/LoginLockoutService";
+import { rateLimitMiddleware } from "../middleware/rateLimitMiddleware";
+import { AccountEmailService } from "../services/AccountEmailService";
+import { config } from "../config/config";
+import { validarSenha } from "../utils/ValidarSenha";
 
 const router = Router();
 const userRepository = AppDataSource.getRepository(User);
 
-const JWT_SECRET = process.env.JWT_SECRET || "sua_chave_secreta_aqui";
+const limitePorIp = rateLimitMiddleware({
+    limitador: "login-ip",
+    maximo: config.rateLimit.login.maximoPorIp,
+    janelaSegundos: config.rateLimit.login.janelaSegundos,
+    chave: req => req.ip
+});
+
+const limitePorConta = rateLimitMiddleware({
+    limitador: LoginLockoutService.LIMITADOR_CONTA,
+    maximo: config.rateLimit.login.maximoPorConta,
+    janelaSegundos: config.rateLimit.login.janelaSegundos,
+    chave: req => String(req.body.email).toLowerCase()
+});
+
+const limiteRecuperacaoPorIp = rateLimitMiddleware({
+    limitador: "recuperacao-ip",
+    maximo: config.rateLimit.login.maximoPorIp,
+    janelaSegundos: config.rateLimit.login.janelaSegundos,
+    chave: req => req.ip
+});
+
+let hashSenhaFicticia: string | null = null;
+const hashFicticio = (): string => hashSenhaFicticia ??= bcrypt.hashSync(crypto.randomUUID(), config.bcryptCusto);
 
 router.post("/login",
     [
+        limitePorIp,
         body("email").isEmail().withMessage("Email inválido"),
         body("senha").notEmpty().withMessage("Senha é obrigatória"),
-        validateRequest
+        validateRequest,
+        limitePorConta
     ],
     async (req: Request, res: Response) => {
         try {
@@ -25,23 +56,34 @@ router.post("/login",
 
             const user = await userRepository.findOne({
                 where: { email },
-                select: ["id", "email", "senha", "nomeCompleto", "nomeUsuario"]
+                select: ["id", "email", "senha", "nomeCompleto", "nomeUsuario", "papel"]
             });
 
+            // Emails não cadastrados e contas bloqueadas recebem a mesma resposta de uma senha incorreta, inclusive no
+            // tempo gasto com o bcrypt, para não revelar quais contas existem
             if (!user) {
                 LoggerService.warn("Tentativa de login com email ou senha inválidos", { email });
+                await bcrypt.compare(senha, hashFicticio());
+                return res.status(401).json({ erro: "Email ou senha inválidos" });
+            }
+
+            const bloqueio = await LoginLockoutService.estado(user.id);
+            const segundosBloqueio = LoginLockoutService.segundosRestantes(bloqueio);
+            if (segundosBloqueio > 0) {
+                LoggerService.warn("Tentativa de login em conta bloqueada", { userId: user.id, segundosBloqueio });
+                await bcrypt.compare(senha, hashFicticio());
                 return res.status(401).json({ erro: "Email ou senha inválidos" });
             }
 
             const senhaValida = await bcrypt.compare(senha, user.senha);
             if (!senhaValida) {
                 LoggerService.warn("Tentativa de login com email ou senha inválidos", { email });
+                await LoginLockoutService.registrarFalha(user.id);
                 return res.status(401).json({ erro: "Email ou senha inválidos" });
             }
 
-            const token = jwt.sign({ id: user.id }, JWT_SECRET, {
-                expiresIn: "1d"
-            });
+            await LoginLockoutService.registrarSucesso(user.id, bloqueio);
+            const tokens = await TokenService.emitirTokens(user.id);
 
             const { senha: _, ...userWithoutPassword } = user;
 
@@ -49,7 +91,7 @@ router.post("/login",
 
             return res.json({
                 user: userWithoutPassword,
-                token
+                ...tokens
             });
         } catch (error) {
             LoggerService.error("Erro ao realizar login", error);
@@ -58,4 +100,122 @@ router.post("/login",
     }
 );
 
+router.post("/refresh",
+    [
+        body("refreshToken").notEmpty().withMessage("Refresh token é obrigatório"),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Tentativa de renovação de token");
+            const tokens = await TokenService.rotacionar(req.body.refreshToken);
+
+            if (!tokens) {
+                return res.status(401).json({ erro: "Refresh token inválido, expirado ou revogado" });
+            }
+
+            LoggerService.info("Token renovado com sucesso");
+            return res.json(tokens);
+        } catch (error) {
+            LoggerService.error("Erro ao renovar token", error);
+            return res.status(500).json({ erro: "Erro ao renovar token" });
+        }
+    }
+);
+
+router.post("/esqueci-senha",
+    [
+        limiteRecuperacaoPorIp,
+        body("email").isEmail().withMessage("Email inválido"),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Solicitação de redefinição de senha");
+            await AccountEmailService.enviarRedefinicaoSenha(req.body.email);
+
+            // A resposta é a mesma para emails cadastrados ou não, para não revelar quais contas existem
+            return res.status(202).json({
+                mensagem: "Se o email estiver cadastrado, você receberá as instruções para redefinir a senha"
+            });
+        } catch (error) {
+            LoggerService.error("Erro ao solicitar redefinição de senha", error);
+            return res.status(500).json({ erro: "Erro ao solicitar redefinição de senha" });
+        }
+    }
+);
+
+router.post("/redefinir-senha",
+    [
+        limiteRecuperacaoPorIp,
+        body("token").notEmpty().withMessage("Token é obrigatório"),
+        validarSenha(body("senha")),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Tentativa de redefinição de senha");
+            if (!(await AccountEmailService.redefinirSenha(String(req.body.token), req.body.senha))) {
+                return res.status(400).json({ erro: "Token inválido, expirado ou já utilizado" });
+            }
+
+            return res.json({ mensagem: "Senha redefinida com sucesso" });
+        } catch (error) {
+            LoggerService.error("Erro ao redefinir senha", error);
+            return res.status(500).json({ erro: "Erro ao redefinir senha" });
+        }
+    }
+);
+
+router.post("/verificar-email",
+    [
+        limiteRecuperacaoPorIp,
+        body("token").notEmpty().withMessage("Token é obrigatório"),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Tentativa de verificação de email");
+            if (!(await AccountEmailService.verificarEmail(String(req.body.token)))) {
+                return res.status(400).json({ erro: "Token inválido, expirado ou já utilizado" });
+            }
+
+            return res.json({ mensagem: "Email verificado com sucesso" });
+        } catch (error) {
+            LoggerService.error("Erro ao verificar email", error);
+            return res.status(500).json({ erro: "Erro ao verificar email" });
+        }
+    }
+);
+
+router.post("/reenviar-verificacao", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Reenvio de email de verificação solicitado", { userId: req.userId });
+        const user = await userRepository.findOneBy({ id: req.userId });
+        if (!user) {
+            return res.status(404).json({ erro: "Usuário não encontrado" });
+        }
+        if (user.emailVerificado) {
+            return res.status(400).json({ erro: "Email já verificado" });
+        }
+
+        await AccountEmailService.enviarVerificacao(user);
+        return res.status(202).json({ mensagem: "Email de verificação enviado" });
+    } catch (error) {
+        LoggerService.error("Erro ao reenviar email de verificação", error);
+        return res.status(500).json({ erro: "Erro ao reenviar email de verificação" });
+    }
+});
+
+router.post("/logout", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+        await TokenService.revogarPorId(req.refreshTokenId!);
+        LoggerService.info("Logout realizado com sucesso", { userId: req.userId });
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error("Erro ao realizar logout", error);
+        return res.status(500).json({ erro: "Erro ao realizar logout" });
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -2,8 +2,15 @@ import { Router, Request, Response } from "express";
 import { body } from "express-validator";
 import { AppDataSource } from "../database/data-source";
 import { Category } from "../entities/Category";
+import { PapelUsuario } from "../entities/User";
 import { validateRequest } from "../middleware/validateRequest";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../middleware/authMiddleware";
 import { LoggerService } from "../services/LoggerService";
+import { CategoryTreeService } from "../services/CategoryTreeService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { AuditService } from "../services/AuditService";
+import { AcaoAuditoria } from "../entities/AuditLog";
 
 const router = Router();
 const categoryRepository = AppDataSource.getRepository(Category);
@@ -11,30 +18,53 @@ const categoryRepository = AppDataSource.getRepository(Category);
 interface CreateCategoryRequest {
     nome: string;
     descricao?: string;
+    categoriaPaiId?: string | null;
 }
 
 interface UpdateCategoryRequest {
     descricao: string;
+    categoriaPaiId?: string | null;
 }
 
 router.post("/",
     [
+        permissionMiddleware(PapelUsuario.ADMIN),
         body("nome").notEmpty().withMessage("Nome é obrigatório"),
+        body("categoriaPaiId")
+            .optional({ values: "null" })
+            .isUUID().withMessage("Categoria pai inválida"),
         validateRequest
     ],
     async (req: Request<{}, {}, CreateCategoryRequest>, res: Response) => {
         try {
-            const { nome, descricao } = req.body;
+            const { nome, descricao, categoriaPaiId } = req.body;
             LoggerService.info(`Iniciando criação de categoria: ${nome}`);
 
-            const existingCategory = await categoryRepository.findOne({ where: { nome } });
+            // Categorias na lixeira continuam reservando o nome até serem removidas definitivamente
+            const existingCategory = await categoryRepository.findOne({ where: { nome }, withDeleted: true });
             if (existingCategory) {
                 LoggerService.warn(`Tentativa de criar categoria com nome duplicado: ${nome}`);
-                return res.status(400).json({ erro: "Nome de categoria já existe" });
+                return res.status(400).json({
+                    erro: existingCategory.dataExclusao ? "Nome de categoria já existe na lixeira" : "Nome de categoria já existe"
+                });
             }
 
-            const category = categoryRepository.create({ nome, descricao });
-            await categoryRepository.save(category);
+            if (categoriaPaiId && !(await categoryRepository.findOne({ where: { id: categoriaPaiId } }))) {
+                LoggerService.warn(`Categoria pai não encontrada: ${categoriaPaiId}`);
+                return res.status(404).json({ erro: "Categoria pai não encontrada" });
+            }
+
+            const category = categoryRepository.create({ nome, descricao, categoriaPaiId: categoriaPaiId ?? null });
+            await AppDataSource.transaction(async manager => {
+                await manager.save(category);
+                await AuditService.registrar(manager, {
+                    usuarioId: (req as AuthRequest).userId,
+                    acao: AcaoAuditoria.CRIAR,
+                    entidade: Category,
+                    entidadeId: category.id,
+                    depois: category
+                });
+            });
             
             LoggerService.info(`Categoria criada com sucesso: ${category.id}`);
             return res.status(201).json(category);
@@ -45,22 +75,48 @@ router.post("/",
     }
 );
 
-router.get("/", async (req: Request<{}, {}, {}, { nome?: string }>, res: Response) => {
-    try {
-        const { nome } = req.query;
-        LoggerService.info("Listando categorias", nome ? { filtroNome: nome } : undefined);
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["nome", "descricao"],
+    filtrosExatos: ["categoriaPaiId"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["nome", "dataCriacao"],
+    ordenacaoPadrao: "nome:asc",
+    camposSelecionaveis: ["id", "nome", "descricao", "categoriaPaiId", "dataCriacao"]
+};
+
+router.get("/",
+    [
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Listando categorias", { filtros: req.query });
+
+            const resultado = await ListQueryService.listar(
+                categoryRepository.createQueryBuilder("category"),
+                OPCOES_LISTAGEM,
+                req.query
+            );
 
-        let where = {};
-        if (nome) {
-            where = { nome: nome };
+            LoggerService.info(`Categorias listadas com sucesso. Total: ${resultado.total}`);
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao listar categorias", error);
+            return res.status(500).json({ erro: "Erro ao listar categorias" });
         }
+    }
+);
 
-        const categories = await categoryRepository.find({ where });
-        LoggerService.info(`Categorias listadas com sucesso. Total: ${categories.length}`);
-        return res.json(categories);
+router.get("/arvore", async (_req: Request, res: Response) => {
+    try {
+        LoggerService.info("Montando árvore de categorias");
+        const arvore = await CategoryTreeService.montarArvore();
+        LoggerService.info(`Árvore de categorias montada com sucesso. Raízes: ${arvore.length}`);
+        return res.json(arvore);
     } catch (error) {
-        LoggerService.error("Erro ao listar categorias", error);
-        return res.status(500).json({ erro: "Erro ao listar categorias" });
+        LoggerService.error("Erro ao montar árvore de categorias", error);
+        return res.status(500).json({ erro: "Erro ao montar árvore de categorias" });
     }
 });
 
@@ -82,7 +138,11 @@ router.get("/:id", async (req: Request<{ id: string }>, res: Response) => {
 
 router.put("/:id",
     [
+        permissionMiddleware(PapelUsuario.ADMIN),
         body("descricao").optional().notEmpty().withMessage("Descrição não pode ser vazia"),
+        body("categoriaPaiId")
+            .optional({ values: "null" })
+            .isUUID().withMessage("Categoria pai inválida"),
         validateRequest
     ],
     async (req: Request<{ id: string }, {}, UpdateCategoryRequest>, res: Response) => {
@@ -94,8 +154,35 @@ router.put("/:id",
                 return res.status(404).json({ erro: "Categoria não encontrada" });
             }
 
+            const antes = AuditService.snapshot(category);
+            const { categoriaPaiId } = req.body;
+            if (categoriaPaiId !== undefined) {
+                if (categoriaPaiId) {
+                    if (!(await categoryRepository.findOne({ where: { id: categoriaPaiId } }))) {
+                        LoggerService.warn(`Categoria pai não encontrada: ${categoriaPaiId}`);
+                        return res.status(404).json({ erro: "Categoria pai não encontrada" });
+                    }
+
+                    if (await CategoryTreeService.criariaCiclo(category.id, categoriaPaiId)) {
+                        LoggerService.warn(`Tentativa de criar ciclo na hierarquia de categorias: ${req.params.id}`, { categoriaPaiId });
+                        return res.status(400).json({ erro: "Categoria pai não pode ser a própria categoria nem uma de suas subcategorias" });
+                    }
+                }
+                category.categoriaPaiId = categoriaPaiId;
+            }
+
             categoryRepository.merge(category, { descricao: req.body.descricao });
-            await categoryRepository.save(category);
+            await AppDataSource.transaction(async manager => {
+                await manager.save(category);
+                await AuditService.registrar(manager, {
+                    usuarioId: (req as AuthRequest).userId,
+                    acao: AcaoAuditoria.ATUALIZAR,
+                    entidade: Category,
+                    entidadeId: category.id,
+                    antes,
+                    depois: category
+                });
+            });
             
             LoggerService.info(`Categoria atualizada com sucesso: ${req.params.id}`);
             return res.json(category);
@@ -106,12 +193,12 @@ router.put("/:id",
     }
 );
 
-router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
+router.delete("/:id", permissionMiddleware(PapelUsuario.ADMIN), async (req: AuthRequest, res: Response) => {
     try {
         LoggerService.info(`Iniciando exclusão da categoria: ${req.params.id}`);
         const category = await categoryRepository.findOne({
             where: { id: req.params.id },
-            relations: ["artigos"]
+            relations: ["artigos", "subcategorias"]
         });
 
         if (!category) {
@@ -124,8 +211,23 @@ router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
             return res.status(400).json({ erro: "Não é possível excluir categoria com artigos vinculados" });
         }
 
-        await categoryRepository.remove(category);
-        LoggerService.info(`Categoria excluída com sucesso: ${req.params.id}`);
+        if (category.subcategorias && category.subcategorias.length > 0) {
+            LoggerService.warn(`Tentativa de excluir categoria com subcategorias vinculadas: ${req.params.id}`);
+            return res.status(400).json({ erro: "Não é possível excluir categoria com subcategorias vinculadas" });
+        }
+
+        const antes = AuditService.snapshot(category);
+        await AppDataSource.transaction(async manager => {
+            await manager.softRemove(category);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.EXCLUIR,
+                entidade: Category,
+                entidadeId: req.params.id,
+                antes
+            });
+        });
+        LoggerService.info(`Categoria movida para a lixeira: ${req.params.id}`);
         return res.status(204).send();
     } catch (error) {
         LoggerService.error(`Erro ao excluir categoria: ${req.params.id}`, error);
@@ -133,4 +235,48 @@ router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
     }
 });
 
+router.post("/:id/restaurar", permissionMiddleware(PapelUsuario.ADMIN), async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando restauração da categoria: ${req.params.id}`);
+        const category = await categoryRepository.findOne({ where: { id: req.params.id }, withDeleted: true });
+
+        if (!category) {
+            LoggerService.warn(`Categoria não encontrada para restauração: ${req.params.id}`);
+            return res.status(404).json({ erro: "Categoria não encontrada" });
+        }
+
+        if (!category.dataExclusao) {
+            return res.status(409).json({ erro: "Categoria não está na lixeira" });
+        }
+
+        if (category.categoriaPaiId) {
+            const categoriaPai = await categoryRepository.findOne({ where: { id: category.categoriaPaiId }, withDeleted: true });
+            if (categoriaPai?.dataExclusao) {
+                LoggerService.warn(`Restauração de categoria bloqueada por categoria pai na lixeira: ${req.params.id}`);
+                return res.status(409).json({
+                    erro: `Não é possível restaurar a categoria: a categoria pai "${categoriaPai.nome}" está na lixeira. Restaure-a primeiro`
+                });
+            }
+        }
+
+        const antes = AuditService.snapshot(category);
+        await AppDataSource.transaction(async manager => {
+            await manager.recover(category);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.RESTAURAR,
+                entidade: Category,
+                entidadeId: category.id,
+                antes,
+                depois: category
+            });
+        });
+        LoggerService.info(`Categoria restaurada da lixeira: ${req.params.id}`);
+        return res.json(category);
+    } catch (error) {
+        LoggerService.error(`Erro ao restaurar categoria: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao restaurar categoria" });
+    }
+});
+
 export default router;
\ No newline at end of file
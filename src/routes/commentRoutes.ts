@@ -0,0 +1,283 @@
+import { Router, Response } from "express";
+import { body, query } from "express-validator";
+import { FindOptionsWhere } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Article } from "../entities/Article";
+import { Comment, StatusComentario } from "../entities/Comment";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { isEditorial } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { ArticleWorkflowService } from "../services/ArticleWorkflowService";
+import { AuditService } from "../services/AuditService";
+import { AcaoAuditoria } from "../entities/AuditLog";
+
+const router = Router({ mergeParams: true });
+const articleRepository = AppDataSource.getRepository(Article);
+const commentRepository = AppDataSource.getRepository(Comment);
+
+type AcaoModeracao = "aprovar" | "rejeitar" | "ocultar";
+
+const MODERACAO: Record<AcaoModeracao, { de: StatusComentario[]; para: StatusComentario }> = {
+    aprovar: {
+        de: [StatusComentario.PENDENTE, StatusComentario.REJEITADO, StatusComentario.OCULTO],
+        para: StatusComentario.APROVADO
+    },
+    rejeitar: { de: [StatusComentario.PENDENTE], para: StatusComentario.REJEITADO },
+    ocultar: { de: [StatusComentario.APROVADO], para: StatusComentario.OCULTO }
+};
+
+const carregarArtigoVisivel = async (req: AuthRequest, res: Response): Promise<Article | null> => {
+    const article = await articleRepository.findOne({ where: { id: req.params.id } });
+
+    if (!article || !ArticleWorkflowService.podeVisualizar(article, req.userId, await isEditorial(req))) {
+        LoggerService.warn(`Artigo não encontrado para comentários: ${req.params.id}`);
+        res.status(404).json({ erro: "Artigo não encontrado" });
+        return null;
+    }
+
+    return article;
+};
+
+const carregarComentario = async (req: AuthRequest, res: Response): Promise<Comment | null> => {
+    const article = await carregarArtigoVisivel(req, res);
+    if (!article) return null;
+
+    const comment = await commentRepository.findOne({
+        where: { id: req.params.comentarioId, artigoId: article.id }
+    });
+
+    if (!comment) {
+        LoggerService.warn(`Comentário não encontrado: ${req.params.comentarioId}`, { artigoId: article.id });
+        res.status(404).json({ erro: "Comentário não encontrado" });
+        return null;
+    }
+
+    return comment;
+};
+
+router.post("/",
+    [
+        body("conteudo")
+            .notEmpty().withMessage("Conteúdo é obrigatório")
+            .isLength({ max: 2000 }).withMessage("Comentário deve ter no máximo 2000 caracteres"),
+        body("comentarioPaiId")
+            .optional()
+            .isUUID().withMessage("Comentário pai inválido"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Iniciando criação de comentário no artigo: ${req.params.id}`, { userId: req.userId });
+            const article = await carregarArtigoVisivel(req, res);
+            if (!article) return;
+
+            const { conteudo, comentarioPaiId } = req.body;
+
+            if (comentarioPaiId) {
+                const pai = await commentRepository.findOne({ where: { id: comentarioPaiId, artigoId: article.id } });
+                if (!pai) {
+                    LoggerService.warn(`Comentário pai não encontrado: ${comentarioPaiId}`, { artigoId: article.id });
+                    return res.status(404).json({ erro: "Comentário pai não encontrado" });
+                }
+            }
+
+            const comment = commentRepository.create({
+                conteudo,
+                artigoId: article.id,
+                autorId: req.userId,
+                comentarioPaiId: comentarioPaiId ?? null,
+                status: await isEditorial(req) ? StatusComentario.APROVADO : StatusComentario.PENDENTE
+            });
+            await AppDataSource.transaction(async manager => {
+                await manager.save(comment);
+                await AuditService.registrar(manager, {
+                    usuarioId: req.userId,
+                    acao: AcaoAuditoria.CRIAR,
+                    entidade: Comment,
+                    entidadeId: comment.id,
+                    depois: comment
+                });
+            });
+
+            LoggerService.info(`Comentário criado com sucesso: ${comment.id}`, { status: comment.status });
+            return res.status(201).json(comment);
+        } catch (error) {
+            LoggerService.error("Erro ao criar comentário", error);
+            return res.status(500).json({ erro: "Erro ao criar comentário" });
+        }
+    }
+);
+
+router.get("/",
+    [
+        query("status")
+            .optional()
+            .isIn(Object.values(StatusComentario)).withMessage("Status inválido"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Listando comentários do artigo: ${req.params.id}`);
+            const article = await carregarArtigoVisivel(req, res);
+            if (!article) return;
+
+            const status = req.query.status as StatusComentario | undefined;
+            const base: FindOptionsWhere<Comment> = { artigoId: article.id };
+            let where: FindOptionsWhere<Comment>[];
+
+            if (await isEditorial(req)) {
+                where = [status ? { ...base, status } : base];
+            } else {
+                where = [{ ...base, autorId: req.userId, ...(status ? { status } : {}) }];
+                if (!status || status === StatusComentario.APROVADO) {
+                    where.push({ ...base, status: StatusComentario.APROVADO });
+                }
+            }
+
+            const comments = await commentRepository.find({
+                where,
+                relations: ["autor"],
+                order: { dataCriacao: "ASC" }
+            });
+
+            LoggerService.info(`Comentários listados com sucesso. Total: ${comments.length}`);
+            return res.json(comments);
+        } catch (error) {
+            LoggerService.error(`Erro ao listar comentários do artigo: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao listar comentários" });
+        }
+    }
+);
+
+router.put("/:comentarioId",
+    [
+        body("conteudo")
+            .notEmpty().withMessage("Conteúdo é obrigatório")
+            .isLength({ max: 2000 }).withMessage("Comentário deve ter no máximo 2000 caracteres"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Iniciando atualização do comentário: ${req.params.comentarioId}`);
+            const comment = await carregarComentario(req, res);
+            if (!comment) return;
+
+            if (comment.autorId !== req.userId) {
+                LoggerService.warn(`Tentativa de editar comentário de outro usuário: ${comment.id}`, { userId: req.userId });
+                return res.status(403).json({ erro: "Apenas o autor pode editar o comentário" });
+            }
+
+            if (comment.conteudo === req.body.conteudo) {
+                LoggerService.info(`Nenhuma alteração necessária para o comentário: ${comment.id}`);
+                return res.status(200).json({ mensagem: "Não houve alterações" });
+            }
+
+            const antes = AuditService.snapshot(comment);
+            comment.conteudo = req.body.conteudo;
+            if (!(await isEditorial(req))) {
+                comment.status = StatusComentario.PENDENTE;
+            }
+            await AppDataSource.transaction(async manager => {
+                await manager.save(comment);
+                await AuditService.registrar(manager, {
+                    usuarioId: req.userId,
+                    acao: AcaoAuditoria.ATUALIZAR,
+                    entidade: Comment,
+                    entidadeId: comment.id,
+                    antes,
+                    depois: comment
+                });
+            });
+
+            LoggerService.info(`Comentário atualizado com sucesso: ${comment.id}`, { status: comment.status });
+            return res.json(comment);
+        } catch (error) {
+            LoggerService.error(`Erro ao atualizar comentário: ${req.params.comentarioId}`, error);
+            return res.status(500).json({ erro: "Erro ao atualizar comentário" });
+        }
+    }
+);
+
+router.delete("/:comentarioId", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando exclusão do comentário: ${req.params.comentarioId}`);
+        const comment = await carregarComentario(req, res);
+        if (!comment) return;
+
+        if (comment.autorId !== req.userId && !(await isEditorial(req))) {
+            LoggerService.warn(`Tentativa de excluir comentário sem permissão: ${comment.id}`, { userId: req.userId });
+            return res.status(403).json({ erro: "Acesso negado" });
+        }
+
+        const respostas = await commentRepository.count({ where: { comentarioPaiId: comment.id } });
+        if (respostas > 0) {
+            LoggerService.warn(`Tentativa de excluir comentário com respostas vinculadas: ${comment.id}`, { respostas });
+            return res.status(400).json({ erro: "Não é possível excluir comentário com respostas vinculadas" });
+        }
+
+        const antes = AuditService.snapshot(comment);
+        await AppDataSource.transaction(async manager => {
+            await manager.remove(comment);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.EXCLUIR,
+                entidade: Comment,
+                entidadeId: req.params.comentarioId,
+                antes
+            });
+        });
+        LoggerService.info(`Comentário excluído com sucesso: ${req.params.comentarioId}`);
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error(`Erro ao excluir comentário: ${req.params.comentarioId}`, error);
+        return res.status(500).json({ erro: "Erro ao excluir comentário" });
+    }
+});
+
+const moderacaoHandler = (acao: AcaoModeracao) => async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando moderação '${acao}' do comentário: ${req.params.comentarioId}`);
+
+        if (!(await isEditorial(req))) {
+            LoggerService.warn(`Tentativa de moderar comentário sem permissão: ${req.params.comentarioId}`, { userId: req.userId });
+            return res.status(403).json({ erro: "Acesso negado" });
+        }
+
+        const comment = await carregarComentario(req, res);
+        if (!comment) return;
+
+        if (!MODERACAO[acao].de.includes(comment.status)) {
+            LoggerService.warn(`Moderação '${acao}' inválida para o status '${comment.status}': ${comment.id}`);
+            return res.status(409).json({
+                erro: `Não é possível executar '${acao}' em um comentário com status '${comment.status}'`
+            });
+        }
+
+        const antes = AuditService.snapshot(comment);
+        comment.status = MODERACAO[acao].para;
+        await AppDataSource.transaction(async manager => {
+            await manager.save(comment);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.ATUALIZAR,
+                entidade: Comment,
+                entidadeId: comment.id,
+                antes,
+                depois: comment
+            });
+        });
+
+        LoggerService.info(`Comentário ${comment.id} moderado com sucesso`, { acao, status: comment.status });
+        return res.json(comment);
+    } catch (error) {
+        LoggerService.error(`Erro ao moderar comentário: ${req.params.comentarioId}`, error);
+        return res.status(500).json({ erro: "Erro ao moderar comentário" });
+    }
+};
+
+router.post("/:comentarioId/aprovar", moderacaoHandler("aprovar"));
+router.post("/:comentarioId/rejeitar", moderacaoHandler("rejeitar"));
+router.post("/:comentarioId/ocultar", moderacaoHandler("ocultar"));
+
+export default router;
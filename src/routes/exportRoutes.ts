@@ -0,0 +1,66 @@
+import { Router, Response } from "express";
+import { query } from "express-validator";
+import { PapelUsuario } from "../entities/User";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import {
+    ContentTransferService,
+    EntidadeTransferencia,
+    FormatoTransferencia,
+    ENTIDADES_TRANSFERENCIA,
+    FORMATOS_TRANSFERENCIA
+} from "../services/ContentTransferService";
+
+const router = Router();
+
+router.use(permissionMiddleware(PapelUsuario.ADMIN));
+
+const entidadesDe = (valor: unknown): string[] => typeof valor === "string"
+    ? valor.split(",").map(entidade => entidade.trim()).filter(entidade => entidade.length > 0)
+    : [...ENTIDADES_TRANSFERENCIA];
+
+router.get("/",
+    [
+        query("formato")
+            .optional()
+            .isIn(FORMATOS_TRANSFERENCIA).withMessage(`Formato deve ser um dos valores: ${FORMATOS_TRANSFERENCIA.join(", ")}`),
+        query("entidades")
+            .optional()
+            .custom(valor => {
+                const entidades = entidadesDe(valor);
+                return entidades.length > 0 && entidades.every(entidade => ENTIDADES_TRANSFERENCIA.includes(entidade as EntidadeTransferencia));
+            })
+            .withMessage(`Entidades deve ser uma lista separada por vírgulas com os valores: ${ENTIDADES_TRANSFERENCIA.join(", ")}`),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const formato = (req.query.formato as FormatoTransferencia | undefined) ?? "json";
+            const solicitadas = entidadesDe(req.query.entidades);
+            // Mantém a ordem de importação, independentemente da ordem informada
+            const entidades = ENTIDADES_TRANSFERENCIA.filter(entidade => solicitadas.includes(entidade));
+            LoggerService.info("Exportação de conteúdo solicitada", { formato, entidades, userId: req.userId });
+
+            const dados = await ContentTransferService.exportar(entidades);
+            const arquivo = `exportacao-${new Date().toISOString().replace(/[:.]/g, "-")}.${formato}`;
+
+            LoggerService.info("Exportação de conteúdo concluída", {
+                usuarios: dados.usuarios.length,
+                categorias: dados.categorias.length,
+                artigos: dados.artigos.length
+            });
+            res.set({
+                "Content-Type": `${ContentTransferService.TIPOS_CONTEUDO[formato]}; charset=utf-8`,
+                "Content-Disposition": `attachment; filename="${arquivo}"`
+            });
+            return res.send(ContentTransferService.serializar(dados, entidades, formato));
+        } catch (error) {
+            LoggerService.error("Erro ao exportar conteúdo", error);
+            return res.status(500).json({ erro: "Erro ao exportar conteúdo" });
+        }
+    }
+);
+
+export default router;
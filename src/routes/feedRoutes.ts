@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { Router, Request, Response } from "express";
+import { AppDataSource } from "../database/data-source";
+import { Category } from "../entities/Category";
+import { User } from "../entities/User";
+import { LoggerService } from "../services/LoggerService";
+import { CategoryTreeService } from "../services/CategoryTreeService";
+import { FeedService, FiltroFeed, CanalFeed } from "../services/FeedService";
+import { config } from "../config/config";
+
+const router = Router();
+
+type FormatoFeed = "rss" | "atom";
+
+const TIPOS_CONTEUDO: Record<FormatoFeed | "sitemap", string> = {
+    rss: "application/rss+xml; charset=utf-8",
+    atom: "application/atom+xml; charset=utf-8",
+    sitemap: "application/xml; charset=utf-8"
+};
+
+// Sem URL_PUBLICA configurada (permitido apenas fora de produção), os links usam o endereço pelo qual o feed foi
+// acessado; como o header Host é controlado pelo cliente, essas respostas não podem ser guardadas em caches compartilhados
+const urlBase = (req: Request): string => config.urlPublica ?? `${req.protocol}://${req.get("host")}`;
+const CACHE_CONTROL = config.urlPublica ? "public, max-age=300" : "private, max-age=300";
+
+const formatoDe = (req: Request): FormatoFeed => req.path.endsWith(".atom") ? "atom" : "rss";
+
+const hashXml = (xml: string): string => crypto.createHash("sha1").update(xml).digest("hex");
+
+// O XML só é gerado quando a requisição condicional não puder ser respondida com 304
+const enviarXml = (
+    req: Request,
+    res: Response,
+    tipo: keyof typeof TIPOS_CONTEUDO,
+    ultimaModificacao: Date | null,
+    etag: string,
+    gerarXml: () => string
+) => {
+    res.set({
+        "Content-Type": TIPOS_CONTEUDO[tipo],
+        "Cache-Control": CACHE_CONTROL,
+        "ETag": `"${etag}"`
+    });
+    if (ultimaModificacao) {
+        res.set("Last-Modified", ultimaModificacao.toUTCString());
+    }
+    if (req.fresh) {
+        return res.status(304).end();
+    }
+    return res.send(gerarXml());
+};
+
+const enviarFeed = async (req: Request, res: Response, canal: Omit<CanalFeed, "linkFeed">, filtro: FiltroFeed) => {
+    const base = urlBase(req);
+    const formato = formatoDe(req);
+    const artigos = await FeedService.publicados(filtro, FeedService.LIMITE_ITENS);
+    const completo: CanalFeed = { ...canal, linkFeed: `${base}${req.path}` };
+
+    const xml = formato === "atom"
+        ? FeedService.atom(completo, base, artigos)
+        : FeedService.rss(completo, base, artigos);
+    return enviarXml(req, res, formato, artigos.ultimaModificacao, hashXml(xml), () => xml);
+};
+
+router.get(["/feed.xml", "/feed.atom"], async (req: Request, res: Response) => {
+    try {
+        LoggerService.info("Gerando feed de artigos", { formato: formatoDe(req) });
+        return await enviarFeed(req, res, {
+            titulo: FeedService.NOME_SITE,
+            descricao: "Artigos publicados mais recentes",
+            link: urlBase(req)
+        }, {});
+    } catch (error) {
+        LoggerService.error("Erro ao gerar feed de artigos", error);
+        return res.status(500).json({ erro: "Erro ao gerar feed de artigos" });
+    }
+});
+
+// Inclui os artigos das subcategorias
+router.get(["/categorias/:id/feed.xml", "/categorias/:id/feed.atom"], async (req: Request, res: Response) => {
+    try {
+        LoggerService.info(`Gerando feed da categoria: ${req.params.id}`, { formato: formatoDe(req) });
+        const category = await AppDataSource.getRepository(Category).findOneBy({ id: req.params.id });
+        if (!category) {
+            LoggerService.warn(`Categoria não encontrada para feed: ${req.params.id}`);
+            return res.status(404).json({ erro: "Categoria não encontrada" });
+        }
+
+        return await enviarFeed(req, res, {
+            titulo: `${FeedService.NOME_SITE} - ${category.nome}`,
+            descricao: category.descricao || `Artigos publicados na categoria ${category.nome}`,
+            link: `${urlBase(req)}/categorias/${category.id}`
+        }, { categoriaIds: await CategoryTreeService.idsDaSubarvore(category.id) });
+    } catch (error) {
+        LoggerService.error(`Erro ao gerar feed da categoria: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao gerar feed da categoria" });
+    }
+});
+
+router.get(["/autores/:id/feed.xml", "/autores/:id/feed.atom"], async (req: Request, res: Response) => {
+    try {
+        LoggerService.info(`Gerando feed do autor: ${req.params.id}`, { formato: formatoDe(req) });
+        const user = await AppDataSource.getRepository(User).findOneBy({ id: req.params.id });
+        if (!user) {
+            LoggerService.warn(`Autor não encontrado para feed: ${req.params.id}`);
+            return res.status(404).json({ erro: "Autor não encontrado" });
+        }
+
+        return await enviarFeed(req, res, {
+            titulo: `${FeedService.NOME_SITE} - ${user.nomeCompleto}`,
+            descricao: `Artigos publicados por ${user.nomeCompleto}`,
+            link: `${urlBase(req)}/usuarios/${user.id}`
+        }, { autorId: user.id });
+    } catch (error) {
+        LoggerService.error(`Erro ao gerar feed do autor: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao gerar feed do autor" });
+    }
+});
+
+router.get("/sitemap.xml", async (req: Request, res: Response) => {
+    try {
+        LoggerService.info("Gerando sitemap");
+        const base = urlBase(req);
+        const artigos = await FeedService.publicadosSitemap();
+        return enviarXml(
+            req,
+            res,
+            "sitemap",
+            artigos.ultimaModificacao,
+            FeedService.etagSitemap(base, artigos),
+            () => FeedService.sitemap(base, artigos)
+        );
+    } catch (error) {
+        LoggerService.error("Erro ao gerar sitemap", error);
+        return res.status(500).json({ erro: "Erro ao gerar sitemap" });
+    }
+});
+
+export default router;
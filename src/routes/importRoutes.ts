@@ -0,0 +1,90 @@
+import { Router, Response } from "express";
+import { query } from "express-validator";
+import { PapelUsuario } from "../entities/User";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import {
+    ContentTransferService,
+    FormatoTransferencia,
+    RegistroImportacao,
+    FORMATOS_TRANSFERENCIA
+} from "../services/ContentTransferService";
+
+const router = Router();
+
+router.use(permissionMiddleware(PapelUsuario.ADMIN));
+
+// Sem o parâmetro formato, ele é deduzido do Content-Type da requisição
+const formatoDe = (req: AuthRequest): FormatoTransferencia | null => {
+    if (req.query.formato) {
+        return req.query.formato as FormatoTransferencia;
+    }
+    if (req.is("application/x-ndjson")) {
+        return "ndjson";
+    }
+    if (req.is("text/csv")) {
+        return "csv";
+    }
+    if (req.is("application/json")) {
+        return "json";
+    }
+    return null;
+};
+
+router.post("/",
+    [
+        query("formato")
+            .optional()
+            .isIn(FORMATOS_TRANSFERENCIA).withMessage(`Formato deve ser um dos valores: ${FORMATOS_TRANSFERENCIA.join(", ")}`),
+        query("simulacao")
+            .optional()
+            .isIn(["true", "false"]).withMessage("simulacao deve ser true ou false"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const simulacao = req.query.simulacao === "true";
+            const formato = formatoDe(req);
+            LoggerService.info("Importação de conteúdo solicitada", { formato, simulacao, userId: req.userId });
+
+            if (!formato) {
+                LoggerService.warn("Formato de importação não identificado", { contentType: req.get("Content-Type") });
+                return res.status(400).json({
+                    erro: `Informe o parâmetro formato (${FORMATOS_TRANSFERENCIA.join(", ")}) ou um Content-Type correspondente`
+                });
+            }
+            if (typeof req.body !== "string" || req.body.trim() === "") {
+                LoggerService.warn("Importação sem conteúdo");
+                return res.status(400).json({ erro: "O corpo da requisição deve conter o arquivo a importar" });
+            }
+
+            let registros: RegistroImportacao[];
+            try {
+                registros = ContentTransferService.interpretar(req.body, formato);
+            } catch (error) {
+                LoggerService.warn("Arquivo de importação inválido", { formato, erro: (error as Error).message });
+                return res.status(400).json({ erro: (error as Error).message });
+            }
+            if (registros.length === 0) {
+                LoggerService.warn("Arquivo de importação sem registros", { formato });
+                return res.status(400).json({ erro: "O arquivo não contém registros a importar" });
+            }
+
+            const relatorio = await ContentTransferService.importar(registros, { simulacao, usuarioId: req.userId ?? null });
+            if (relatorio.totais.falha > 0) {
+                LoggerService.warn("Importação recusada por registros inválidos", { totais: relatorio.totais });
+                return res.status(400).json({ erro: "Importação não aplicada: há registros com falha", ...relatorio });
+            }
+
+            LoggerService.info("Importação de conteúdo concluída", { simulacao, totais: relatorio.totais });
+            return res.json(relatorio);
+        } catch (error) {
+            LoggerService.error("Erro ao importar conteúdo", error);
+            return res.status(500).json({ erro: "Erro ao importar conteúdo" });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,213 @@
+import { Router, Response, NextFunction } from "express";
+import { query } from "express-validator";
+import multer from "multer";
+import { AppDataSource } from "../database/data-source";
+import { Media } from "../entities/Media";
+import { PapelUsuario } from "../entities/User";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { isEditorial, permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { MediaService } from "../services/MediaService";
+import { IntervaloBytes, MediaStorageService } from "../services/MediaStorageService";
+import { config } from "../config/config";
+
+const router = Router();
+const mediaRepository = AppDataSource.getRepository(Media);
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: config.midias.tamanhoMaximoBytes, files: 1, fields: 10 },
+    fileFilter: (_req, arquivo, callback) => callback(null, MediaService.tipoPermitido(arquivo.mimetype))
+});
+
+// Converte os erros do multer nas respostas de erro da API
+const receberArquivo = (req: AuthRequest, res: Response, next: NextFunction) => {
+    upload.single("arquivo")(req, res, error => {
+        if (!error) {
+            return next();
+        }
+        if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+            LoggerService.warn("Arquivo de mídia excede o tamanho máximo", { userId: req.userId });
+            return res.status(413).json({
+                erro: `Arquivo excede o tamanho máximo de ${config.midias.tamanhoMaximoBytes / (1024 * 1024)} MB`
+            });
+        }
+        if (error instanceof multer.MulterError) {
+            LoggerService.warn("Envio de mídia inválido", { userId: req.userId, codigo: error.code });
+            return res.status(400).json({ erro: `Envio inválido: ${error.message}` });
+        }
+        return next(error);
+    });
+};
+
+router.post("/",
+    permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR, PapelUsuario.AUTOR),
+    receberArquivo,
+    async (req: AuthRequest, res: Response) => {
+        try {
+            if (!req.file) {
+                LoggerService.warn("Envio de mídia sem arquivo ou com tipo não permitido", { userId: req.userId });
+                return res.status(400).json({
+                    erro: `Envie um arquivo no campo 'arquivo' com um dos tipos: ${config.midias.tiposPermitidos.join(", ")}`
+                });
+            }
+
+            LoggerService.info(`Iniciando envio de mídia: ${req.file.originalname}`);
+            const tipoMime = MediaService.tipoEfetivo(req.file);
+            if (!tipoMime) {
+                LoggerService.warn("Conteúdo do arquivo não corresponde a um tipo permitido", {
+                    userId: req.userId,
+                    tipoDeclarado: req.file.mimetype
+                });
+                return res.status(415).json({ erro: "Conteúdo do arquivo não corresponde a um tipo permitido" });
+            }
+
+            const media = await MediaService.criar(req.file, tipoMime, req.userId!);
+            LoggerService.info(`Mídia criada com sucesso: ${media.id}`);
+            return res.status(201).json(media);
+        } catch (error) {
+            LoggerService.error("Erro ao enviar mídia", error);
+            return res.status(500).json({ erro: "Erro ao enviar mídia" });
+        }
+    }
+);
+
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["nomeOriginal"],
+    filtrosExatos: ["tipoMime", "usuarioId"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["dataCriacao", "nomeOriginal", "tamanhoBytes"],
+    ordenacaoPadrao: "dataCriacao:desc",
+    camposSelecionaveis: ["id", "nomeOriginal", "tipoMime", "tamanhoBytes", "chaveArmazenamento", "usuarioId", "dataCriacao"]
+};
+
+router.get("/",
+    [
+        query("orfas")
+            .optional()
+            .isBoolean().withMessage("orfas deve ser 'true' ou 'false'"),
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info("Listando mídias", { filtros: req.query });
+
+            const qb = mediaRepository.createQueryBuilder("media");
+            if (!(await isEditorial(req))) {
+                qb.andWhere("media.usuarioId = :usuarioId", { usuarioId: req.userId });
+            }
+            if (req.query.orfas !== undefined) {
+                const condicao = "(EXISTS (SELECT 1 FROM articles_media WHERE articles_media.midia_id = media.id)"
+                    + " OR EXISTS (SELECT 1 FROM articles WHERE articles.capa_id = media.id))";
+                qb.andWhere(req.query.orfas === "true" ? `NOT ${condicao}` : condicao);
+            }
+
+            const resultado = await ListQueryService.listar(qb, OPCOES_LISTAGEM, req.query);
+
+            LoggerService.info(`Mídias listadas com sucesso. Total: ${resultado.total}`);
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao listar mídias", error);
+            return res.status(500).json({ erro: "Erro ao listar mídias" });
+        }
+    }
+);
+
+// Serve o conteúdo do arquivo, com suporte a requisições parciais (Range) de um único intervalo
+router.get("/:id", async (req: AuthRequest, res: Response) => {
+    try {
+        const media = await mediaRepository.findOneBy({ id: req.params.id });
+        if (!media) {
+            LoggerService.warn(`Mídia não encontrada: ${req.params.id}`);
+            return res.status(404).json({ erro: "Mídia não encontrada" });
+        }
+
+        const ranges = req.headers.range ? req.range(media.tamanhoBytes, { combine: true }) : undefined;
+        if (ranges === -1) {
+            LoggerService.warn(`Intervalo inválido solicitado para a mídia: ${media.id}`, { range: req.headers.range });
+            res.set("Content-Range", `bytes */${media.tamanhoBytes}`);
+            return res.status(416).json({ erro: "Intervalo solicitado inválido" });
+        }
+
+        res.set({
+            "Accept-Ranges": "bytes",
+            "Cache-Control": "private, max-age=31536000, immutable",
+            "ETag": `"${media.id}"`,
+            "Last-Modified": media.dataCriacao.toUTCString()
+        });
+        if (req.fresh) {
+            return res.status(304).end();
+        }
+
+        // Múltiplos intervalos não são suportados; nesse caso o arquivo é enviado inteiro
+        let intervalo: IntervaloBytes | undefined;
+        if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+            intervalo = { inicio: ranges[0].start, fim: ranges[0].end };
+        }
+
+        res.status(intervalo ? 206 : 200).set({
+            "Content-Type": media.tipoMime,
+            "Content-Length": String(intervalo ? intervalo.fim - intervalo.inicio + 1 : media.tamanhoBytes),
+            "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(media.nomeOriginal)}`,
+            "X-Content-Type-Options": "nosniff"
+        });
+        if (intervalo) {
+            res.set("Content-Range", `bytes ${intervalo.inicio}-${intervalo.fim}/${media.tamanhoBytes}`);
+        }
+
+        if (req.method === "HEAD") {
+            return res.end();
+        }
+
+        const conteudo = MediaStorageService.ler(media.chaveArmazenamento, intervalo);
+        conteudo.on("error", error => {
+            LoggerService.error(`Erro ao ler arquivo da mídia: ${media.id}`, error);
+            if (res.headersSent) {
+                res.destroy(error);
+                return;
+            }
+            for (const header of ["Content-Type", "Content-Length", "Content-Range", "Content-Disposition", "Cache-Control", "ETag", "Last-Modified"]) {
+                res.removeHeader(header);
+            }
+            res.status(500).json({ erro: "Erro ao ler arquivo da mídia" });
+        });
+
+        return conteudo.pipe(res);
+    } catch (error) {
+        LoggerService.error(`Erro ao buscar mídia: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao buscar mídia" });
+    }
+});
+
+router.delete("/:id", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando exclusão da mídia: ${req.params.id}`);
+        const media = await mediaRepository.findOneBy({ id: req.params.id });
+        if (!media) {
+            LoggerService.warn(`Mídia não encontrada para exclusão: ${req.params.id}`);
+            return res.status(404).json({ erro: "Mídia não encontrada" });
+        }
+
+        if (media.usuarioId !== req.userId && !(await isEditorial(req))) {
+            LoggerService.warn(`Tentativa de excluir mídia sem permissão: ${req.params.id}`, { userId: req.userId });
+            return res.status(403).json({ erro: "Acesso negado" });
+        }
+
+        if (await MediaService.emUso(media.id)) {
+            LoggerService.warn(`Tentativa de excluir mídia vinculada a artigos: ${req.params.id}`);
+            return res.status(400).json({ erro: "Não é possível excluir mídia vinculada a artigos" });
+        }
+
+        await MediaService.remover([media], req.userId);
+        LoggerService.info(`Mídia excluída com sucesso: ${req.params.id}`);
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error(`Erro ao excluir mídia: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao excluir mídia" });
+    }
+});
+
+export default router;
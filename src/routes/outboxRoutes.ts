@@ -0,0 +1,71 @@
+import { Router, Request, Response } from "express";
+import { AppDataSource } from "../database/data-source";
+import { OutboxEmail } from "../entities/OutboxEmail";
+import { validateRequest } from "../middleware/validateRequest";
+import { LoggerService } from "../services/LoggerService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { MailService } from "../services/MailService";
+
+const router = Router();
+const outboxRepository = AppDataSource.getRepository(OutboxEmail);
+
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["assunto"],
+    filtrosExatos: ["destinatario", "tipo"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["dataCriacao", "destinatario"],
+    ordenacaoPadrao: "dataCriacao:desc",
+    camposSelecionaveis: ["id", "remetente", "destinatario", "assunto", "texto", "tipo", "dados", "dataCriacao"]
+};
+
+router.get("/",
+    [
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Listando emails da caixa de saída", { filtros: req.query });
+
+            const resultado = await ListQueryService.listar(
+                outboxRepository.createQueryBuilder("email"),
+                OPCOES_LISTAGEM,
+                req.query
+            );
+
+            LoggerService.info(`Emails da caixa de saída listados com sucesso. Total: ${resultado.total}`);
+            return res.json({ ...resultado, transporte: MailService.transporteAtual() });
+        } catch (error) {
+            LoggerService.error("Erro ao listar emails da caixa de saída", error);
+            return res.status(500).json({ erro: "Erro ao listar emails da caixa de saída" });
+        }
+    }
+);
+
+router.get("/:id", async (req: Request, res: Response) => {
+    try {
+        LoggerService.info(`Buscando email da caixa de saída: ${req.params.id}`);
+        const email = await outboxRepository.findOneBy({ id: req.params.id });
+        if (!email) {
+            return res.status(404).json({ erro: "Email não encontrado" });
+        }
+
+        return res.json(email);
+    } catch (error) {
+        LoggerService.error("Erro ao buscar email da caixa de saída", error);
+        return res.status(500).json({ erro: "Erro ao buscar email da caixa de saída" });
+    }
+});
+
+router.delete("/", async (_req: Request, res: Response) => {
+    try {
+        LoggerService.info("Esvaziando caixa de saída de emails");
+        await outboxRepository.clear();
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error("Erro ao esvaziar caixa de saída de emails", error);
+        return res.status(500).json({ erro: "Erro ao esvaziar caixa de saída de emails" });
+    }
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router, Request, Response } from "express";
+import { AppDataSource } from "../database/data-source";
+import { Tag } from "../entities/Tag";
+import { LoggerService } from "../services/LoggerService";
+
+const router = Router();
+const tagRepository = AppDataSource.getRepository(Tag);
+
+router.get("/", async (_req: Request, res: Response) => {
+    try {
+        LoggerService.info("Listando tags");
+
+        const { entities, raw } = await tagRepository
+            .createQueryBuilder("tag")
+            .leftJoin("tag.artigos", "artigo")
+            .addSelect("COUNT(artigo.id)", "total_artigos")
+            .groupBy("tag.id")
+            .orderBy("total_artigos", "DESC")
+            .addOrderBy("tag.nome", "ASC")
+            .getRawAndEntities();
+
+        const tags = entities.map((tag, index) => ({
+            ...tag,
+            totalArtigos: Number(raw[index].total_artigos)
+        }));
+
+        LoggerService.info(`Tags listadas com sucesso. Total: ${tags.length}`);
+        return res.json(tags);
+    } catch (error) {
+        LoggerService.error("Erro ao listar tags", error);
+        return res.status(500).json({ erro: "Erro ao listar tags" });
+    }
+});
+
+export default router;
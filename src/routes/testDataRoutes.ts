@@ -0,0 +1,118 @@
+import { Router, Response, NextFunction } from "express";
+import { body, param, ValidationChain } from "express-validator";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { TestDataService } from "../services/TestDataService";
+
+const router = Router();
+
+router.use((req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!TestDataService.habilitado()) {
+        LoggerService.warn("Tentativa de usar ferramentas de dados de teste desabilitadas", { userId: req.userId, rota: req.originalUrl });
+        return res.status(403).json({ erro: "Ferramentas de dados de teste desabilitadas. Defina HABILITAR_DADOS_TESTE=true para habilitá-las" });
+    }
+    return next();
+});
+
+const validarNome = (campo: ValidationChain) => campo
+    .matches(/^[A-Za-z0-9_-]+$/).withMessage("Nome deve conter apenas letras, números, '-' e '_'");
+
+router.post("/resetar", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Resetando banco de dados", { userId: req.userId });
+        await TestDataService.limpar();
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error("Erro ao resetar banco de dados", error);
+        return res.status(500).json({ erro: "Erro ao resetar banco de dados" });
+    }
+});
+
+router.get("/fixtures", async (_req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Listando fixtures disponíveis");
+        return res.json(TestDataService.listarFixtures());
+    } catch (error) {
+        LoggerService.error("Erro ao listar fixtures", error);
+        return res.status(500).json({ erro: "Erro ao listar fixtures" });
+    }
+});
+
+router.post("/fixtures/:nome",
+    [
+        validarNome(param("nome")),
+        body("limpar")
+            .optional()
+            .isBoolean({ strict: true }).withMessage("limpar deve ser booleano"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Carregando fixture: ${req.params.nome}`, { userId: req.userId });
+            const resumo = await TestDataService.carregarFixture(req.params.nome, req.body.limpar !== false);
+
+            if (!resumo) {
+                LoggerService.warn(`Fixture não encontrada: ${req.params.nome}`);
+                return res.status(404).json({ erro: "Fixture não encontrada" });
+            }
+
+            return res.json(resumo);
+        } catch (error) {
+            LoggerService.error(`Erro ao carregar fixture: ${req.params.nome}`, error);
+            return res.status(500).json({ erro: "Erro ao carregar fixture" });
+        }
+    }
+);
+
+router.get("/snapshots", async (_req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Listando snapshots do banco de dados");
+        return res.json(TestDataService.listarSnapshots());
+    } catch (error) {
+        LoggerService.error("Erro ao listar snapshots", error);
+        return res.status(500).json({ erro: "Erro ao listar snapshots" });
+    }
+});
+
+router.post("/snapshots",
+    [
+        validarNome(body("nome").notEmpty().withMessage("Nome é obrigatório")),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Criando snapshot: ${req.body.nome}`, { userId: req.userId });
+            const snapshot = await TestDataService.criarSnapshot(req.body.nome);
+            return res.status(201).json(snapshot);
+        } catch (error) {
+            LoggerService.error(`Erro ao criar snapshot: ${req.body.nome}`, error);
+            return res.status(500).json({ erro: "Erro ao criar snapshot" });
+        }
+    }
+);
+
+router.post("/snapshots/:nome/restaurar",
+    [
+        validarNome(param("nome")),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Restaurando snapshot: ${req.params.nome}`, { userId: req.userId });
+            const restaurado = await TestDataService.restaurarSnapshot(req.params.nome);
+
+            if (!restaurado) {
+                LoggerService.warn(`Snapshot não encontrado: ${req.params.nome}`);
+                return res.status(404).json({ erro: "Snapshot não encontrado" });
+            }
+
+            return res.status(204).send();
+        } catch (error) {
+            LoggerService.error(`Erro ao restaurar snapshot: ${req.params.nome}`, error);
+            return res.status(500).json({ erro: "Erro ao restaurar snapshot" });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,171 @@
+import { Router, Response } from "express";
+import { param, query } from "express-validator";
+import { AppDataSource } from "../database/data-source";
+import { Article } from "../entities/Article";
+import { PapelUsuario } from "../entities/User";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { isEditorial, permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { ArticleContentService } from "../services/ArticleContentService";
+import { MediaService } from "../services/MediaService";
+import { TipoLixeira, TrashService, TIPOS_LIXEIRA } from "../services/TrashService";
+
+const router = Router();
+
+const OPCOES_LISTAGEM: Record<TipoLixeira, OpcoesListagem> = {
+    artigos: {
+        filtrosParciais: ["titulo"],
+        filtrosExatos: ["autorId", "categoriaId", "status"],
+        filtrosData: ["dataExclusao", "dataCriacao"],
+        camposOrdenaveis: ["dataExclusao", "titulo", "dataCriacao"],
+        ordenacaoPadrao: "dataExclusao:desc",
+        camposSelecionaveis: [
+            "id", "titulo", "resumo", "status", "autorId", "categoriaId", "dataCriacao", "dataExclusao", "autor", "categoria"
+        ]
+    },
+    categorias: {
+        filtrosParciais: ["nome", "descricao"],
+        filtrosExatos: ["categoriaPaiId"],
+        filtrosData: ["dataExclusao", "dataCriacao"],
+        camposOrdenaveis: ["dataExclusao", "nome", "dataCriacao"],
+        ordenacaoPadrao: "dataExclusao:desc",
+        camposSelecionaveis: ["id", "nome", "descricao", "categoriaPaiId", "dataCriacao", "dataExclusao"]
+    },
+    usuarios: {
+        filtrosParciais: ["nomeCompleto", "nomeUsuario", "email"],
+        filtrosExatos: ["papel"],
+        filtrosData: ["dataExclusao", "dataCriacao"],
+        camposOrdenaveis: ["dataExclusao", "nomeUsuario", "dataCriacao"],
+        ordenacaoPadrao: "dataExclusao:desc",
+        camposSelecionaveis: ["id", "nomeCompleto", "nomeUsuario", "email", "papel", "dataCriacao", "dataExclusao"]
+    }
+};
+
+router.get("/", permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR), async (_req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Consultando totais da lixeira");
+        const totais = await TrashService.totais();
+        return res.json({ totais });
+    } catch (error) {
+        LoggerService.error("Erro ao consultar lixeira", error);
+        return res.status(500).json({ erro: "Erro ao consultar lixeira" });
+    }
+});
+
+// Autores só veem os próprios artigos; categorias e usuários na lixeira são restritos à equipe editorial
+const listagemHandler = (tipo: TipoLixeira) => [
+    ...(tipo === "artigos" ? [] : [permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR)]),
+    ...ListQueryService.validadores(OPCOES_LISTAGEM[tipo]),
+    validateRequest,
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Listando ${tipo} na lixeira`, { filtros: req.query });
+
+            const qb = TrashService.consulta(tipo);
+            if (tipo === "artigos") {
+                ArticleContentService.semConteudo(qb)
+                    .leftJoinAndSelect("article.autor", "autor")
+                    .leftJoinAndSelect("article.categoria", "categoria");
+                if (!(await isEditorial(req))) {
+                    qb.andWhere("article.autorId = :autorId", { autorId: req.userId });
+                }
+            }
+
+            const resultado = await ListQueryService.listar(
+                qb,
+                OPCOES_LISTAGEM[tipo],
+                req.query,
+                item => item instanceof Article ? ArticleContentService.resumido(item) : item
+            );
+
+            LoggerService.info(`Itens da lixeira listados com sucesso. Total: ${resultado.total}`, { tipo });
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error(`Erro ao listar ${tipo} na lixeira`, error);
+            return res.status(500).json({ erro: "Erro ao listar itens da lixeira" });
+        }
+    }
+];
+
+router.get("/artigos", permissionMiddleware(PapelUsuario.ADMIN, PapelUsuario.EDITOR, PapelUsuario.AUTOR), listagemHandler("artigos"));
+router.get("/categorias", listagemHandler("categorias"));
+router.get("/usuarios", listagemHandler("usuarios"));
+
+router.delete("/",
+    [
+        permissionMiddleware(PapelUsuario.ADMIN),
+        query("tipo")
+            .optional()
+            .isIn(TIPOS_LIXEIRA).withMessage(`Tipo deve ser um dos valores: ${TIPOS_LIXEIRA.join(", ")}`),
+        query("removerMidiasOrfas")
+            .optional()
+            .isBoolean().withMessage("removerMidiasOrfas deve ser 'true' ou 'false'"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const tipos = req.query.tipo ? [req.query.tipo as TipoLixeira] : TIPOS_LIXEIRA;
+            LoggerService.info("Iniciando esvaziamento da lixeira", { tipos, userId: req.userId });
+
+            const relatorio = await TrashService.esvaziar({
+                tipos,
+                usuarioId: req.userId ?? null,
+                removerMidiasOrfas: req.query.removerMidiasOrfas === "true"
+            });
+            return res.json(relatorio);
+        } catch (error) {
+            LoggerService.error("Erro ao esvaziar lixeira", error);
+            return res.status(500).json({ erro: "Erro ao esvaziar lixeira" });
+        }
+    }
+);
+
+router.delete("/:tipo/:id",
+    [
+        permissionMiddleware(PapelUsuario.ADMIN),
+        param("tipo")
+            .isIn(TIPOS_LIXEIRA).withMessage(`Tipo deve ser um dos valores: ${TIPOS_LIXEIRA.join(", ")}`),
+        param("id").isUUID().withMessage("ID inválido"),
+        query("removerMidiasOrfas")
+            .optional()
+            .isBoolean().withMessage("removerMidiasOrfas deve ser 'true' ou 'false'"),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        const tipo = req.params.tipo as TipoLixeira;
+        try {
+            LoggerService.info(`Iniciando remoção definitiva: ${req.params.id}`, { tipo });
+
+            const resultado = await AppDataSource.transaction(async manager => {
+                const item = await TrashService.buscar(manager, tipo, req.params.id);
+                if (!item) {
+                    return { status: 404, erro: "Item não encontrado na lixeira" };
+                }
+                const impedimento = await TrashService.impedimento(manager, tipo, item.id);
+                if (impedimento) {
+                    return { status: 400, erro: impedimento };
+                }
+                return { status: 204, midias: await TrashService.expurgar(manager, tipo, item, req.userId ?? null) };
+            });
+
+            if (resultado.erro) {
+                LoggerService.warn(`Remoção definitiva recusada: ${req.params.id}`, { tipo, motivo: resultado.erro });
+                return res.status(resultado.status).json({ erro: resultado.erro });
+            }
+            LoggerService.info(`Item removido definitivamente: ${req.params.id}`, { tipo });
+
+            if (req.query.removerMidiasOrfas === "true" && resultado.midias) {
+                const removidas = await MediaService.removerOrfas(resultado.midias, req.userId);
+                LoggerService.info(`Mídias órfãs removidas: ${removidas}`, { id: req.params.id });
+            }
+            return res.status(204).send();
+        } catch (error) {
+            LoggerService.error(`Erro ao remover definitivamente: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao remover item definitivamente" });
+        }
+    }
+);
+
+export default router;
@@ -2,10 +2,19 @@ import { Router, Request, Response } from "express";
 import { body } from "express-validator";
 import bcrypt from "bcrypt";
 import { AppDataSource } from "../database/data-source";
-import { User } from "../entities/User";
+import { User, PapelUsuario } from "../entities/User";
 import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { carregarPapel, permissionMiddleware } from "../middleware/permissionMiddleware";
 import { QueryFailedError } from "typeorm";
 import { LoggerService } from "../services/LoggerService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { AuditService } from "../services/AuditService";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { config } from "../config/config";
+import { validarSenha } from "../utils/ValidarSenha";
+import { AccountEmailService } from "../services/AccountEmailService";
+import { TokenService } from "../services/TokenService";
 
 const router = Router();
 const userRepository = AppDataSource.getRepository(User);
@@ -22,6 +31,7 @@ interface UpdateUserRequest {
     nomeUsuario?: string;
     email?: string;
     senha?: string;
+    papel?: PapelUsuario;
 }
 
 router.post("/",
@@ -29,25 +39,31 @@ router.post("/",
         body("nomeCompleto").notEmpty().withMessage("Nome completo é obrigatório"),
         body("nomeUsuario").notEmpty().withMessage("Nome de usuário é obrigatório"),
         body("email").isEmail().withMessage("Email inválido"),
-        body("senha")
-            .isLength({ min: 6 }).withMessage("Senha deve ter no mínimo 6 caracteres")
-            .matches(/\d/).withMessage("Senha deve conter pelo menos um número")
-            .matches(/[A-Z]/).withMessage("Senha deve conter pelo menos uma letra maiúscula"),
+        validarSenha(body("senha")),
         validateRequest
     ],
     async (req: Request<{}, {}, CreateUserRequest>, res: Response) => {
         try {
+            // Usuários na lixeira continuam reservando nome de usuário e e-mail até serem removidos definitivamente
             const [existingUserByUsername, existingUserByEmail] = await Promise.all([
-                userRepository.findOne({ where: { nomeUsuario: req.body.nomeUsuario } }),
-                userRepository.findOne({ where: { email: req.body.email } })
+                userRepository.findOne({ where: { nomeUsuario: req.body.nomeUsuario }, withDeleted: true }),
+                userRepository.findOne({ where: { email: req.body.email }, withDeleted: true })
             ]);
 
             const errors = [];
             if (existingUserByUsername) {
-                errors.push({ campo: "nomeUsuario", mensagem: "Nome de usuário já está em uso" });
+                errors.push({
+                    campo: "nomeUsuario",
+                    mensagem: existingUserByUsername.dataExclusao
+                        ? "Nome de usuário já está em uso por um usuário na lixeira"
+                        : "Nome de usuário já está em uso"
+                });
             }
             if (existingUserByEmail) {
-                errors.push({ campo: "email", mensagem: "E-mail já está em uso" });
+                errors.push({
+                    campo: "email",
+                    mensagem: existingUserByEmail.dataExclusao ? "E-mail já está em uso por um usuário na lixeira" : "E-mail já está em uso"
+                });
             }
 
             if (errors.length > 0) {
@@ -59,24 +75,41 @@ router.post("/",
                 return res.status(400).json({ erros: errors });
             }
 
-            const hashedPassword = await bcrypt.hash(req.body.senha, 10);
+            const hashedPassword = await bcrypt.hash(req.body.senha, config.bcryptCusto);
+            const totalUsuarios = await userRepository.count();
 
             const user = userRepository.create({
                 nomeCompleto: req.body.nomeCompleto,
                 nomeUsuario: req.body.nomeUsuario,
                 email: req.body.email,
-                senha: hashedPassword
+                senha: hashedPassword,
+                papel: totalUsuarios === 0 ? PapelUsuario.ADMIN : PapelUsuario.AUTOR
             });
 
-            await userRepository.save(user);
+            await AppDataSource.transaction(async manager => {
+                await manager.save(user);
+                await AuditService.registrar(manager, {
+                    usuarioId: (req as AuthRequest).userId,
+                    acao: AcaoAuditoria.CRIAR,
+                    entidade: User,
+                    entidadeId: user.id,
+                    depois: user
+                });
+            });
             LoggerService.info("Novo usuário criado com sucesso", 
                 { 
                 id: user.id, 
                 nomeUsuario: user.nomeUsuario 
             });
 
-            const { senha: _, ...userWithoutPassword } = user as User & { senha: string };
-            return res.status(201).json(userWithoutPassword);
+            try {
+                await AccountEmailService.enviarVerificacao(user);
+            } catch (error) {
+                LoggerService.error("Erro ao enviar email de verificação", error);
+            }
+
+            // Recarrega para omitir as colunas não selecionáveis preenchidas pelo save, como senha e bloqueio de login
+            return res.status(201).json(await userRepository.findOneByOrFail({ id: user.id }));
         } catch (error) {
             LoggerService.error("Erro ao criar usuário", error);
             return res.status(500).json({ erro: "Erro ao criar usuário" });
@@ -84,23 +117,38 @@ router.post("/",
     }
 );
 
-router.get("/", async (req: Request<{}, {}, {}, { nomeUsuario?: string; email?: string }>, res: Response) => {
-    try {
-        const { nomeUsuario, email } = req.query;
-        LoggerService.info("Buscando usuários", { filtros: { nomeUsuario, email } });
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["nomeCompleto", "nomeUsuario", "email"],
+    filtrosExatos: ["papel"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["nomeCompleto", "nomeUsuario", "email", "dataCriacao"],
+    ordenacaoPadrao: "dataCriacao:asc",
+    camposSelecionaveis: ["id", "nomeCompleto", "nomeUsuario", "email", "papel", "emailVerificado", "dataCriacao"]
+};
 
-        let where = {};
-        if (nomeUsuario) where = { ...where, nomeUsuario };
-        if (email) where = { ...where, email };
+router.get("/",
+    [
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            LoggerService.info("Buscando usuários", { filtros: req.query });
 
-        const users = await userRepository.find({ where });
-        LoggerService.info("Quantidade de usuários encontrados", { users: users.length });
-        return res.json(users);
-    } catch (error) {
-        LoggerService.error("Erro ao listar usuários", error);
-        return res.status(500).json({ erro: "Erro ao listar usuários" });
+            const resultado = await ListQueryService.listar(
+                userRepository.createQueryBuilder("user"),
+                OPCOES_LISTAGEM,
+                req.query
+            );
+
+            LoggerService.info("Quantidade de usuários encontrados", { users: resultado.data.length, total: resultado.total });
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error("Erro ao listar usuários", error);
+            return res.status(500).json({ erro: "Erro ao listar usuários" });
+        }
     }
-});
+);
 
 router.get("/:id", async (req: Request<{ id: string }>, res: Response) => {
     try {
@@ -123,19 +171,36 @@ router.put("/:id",
         body("nomeCompleto").optional().notEmpty().withMessage("Nome completo não pode ser vazio"),
         body("nomeUsuario").optional().notEmpty().withMessage("Nome de usuário não pode ser vazio"),
         body("email").optional().isEmail().withMessage("Email inválido"),
-        body("senha")
+        validarSenha(body("senha").optional()),
+        body("papel")
             .optional()
-            .isLength({ min: 6 }).withMessage("Senha deve ter no mínimo 6 caracteres")
-            .matches(/\d/).withMessage("Senha deve conter pelo menos um número")
-            .matches(/[A-Z]/).withMessage("Senha deve conter pelo menos uma letra maiúscula"),
+            .isIn(Object.values(PapelUsuario)).withMessage("Papel inválido"),
         validateRequest
     ],
     async (req: Request<{ id: string }, {}, UpdateUserRequest>, res: Response) => {
         try {
             LoggerService.info("Iniciando atualização de usuário", { id: req.params.id });
+            const authReq = req as AuthRequest;
+            const papelSolicitante = await carregarPapel(authReq);
+            const isAdmin = papelSolicitante === PapelUsuario.ADMIN;
+
+            if (!isAdmin && authReq.userId !== req.params.id) {
+                LoggerService.warn("Tentativa de atualizar outro usuário sem permissão", 
+                    { 
+                    id: req.params.id, 
+                    userId: authReq.userId 
+                });
+                return res.status(403).json({ erro: "Acesso negado" });
+            }
+
+            if (req.body.papel && !isAdmin) {
+                LoggerService.warn("Tentativa de alterar papel sem permissão", { id: req.params.id, userId: authReq.userId });
+                return res.status(403).json({ erro: "Apenas administradores podem alterar papéis" });
+            }
+
             const user = await userRepository.findOne({ 
                 where: { id: req.params.id },
-                select: ["id", "nomeCompleto", "nomeUsuario", "email", "senha"]
+                select: ["id", "nomeCompleto", "nomeUsuario", "email", "senha", "papel", "emailVerificado"]
             });
             
             if (!user) {
@@ -153,11 +218,14 @@ router.put("/:id",
 
             if (req.body.nomeUsuario && req.body.nomeUsuario !== user.nomeUsuario) {
                 const existingUser = await userRepository.findOne({
-                    where: { nomeUsuario: req.body.nomeUsuario }
+                    where: { nomeUsuario: req.body.nomeUsuario },
+                    withDeleted: true
                 });
 
                 if (existingUser) {
-                    return res.status(400).json({ erro: "Nome de usuário já está em uso" });
+                    return res.status(400).json({
+                        erro: existingUser.dataExclusao ? "Nome de usuário já está em uso por um usuário na lixeira" : "Nome de usuário já está em uso"
+                    });
                 }
                 updateData.nomeUsuario = req.body.nomeUsuario;
                 hasChanges = true;
@@ -169,7 +237,19 @@ router.put("/:id",
             }
 
             if (req.body.senha) {
-                updateData.senha = await bcrypt.hash(req.body.senha, 10);
+                updateData.senha = await bcrypt.hash(req.body.senha, config.bcryptCusto);
+                hasChanges = true;
+            }
+
+            if (req.body.papel && req.body.papel !== user.papel) {
+                if (user.papel === PapelUsuario.ADMIN) {
+                    const totalAdmins = await userRepository.count({ where: { papel: PapelUsuario.ADMIN } });
+                    if (totalAdmins <= 1) {
+                        LoggerService.warn("Tentativa de remover o último administrador", { id: req.params.id });
+                        return res.status(400).json({ erro: "Não é possível remover o último administrador" });
+                    }
+                }
+                updateData.papel = req.body.papel;
                 hasChanges = true;
             }
 
@@ -178,13 +258,35 @@ router.put("/:id",
                 return res.status(200).json({ mensagem: "Não houve alterações" });
             }
 
+            const antes = AuditService.snapshot(user);
             Object.assign(user, updateData);
-            await userRepository.save(user);
+            if (updateData.email) {
+                user.emailVerificado = false;
+            }
+            await AppDataSource.transaction(async manager => {
+                await manager.save(user);
+                await AuditService.registrar(manager, {
+                    usuarioId: authReq.userId,
+                    acao: AcaoAuditoria.ATUALIZAR,
+                    entidade: User,
+                    entidadeId: user.id,
+                    antes,
+                    depois: user
+                });
+            });
             LoggerService.info("Usuário atualizado com sucesso", 
                 { 
                 id: user.id, 
                 campos: Object.keys(updateData) 
             });
+
+            if (updateData.email) {
+                try {
+                    await AccountEmailService.enviarVerificacao(user);
+                } catch (error) {
+                    LoggerService.error("Erro ao enviar email de verificação", error);
+                }
+            }
             
             const { senha: _, ...userWithoutPassword } = user as User & { senha: string };
             return res.json(userWithoutPassword);
@@ -201,12 +303,12 @@ router.put("/:id",
     }
 );
 
-router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
+router.delete("/:id", permissionMiddleware(PapelUsuario.ADMIN), async (req: AuthRequest, res: Response) => {
     try {
         LoggerService.info("Iniciando exclusão de usuário", { id: req.params.id });
         const user = await userRepository.findOne({ 
             where: { id: req.params.id },
-            relations: ["artigos"]
+            relations: ["artigos", "comentarios", "midias"]
         });
 
         if (!user) {
@@ -214,6 +316,19 @@ router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
             return res.status(404).json({ erro: "Usuário não encontrado" });
         }
 
+        if (user.id === req.userId) {
+            LoggerService.warn("Tentativa de excluir o próprio usuário", { id: req.params.id });
+            return res.status(400).json({ erro: "Não é possível excluir o próprio usuário" });
+        }
+
+        if (user.papel === PapelUsuario.ADMIN) {
+            const totalAdmins = await userRepository.count({ where: { papel: PapelUsuario.ADMIN } });
+            if (totalAdmins <= 1) {
+                LoggerService.warn("Tentativa de remover o último administrador", { id: req.params.id });
+                return res.status(400).json({ erro: "Não é possível remover o último administrador" });
+            }
+        }
+
         if (user.artigos && user.artigos.length > 0) {
             LoggerService.warn("Tentativa de excluir usuário com artigos vinculados", 
                 { 
@@ -223,8 +338,37 @@ router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
             return res.status(400).json({ erro: "Não é possível excluir usuário com artigos vinculados" });
         }
 
-        await userRepository.remove(user);
-        LoggerService.info("Usuário excluído com sucesso", { id: req.params.id });
+        if (user.comentarios && user.comentarios.length > 0) {
+            LoggerService.warn("Tentativa de excluir usuário com comentários vinculados", 
+                { 
+                id: req.params.id, 
+                numeroComentarios: user.comentarios.length 
+            });
+            return res.status(400).json({ erro: "Não é possível excluir usuário com comentários vinculados" });
+        }
+
+        if (user.midias && user.midias.length > 0) {
+            LoggerService.warn("Tentativa de excluir usuário com mídias vinculadas", 
+                { 
+                id: req.params.id, 
+                numeroMidias: user.midias.length 
+            });
+            return res.status(400).json({ erro: "Não é possível excluir usuário com mídias vinculadas" });
+        }
+
+        const antes = AuditService.snapshot(user);
+        await AppDataSource.transaction(async manager => {
+            await manager.softRemove(user);
+            await TokenService.revogarSessoesDoUsuario(user.id, manager);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.EXCLUIR,
+                entidade: User,
+                entidadeId: req.params.id,
+                antes
+            });
+        });
+        LoggerService.info("Usuário movido para a lixeira", { id: req.params.id });
         return res.status(204).send();
     } catch (error) {
         LoggerService.error("Erro ao excluir usuário", error);
@@ -232,4 +376,38 @@ router.delete("/:id", async (req: Request<{ id: string }>, res: Response) => {
     }
 });
 
+router.post("/:id/restaurar", permissionMiddleware(PapelUsuario.ADMIN), async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info("Iniciando restauração de usuário", { id: req.params.id });
+        const user = await userRepository.findOne({ where: { id: req.params.id }, withDeleted: true });
+
+        if (!user) {
+            LoggerService.warn("Tentativa de restaurar usuário inexistente", { id: req.params.id });
+            return res.status(404).json({ erro: "Usuário não encontrado" });
+        }
+
+        if (!user.dataExclusao) {
+            return res.status(409).json({ erro: "Usuário não está na lixeira" });
+        }
+
+        const antes = AuditService.snapshot(user);
+        await AppDataSource.transaction(async manager => {
+            await manager.recover(user);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.RESTAURAR,
+                entidade: User,
+                entidadeId: user.id,
+                antes,
+                depois: user
+            });
+        });
+        LoggerService.info("Usuário restaurado da lixeira", { id: req.params.id });
+        return res.json(user);
+    } catch (error) {
+        LoggerService.error("Erro ao restaurar usuário", error);
+        return res.status(500).json({ erro: "Erro ao restaurar usuário" });
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,282 @@
+import { Router, Response } from "express";
+import { body } from "express-validator";
+import { AppDataSource } from "../database/data-source";
+import { Webhook } from "../entities/Webhook";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { PapelUsuario } from "../entities/User";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { validateRequest } from "../middleware/validateRequest";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { permissionMiddleware } from "../middleware/permissionMiddleware";
+import { LoggerService } from "../services/LoggerService";
+import { AuditService } from "../services/AuditService";
+import { ListQueryService, OpcoesListagem } from "../services/ListQueryService";
+import { WebhookService, EVENTOS_WEBHOOK, TODOS_EVENTOS } from "../services/WebhookService";
+
+const router = Router();
+const webhookRepository = AppDataSource.getRepository(Webhook);
+const deliveryRepository = AppDataSource.getRepository(WebhookDelivery);
+
+interface WebhookRequest {
+    url: string;
+    descricao?: string | null;
+    eventos: string[];
+    segredo?: string;
+    ativo?: boolean;
+}
+
+router.use(permissionMiddleware(PapelUsuario.ADMIN));
+
+// Na atualização todos os campos são opcionais, mas os informados seguem as mesmas regras
+const validarWebhook = (opcional: boolean) => [
+    (opcional ? body("url").optional() : body("url"))
+        .isURL({ protocols: ["http", "https"], require_protocol: true, require_tld: false })
+        .withMessage("URL deve ser um endereço http ou https válido"),
+    body("descricao")
+        .optional({ values: "null" })
+        .isString().withMessage("Descrição deve ser um texto")
+        .isLength({ max: 255 }).withMessage("Descrição deve ter no máximo 255 caracteres"),
+    (opcional ? body("eventos").optional() : body("eventos"))
+        .isArray({ min: 1 }).withMessage("Eventos deve ser uma lista com ao menos um evento"),
+    body("eventos.*")
+        .isIn([TODOS_EVENTOS, ...EVENTOS_WEBHOOK])
+        .withMessage(`Evento inválido. Permitidos: ${[TODOS_EVENTOS, ...EVENTOS_WEBHOOK].join(", ")}`),
+    body("segredo")
+        .optional()
+        .isString().withMessage("Segredo deve ser um texto")
+        .isLength({ min: 16, max: 255 }).withMessage("Segredo deve ter entre 16 e 255 caracteres"),
+    body("ativo")
+        .optional()
+        .isBoolean({ strict: true }).withMessage("ativo deve ser booleano"),
+    validateRequest
+];
+
+router.post("/",
+    validarWebhook(false),
+    async (req: AuthRequest, res: Response) => {
+        try {
+            const { url, descricao, eventos, segredo, ativo } = req.body as WebhookRequest;
+            LoggerService.info(`Iniciando criação de webhook: ${url}`);
+
+            const webhook = webhookRepository.create({
+                url,
+                descricao: descricao ?? null,
+                eventos: [...new Set(eventos)],
+                segredo: segredo ?? WebhookService.gerarSegredo(),
+                ativo: ativo ?? true,
+                usuarioId: req.userId ?? null
+            });
+            await AppDataSource.transaction(async manager => {
+                await manager.save(webhook);
+                await AuditService.registrar(manager, {
+                    usuarioId: req.userId,
+                    acao: AcaoAuditoria.CRIAR,
+                    entidade: Webhook,
+                    entidadeId: webhook.id,
+                    depois: webhook
+                });
+            });
+
+            LoggerService.info(`Webhook criado com sucesso: ${webhook.id}`);
+            // O segredo só é devolvido na criação; depois disso pode apenas ser substituído
+            return res.status(201).json(webhook);
+        } catch (error) {
+            LoggerService.error("Erro ao criar webhook", error);
+            return res.status(500).json({ erro: "Erro ao criar webhook" });
+        }
+    }
+);
+
+const OPCOES_LISTAGEM: OpcoesListagem = {
+    filtrosParciais: ["url", "descricao"],
+    filtrosExatos: ["usuarioId"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["dataCriacao", "url"],
+    ordenacaoPadrao: "dataCriacao:desc",
+    camposSelecionaveis: ["id", "url", "descricao", "eventos", "ativo", "usuarioId", "dataCriacao", "dataAtualizacao"]
+};
+
+router.get("/",
+    [
+        ...ListQueryService.validadores(OPCOES_LISTAGEM),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info("Listando webhooks", { filtros: req.query });
+
+            const resultado = await ListQueryService.listar(
+                webhookRepository.createQueryBuilder("webhook"),
+                OPCOES_LISTAGEM,
+                req.query
+            );
+
+            LoggerService.info(`Webhooks listados com sucesso. Total: ${resultado.total}`);
+            return res.json({ ...resultado, eventosDisponiveis: EVENTOS_WEBHOOK });
+        } catch (error) {
+            LoggerService.error("Erro ao listar webhooks", error);
+            return res.status(500).json({ erro: "Erro ao listar webhooks" });
+        }
+    }
+);
+
+router.get("/:id", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Buscando webhook: ${req.params.id}`);
+        const webhook = await webhookRepository.findOneBy({ id: req.params.id });
+        if (!webhook) {
+            LoggerService.warn(`Webhook não encontrado: ${req.params.id}`);
+            return res.status(404).json({ erro: "Webhook não encontrado" });
+        }
+
+        return res.json(webhook);
+    } catch (error) {
+        LoggerService.error(`Erro ao buscar webhook: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao buscar webhook" });
+    }
+});
+
+router.put("/:id",
+    validarWebhook(true),
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Iniciando atualização do webhook: ${req.params.id}`);
+            const webhook = await webhookRepository.findOneBy({ id: req.params.id });
+            if (!webhook) {
+                LoggerService.warn(`Webhook não encontrado para atualização: ${req.params.id}`);
+                return res.status(404).json({ erro: "Webhook não encontrado" });
+            }
+
+            const antes = AuditService.snapshot(webhook);
+            const { url, descricao, eventos, segredo, ativo } = req.body as Partial<WebhookRequest>;
+            webhookRepository.merge(webhook, {
+                url,
+                descricao,
+                eventos: eventos ? [...new Set(eventos)] : undefined,
+                segredo,
+                ativo
+            });
+            await AppDataSource.transaction(async manager => {
+                await manager.save(webhook);
+                await AuditService.registrar(manager, {
+                    usuarioId: req.userId,
+                    acao: AcaoAuditoria.ATUALIZAR,
+                    entidade: Webhook,
+                    entidadeId: webhook.id,
+                    antes,
+                    depois: webhook
+                });
+            });
+
+            LoggerService.info(`Webhook atualizado com sucesso: ${req.params.id}`);
+            const { segredo: _segredo, ...resposta } = webhook;
+            return res.json(resposta);
+        } catch (error) {
+            LoggerService.error(`Erro ao atualizar webhook: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao atualizar webhook" });
+        }
+    }
+);
+
+// As entregas do webhook são removidas junto com ele
+router.delete("/:id", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Iniciando exclusão do webhook: ${req.params.id}`);
+        const webhook = await webhookRepository.findOneBy({ id: req.params.id });
+        if (!webhook) {
+            LoggerService.warn(`Webhook não encontrado para exclusão: ${req.params.id}`);
+            return res.status(404).json({ erro: "Webhook não encontrado" });
+        }
+
+        const antes = AuditService.snapshot(webhook);
+        await AppDataSource.transaction(async manager => {
+            await manager.remove(webhook);
+            await AuditService.registrar(manager, {
+                usuarioId: req.userId,
+                acao: AcaoAuditoria.EXCLUIR,
+                entidade: Webhook,
+                entidadeId: req.params.id,
+                antes
+            });
+        });
+        LoggerService.info(`Webhook excluído com sucesso: ${req.params.id}`);
+        return res.status(204).send();
+    } catch (error) {
+        LoggerService.error(`Erro ao excluir webhook: ${req.params.id}`, error);
+        return res.status(500).json({ erro: "Erro ao excluir webhook" });
+    }
+});
+
+const OPCOES_LISTAGEM_ENTREGAS: OpcoesListagem = {
+    filtrosExatos: ["evento", "status", "ultimoStatusHttp"],
+    filtrosData: ["dataCriacao"],
+    camposOrdenaveis: ["dataCriacao", "proximaTentativaEm", "tentativas"],
+    ordenacaoPadrao: "dataCriacao:desc",
+    camposSelecionaveis: [
+        "id", "webhookId", "evento", "payload", "status", "tentativas", "proximaTentativaEm",
+        "ultimoStatusHttp", "ultimoErro", "historico", "dataCriacao"
+    ]
+};
+
+router.get("/:id/entregas",
+    [
+        ...ListQueryService.validadores(OPCOES_LISTAGEM_ENTREGAS),
+        validateRequest
+    ],
+    async (req: AuthRequest, res: Response) => {
+        try {
+            LoggerService.info(`Listando entregas do webhook: ${req.params.id}`, { filtros: req.query });
+            if (!(await webhookRepository.existsBy({ id: req.params.id }))) {
+                LoggerService.warn(`Webhook não encontrado: ${req.params.id}`);
+                return res.status(404).json({ erro: "Webhook não encontrado" });
+            }
+
+            const resultado = await ListQueryService.listar(
+                deliveryRepository.createQueryBuilder("entrega").where("entrega.webhookId = :webhookId", { webhookId: req.params.id }),
+                OPCOES_LISTAGEM_ENTREGAS,
+                req.query
+            );
+
+            LoggerService.info(`Entregas do webhook listadas com sucesso. Total: ${resultado.total}`);
+            return res.json(resultado);
+        } catch (error) {
+            LoggerService.error(`Erro ao listar entregas do webhook: ${req.params.id}`, error);
+            return res.status(500).json({ erro: "Erro ao listar entregas do webhook" });
+        }
+    }
+);
+
+router.get("/:id/entregas/:entregaId", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Buscando entrega de webhook: ${req.params.entregaId}`);
+        const entrega = await deliveryRepository.findOneBy({ id: req.params.entregaId, webhookId: req.params.id });
+        if (!entrega) {
+            LoggerService.warn(`Entrega de webhook não encontrada: ${req.params.entregaId}`);
+            return res.status(404).json({ erro: "Entrega não encontrada" });
+        }
+
+        return res.json(entrega);
+    } catch (error) {
+        LoggerService.error(`Erro ao buscar entrega de webhook: ${req.params.entregaId}`, error);
+        return res.status(500).json({ erro: "Erro ao buscar entrega de webhook" });
+    }
+});
+
+// Faz uma tentativa imediata, independentemente do status e do agendamento da entrega
+router.post("/:id/entregas/:entregaId/reenviar", async (req: AuthRequest, res: Response) => {
+    try {
+        LoggerService.info(`Reenvio manual de entrega de webhook solicitado: ${req.params.entregaId}`, { userId: req.userId });
+        const entrega = await deliveryRepository.findOneBy({ id: req.params.entregaId, webhookId: req.params.id });
+        if (!entrega) {
+            LoggerService.warn(`Entrega de webhook não encontrada para reenvio: ${req.params.entregaId}`);
+            return res.status(404).json({ erro: "Entrega não encontrada" });
+        }
+
+        return res.json(await WebhookService.reenviar(entrega));
+    } catch (error) {
+        LoggerService.error(`Erro ao reenviar entrega de webhook: ${req.params.entregaId}`, error);
+        return res.status(500).json({ erro: "Erro ao reenviar entrega de webhook" });
+    }
+});
+
+export default router;
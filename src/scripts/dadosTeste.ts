@@ -0,0 +1,76 @@
+import "reflect-metadata";
+import { AppDataSource } from "../database/data-source";
+import { LoggerService } from "../services/LoggerService";
+import { TestDataService } from "../services/TestDataService";
+import { errosConfiguracao } from "../config/config";
+
+const USO = `Uso: npm run dados-teste -- <comando>
+
+Comandos:
+  resetar                 Apaga todos os dados
+  fixtures                Lista as fixtures disponíveis
+  fixture <nome>          Apaga todos os dados e carrega a fixture
+  snapshots               Lista os snapshots
+  snapshot <nome>         Cria um snapshot do banco atual
+  restaurar <nome>        Restaura um snapshot`;
+
+const executar = async (comando: string | undefined, nome: string | undefined): Promise<number> => {
+    if (["fixture", "snapshot", "restaurar"].includes(comando ?? "") && !/^[A-Za-z0-9_-]+$/.test(nome ?? "")) {
+        console.error(USO);
+        return 1;
+    }
+
+    switch (comando) {
+        case "resetar":
+            await TestDataService.limpar();
+            return 0;
+        case "fixtures":
+            console.log(TestDataService.listarFixtures().join("\n"));
+            return 0;
+        case "fixture": {
+            const resumo = await TestDataService.carregarFixture(nome!);
+            if (!resumo) {
+                LoggerService.error(`Fixture não encontrada: ${nome}`);
+                return 1;
+            }
+            return 0;
+        }
+        case "snapshots":
+            TestDataService.listarSnapshots().forEach(snapshot => console.log(snapshot.nome));
+            return 0;
+        case "snapshot":
+            await TestDataService.criarSnapshot(nome!);
+            return 0;
+        case "restaurar":
+            if (!(await TestDataService.restaurarSnapshot(nome!))) {
+                LoggerService.error(`Snapshot não encontrado: ${nome}`);
+                return 1;
+            }
+            return 0;
+        default:
+            console.error(USO);
+            return 1;
+    }
+};
+
+const erros = errosConfiguracao();
+if (erros.length > 0) {
+    erros.forEach(erro => LoggerService.error(`Configuração inválida: ${erro}`));
+    process.exit(1);
+}
+
+if (!TestDataService.habilitado()) {
+    LoggerService.error("Ferramentas de dados de teste desabilitadas. Defina HABILITAR_DADOS_TESTE=true para habilitá-las");
+    process.exit(1);
+}
+
+AppDataSource.initialize()
+    .then(async () => {
+        const codigo = await executar(process.argv[2], process.argv[3]);
+        await AppDataSource.destroy();
+        process.exit(codigo);
+    })
+    .catch((error) => {
+        LoggerService.error("Erro ao executar comando de dados de teste", error);
+        process.exit(1);
+    });
@@ -1,49 +1,28 @@
 import "reflect-metadata";
-import express from "express";
-import cors from "cors";
-import swaggerUi from "swagger-ui-express";
-import YAML from "yamljs";
-import path from "path";
+import app from "./app";
 import { AppDataSource } from "./database/data-source";
-import userRoutes from "./routes/userRoutes";
-import categoryRoutes from "./routes/categoryRoutes";
-import articleRoutes from "./routes/articleRoutes";
-import authRoutes from "./routes/authRoutes";
-import { authMiddleware } from "./middleware/authMiddleware";
-import { Router } from "express";
-import { DatabaseCleanupService } from "./services/DatabaseCleanupService";
+import { RetentionService } from "./services/RetentionService";
 import { LoggerService } from "./services/LoggerService";
+import { WebhookService } from "./services/WebhookService";
+import { config, configuracaoMascarada, avisosConfiguracao, errosConfiguracao } from "./config/config";
 
-const app = express();
+const PORT = config.porta;
 
-app.use(cors());
-app.use(express.json());
+const erros = errosConfiguracao();
+if (erros.length > 0) {
+    erros.forEach(erro => LoggerService.error(`Configuração inválida: ${erro}`));
+    process.exit(1);
+}
 
-const swaggerDocument = YAML.load(path.resolve(__dirname, "../swagger.yaml"));
-app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocument));
-
-app.use("/auth", authRoutes);
-
-const userRouter = Router();
-app.use("/usuarios", userRouter);
-
-userRouter.post("/", userRoutes);
-
-userRouter.use(authMiddleware);
-userRouter.get("/", userRoutes);
-userRouter.get("/:id", userRoutes);
-userRouter.put("/:id", userRoutes);
-userRouter.delete("/:id", userRoutes);
-
-app.use("/categorias", authMiddleware, categoryRoutes);
-app.use("/artigos", authMiddleware, articleRoutes);
-
-const PORT = process.env.PORT || 3000;
+LoggerService.info("Configuração carregada", configuracaoMascarada());
+avisosConfiguracao().forEach(aviso => LoggerService.warn(aviso));
 
 AppDataSource.initialize()
     .then(async () => {
-        const cleanupService = new DatabaseCleanupService();
-        await cleanupService.verificarEstadoAtual();
+        RetentionService.carregarConfiguracao();
+        await RetentionService.executar({ simulacao: false });
+        RetentionService.agendar();
+        WebhookService.agendar();
         LoggerService.info("Banco de dados inicializado com sucesso");
 
         app.listen(PORT, () => {
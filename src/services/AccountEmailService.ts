@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { EntityManager, IsNull } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { User } from "../entities/User";
+import { EmailToken, TipoTokenEmail } from "../entities/EmailToken";
+import { MailService } from "./MailService";
+import { TokenService } from "./TokenService";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+export class AccountEmailService {
+    private static get repository() {
+        return AppDataSource.getRepository(EmailToken);
+    }
+
+    private static hash(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
+
+    static async enviarVerificacao(user: Pick<User, "id" | "email" | "nomeCompleto">): Promise<void> {
+        const token = await this.emitir(user.id, TipoTokenEmail.VERIFICACAO_EMAIL, config.email.validadeVerificacaoHoras * 60);
+
+        await MailService.enviar({
+            destinatario: user.email,
+            assunto: "Confirme seu email",
+            texto: [
+                `Olá, ${user.nomeCompleto}!`,
+                "",
+                "Para confirmar seu endereço de email, envie o código abaixo para POST /auth/verificar-email:",
+                "",
+                token,
+                "",
+                `O código expira em ${config.email.validadeVerificacaoHoras} horas.`
+            ].join("\n"),
+            tipo: TipoTokenEmail.VERIFICACAO_EMAIL,
+            dados: { usuarioId: user.id, token }
+        });
+    }
+
+    static async verificarEmail(token: string): Promise<boolean> {
+        const usuarioId = await AppDataSource.transaction(async manager => {
+            const id = await this.consumir(manager, token, TipoTokenEmail.VERIFICACAO_EMAIL);
+            if (id) {
+                await manager.update(User, id, { emailVerificado: true });
+            }
+            return id;
+        });
+        if (!usuarioId) {
+            return false;
+        }
+
+        LoggerService.info("Email verificado com sucesso", { userId: usuarioId });
+        return true;
+    }
+
+    static async enviarRedefinicaoSenha(email: string): Promise<void> {
+        const user = await AppDataSource.getRepository(User).findOneBy({ email });
+        if (!user) {
+            LoggerService.warn("Redefinição de senha solicitada para email não cadastrado");
+            return;
+        }
+
+        const token = await this.emitir(user.id, TipoTokenEmail.REDEFINICAO_SENHA, config.email.validadeRedefinicaoMinutos);
+
+        await MailService.enviar({
+            destinatario: user.email,
+            assunto: "Redefinição de senha",
+            texto: [
+                `Olá, ${user.nomeCompleto}!`,
+                "",
+                "Recebemos uma solicitação para redefinir a sua senha. Envie o código abaixo junto com a nova senha",
+                "para POST /auth/redefinir-senha:",
+                "",
+                token,
+                "",
+                `O código expira em ${config.email.validadeRedefinicaoMinutos} minutos. Se você não fez esta solicitação, ignore este email.`
+            ].join("\n"),
+            tipo: TipoTokenEmail.REDEFINICAO_SENHA,
+            dados: { usuarioId: user.id, token }
+        });
+    }
+
+    // Além de trocar a senha, encerra todas as sessões e remove um eventual bloqueio de login.
+    // O token só é consumido se a troca for gravada: tudo roda na mesma transação.
+    static async redefinirSenha(token: string, senha: string): Promise<boolean> {
+        const hashSenha = await bcrypt.hash(senha, config.bcryptCusto);
+        const usuarioId = await AppDataSource.transaction(async manager => {
+            const id = await this.consumir(manager, token, TipoTokenEmail.REDEFINICAO_SENHA);
+            if (id) {
+                await manager.update(User, id, { senha: hashSenha, tentativasLoginFalhas: 0, bloqueadoAte: null });
+                await TokenService.revogarSessoesDoUsuario(id, manager);
+            }
+            return id;
+        });
+        if (!usuarioId) {
+            return false;
+        }
+
+        LoggerService.info("Senha redefinida com sucesso", { userId: usuarioId });
+        return true;
+    }
+
+    // Um novo token invalida os anteriores do mesmo tipo que ainda não foram usados
+    private static async emitir(usuarioId: string, tipo: TipoTokenEmail, validadeMinutos: number): Promise<string> {
+        const token = crypto.randomBytes(32).toString("hex");
+
+        await this.repository.delete({ usuarioId, tipo, usadoEm: IsNull() });
+        await this.repository.insert({
+            tokenHash: this.hash(token),
+            tipo,
+            usuarioId,
+            expiraEm: new Date(Date.now() + validadeMinutos * 60 * 1000),
+            usadoEm: null
+        });
+
+        return token;
+    }
+
+    private static async consumir(manager: EntityManager, token: string, tipo: TipoTokenEmail): Promise<string | null> {
+        const registro = await manager.findOneBy(EmailToken, { tokenHash: this.hash(token), tipo });
+
+        if (!registro || registro.usadoEm || registro.expiraEm <= new Date()) {
+            LoggerService.warn("Token de email inválido, usado ou expirado", { tipo });
+            return null;
+        }
+
+        const resultado = await manager.update(
+            EmailToken,
+            { id: registro.id, usadoEm: IsNull() },
+            { usadoEm: new Date() }
+        );
+        if (!resultado.affected) {
+            LoggerService.warn("Token de email usado concorrentemente", { tipo });
+            return null;
+        }
+
+        return registro.usuarioId;
+    }
+}
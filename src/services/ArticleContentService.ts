@@ -0,0 +1,121 @@
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { ObjectLiteral, SelectQueryBuilder } from "typeorm";
+import { Article, FormatoConteudo } from "../entities/Article";
+
+export interface ConteudoRenderizado {
+    conteudoHtml: string;
+    resumo: string;
+    tempoLeituraMinutos: number;
+}
+
+export type ArtigoDetalhado = Article & ConteudoRenderizado;
+// Objeto simples, sem o conteúdo completo e sem os métodos da entidade
+export type ArtigoResumido<T extends Article = Article> = Omit<T, "conteudo" | "atualizarStatusAgendado" | "atualizarResumo">;
+
+export class ArticleContentService {
+    static readonly PALAVRAS_POR_MINUTO = 200;
+    static readonly TAMANHO_RESUMO = 200;
+
+    // Tudo que não estiver na lista é removido, incluindo <script>, <style>, atributos on* e URLs javascript:
+    private static readonly OPCOES_SANITIZACAO: sanitizeHtml.IOptions = {
+        allowedTags: [
+            "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "blockquote", "pre", "code",
+            "ul", "ol", "li", "strong", "em", "del", "a", "img",
+            "table", "thead", "tbody", "tr", "th", "td"
+        ],
+        allowedAttributes: {
+            a: ["href", "title", "rel"],
+            img: ["src", "alt", "title"],
+            code: ["class"],
+            th: ["align"],
+            td: ["align"]
+        },
+        allowedClasses: { code: [/^language-[\w-]+$/] },
+        allowedSchemes: ["http", "https", "mailto"],
+        allowedSchemesByTag: { img: ["http", "https"] },
+        transformTags: {
+            a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer nofollow" })
+        }
+    };
+
+    static renderizar(conteudo: string, formato: FormatoConteudo): ConteudoRenderizado {
+        const conteudoHtml = this.html(conteudo, formato);
+        const texto = this.textoPuro(conteudoHtml);
+        const palavras = texto.split(" ").filter(palavra => palavra.length > 0).length;
+
+        return {
+            conteudoHtml,
+            resumo: this.resumir(texto),
+            tempoLeituraMinutos: Math.max(1, Math.ceil(palavras / this.PALAVRAS_POR_MINUTO))
+        };
+    }
+
+    static detalhar(article: Article): ArtigoDetalhado {
+        return Object.assign(article, this.renderizar(article.conteudo, article.formatoConteudo));
+    }
+
+    // Usa o resumo e o tempo de leitura gravados com o artigo, sem renderizar o conteúdo
+    static resumido<T extends Article>(article: T): ArtigoResumido<T> {
+        const resto: Partial<T> = { ...article };
+        delete resto.conteudo;
+        return resto as ArtigoResumido<T>;
+    }
+
+    // Seleciona as colunas do artigo exceto o conteúdo; deve vir antes dos joins que também selecionam
+    static semConteudo<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>): SelectQueryBuilder<T> {
+        const colunas = qb.expressionMap.mainAlias!.metadata.columns
+            .filter(coluna => coluna.propertyName !== "conteudo")
+            .map(coluna => `${qb.alias}.${coluna.propertyPath}`);
+        return qb.select(colunas);
+    }
+
+    private static html(conteudo: string, formato: FormatoConteudo): string {
+        if (formato === FormatoConteudo.MARKDOWN) {
+            return sanitizeHtml(marked.parse(conteudo, { async: false }), this.OPCOES_SANITIZACAO);
+        }
+
+        // Texto puro: parágrafos separados por linhas em branco e quebras de linha preservadas
+        return conteudo
+            .split(/\r?\n\s*\r?\n/)
+            .map(paragrafo => paragrafo.trim())
+            .filter(paragrafo => paragrafo.length > 0)
+            .map(paragrafo => `<p>${this.escapar(paragrafo)}</p>`)
+            .map(paragrafo => paragrafo.replace(/\r?\n/g, "<br />"))
+            .join("\n");
+    }
+
+    private static textoPuro(html: string): string {
+        const semTags = sanitizeHtml(html.replace(/<\/(p|h[1-6]|li|blockquote|pre|tr|td|th)>|<br\s*\/?>/gi, " "), {
+            allowedTags: [],
+            allowedAttributes: {}
+        });
+        return semTags
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, "\"")
+            .replace(/&#39;/g, "'")
+            .replace(/&amp;/g, "&")
+            .replace(/\s+/g, " ")
+            .trim();
+    }
+
+    // Corta no limite da última palavra inteira
+    private static resumir(texto: string): string {
+        if (texto.length <= this.TAMANHO_RESUMO) {
+            return texto;
+        }
+        const corte = texto.slice(0, this.TAMANHO_RESUMO + 1);
+        const ultimoEspaco = corte.lastIndexOf(" ");
+        return `${corte.slice(0, ultimoEspaco > 0 ? ultimoEspaco : this.TAMANHO_RESUMO).trimEnd()}…`;
+    }
+
+    private static escapar(texto: string): string {
+        return texto
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+}
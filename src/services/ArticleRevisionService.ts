@@ -0,0 +1,45 @@
+import { EntityManager } from "typeorm";
+import { Article } from "../entities/Article";
+import { ArticleRevision } from "../entities/ArticleRevision";
+
+export const CAMPOS_VERSIONADOS = ["titulo", "conteudo"] as const;
+
+export type CampoVersionado = typeof CAMPOS_VERSIONADOS[number];
+
+export class ArticleRevisionService {
+    static camposAlterados(article: Pick<Article, CampoVersionado>, dados: Partial<Pick<Article, CampoVersionado>>): CampoVersionado[] {
+        return CAMPOS_VERSIONADOS.filter(campo => dados[campo] !== undefined && dados[campo] !== article[campo]);
+    }
+
+    static async registrar(
+        manager: EntityManager,
+        article: Article,
+        editorId: string | null,
+        camposAlterados: string[],
+        restauradaDe: number | null = null
+    ): Promise<ArticleRevision> {
+        const repository = manager.getRepository(ArticleRevision);
+        const ultima = await repository.findOne({
+            where: { artigoId: article.id },
+            order: { numero: "DESC" }
+        });
+
+        const revisao = repository.create({
+            artigoId: article.id,
+            numero: (ultima?.numero ?? 0) + 1,
+            titulo: article.titulo,
+            conteudo: article.conteudo,
+            camposAlterados,
+            editorId,
+            restauradaDe
+        });
+        return repository.save(revisao);
+    }
+
+    static async garantirRevisaoInicial(manager: EntityManager, article: Article): Promise<void> {
+        const existentes = await manager.getRepository(ArticleRevision).count({ where: { artigoId: article.id } });
+        if (existentes === 0) {
+            await this.registrar(manager, article, article.autorId, [...CAMPOS_VERSIONADOS]);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { Brackets } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { TABELA_BUSCA_ARTIGOS } from "../database/buscaTextual";
+import { Article } from "../entities/Article";
+import { ArticleWorkflowService } from "./ArticleWorkflowService";
+import { ArticleContentService } from "./ArticleContentService";
+
+export interface ResultadoBusca {
+    artigos: (Article & { relevancia: number; trechos: { titulo: string; conteudo: string } })[];
+    total: number;
+}
+
+export class ArticleSearchService {
+    // Mantida pelos triggers criados nas migrações (veja src/database/buscaTextual.ts)
+    private static readonly TABELA = TABELA_BUSCA_ARTIGOS;
+    // O índice guarda o texto cru do artigo: o snippet marca os termos com caracteres de controle,
+    // o trecho é escapado e só então os marcadores viram <mark>, para que nenhum HTML gravado volte ativo
+    private static readonly INICIO_DESTAQUE = "\u0002";
+    private static readonly FIM_DESTAQUE = "\u0003";
+
+    static montarConsulta(termos: string): string | null {
+        const tokens = termos
+            .split(/\s+/)
+            .map(token => token.replace(/"/g, ""))
+            .filter(token => token.length > 0);
+
+        if (tokens.length === 0) {
+            return null;
+        }
+
+        return tokens.map(token => `"${token}"*`).join(" ");
+    }
+
+    static async buscar(
+        termos: string,
+        opcoes: { userId?: string; editorial: boolean; skip: number; take: number }
+    ): Promise<ResultadoBusca> {
+        const consulta = this.montarConsulta(termos);
+        if (!consulta) {
+            return { artigos: [], total: 0 };
+        }
+
+        // O conteúdo completo fica de fora: os resultados usam o resumo gravado e o trecho da busca
+        const qb = ArticleContentService.semConteudo(AppDataSource.getRepository(Article).createQueryBuilder("article"))
+            .innerJoin(this.TABELA, this.TABELA, `${this.TABELA}.article_id = article.id`)
+            .leftJoinAndSelect("article.autor", "autor")
+            .leftJoinAndSelect("article.categoria", "categoria")
+            .addSelect(`bm25(${this.TABELA}, 0, 10.0, 1.0)`, "relevancia")
+            .addSelect(`snippet(${this.TABELA}, 1, char(2), char(3), '…', 12)`, "trecho_titulo")
+            .addSelect(`snippet(${this.TABELA}, 2, char(2), char(3), '…', 24)`, "trecho_conteudo")
+            .where(`${this.TABELA} MATCH :consulta`, { consulta });
+
+        if (!opcoes.editorial) {
+            const condicoes = ArticleWorkflowService.condicoesVisiveis({}, opcoes.userId, false);
+            qb.andWhere(new Brackets(sub => {
+                condicoes.forEach(condicao => sub.orWhere(condicao));
+            }));
+        }
+
+        const total = await qb.getCount();
+        const { entities, raw } = await qb
+            .orderBy("relevancia", "ASC")
+            .offset(opcoes.skip)
+            .limit(opcoes.take)
+            .getRawAndEntities();
+
+        const artigos = entities.map((article, index) => Object.assign(article, {
+            relevancia: -Number(raw[index].relevancia),
+            trechos: {
+                titulo: this.destacar(raw[index].trecho_titulo),
+                conteudo: this.destacar(raw[index].trecho_conteudo)
+            }
+        }));
+
+        return { artigos, total };
+    }
+
+    private static destacar(trecho: string): string {
+        return this.escapar(trecho)
+            .split(this.INICIO_DESTAQUE).join("<mark>")
+            .split(this.FIM_DESTAQUE).join("</mark>");
+    }
+
+    private static escapar(texto: string): string {
+        return texto
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+}
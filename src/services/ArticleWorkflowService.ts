@@ -0,0 +1,85 @@
+import { FindOptionsWhere, LessThanOrEqual, MoreThan } from "typeorm";
+import { Article, StatusArtigo } from "../entities/Article";
+
+export type AcaoArtigo = "enviar-revisao" | "devolver" | "publicar" | "arquivar";
+
+interface Transicao {
+    de: StatusArtigo[];
+    somenteEditorial: boolean;
+}
+
+export class ArticleWorkflowService {
+    static readonly TRANSICOES: Record<AcaoArtigo, Transicao> = {
+        "enviar-revisao": { de: [StatusArtigo.RASCUNHO], somenteEditorial: false },
+        "devolver": { de: [StatusArtigo.REVISAO], somenteEditorial: true },
+        "publicar": { de: [StatusArtigo.REVISAO], somenteEditorial: true },
+        "arquivar": { de: [StatusArtigo.PUBLICADO, StatusArtigo.AGENDADO], somenteEditorial: false }
+    };
+
+    static podeTransicionar(acao: AcaoArtigo, status: StatusArtigo): boolean {
+        return this.TRANSICOES[acao].de.includes(status);
+    }
+
+    static proximoStatus(acao: AcaoArtigo, article: Article, agora: Date = new Date()): StatusArtigo {
+        switch (acao) {
+            case "enviar-revisao":
+                return StatusArtigo.REVISAO;
+            case "devolver":
+                return StatusArtigo.RASCUNHO;
+            case "publicar":
+                return new Date(article.dataPublicacao) > agora ? StatusArtigo.AGENDADO : StatusArtigo.PUBLICADO;
+            case "arquivar":
+                return StatusArtigo.ARQUIVADO;
+        }
+    }
+
+    static estaPublicado(article: Article, agora: Date = new Date()): boolean {
+        return article.status === StatusArtigo.PUBLICADO
+            || (article.status === StatusArtigo.AGENDADO && new Date(article.dataPublicacao) <= agora);
+    }
+
+    static podeVisualizar(article: Article, userId: string | undefined, editorial: boolean): boolean {
+        return editorial || article.autorId === userId || this.estaPublicado(article);
+    }
+
+    static condicoesPorStatus(
+        base: FindOptionsWhere<Article>,
+        status: StatusArtigo,
+        agora: Date = new Date()
+    ): FindOptionsWhere<Article>[] {
+        switch (status) {
+            case StatusArtigo.PUBLICADO:
+                return [
+                    { ...base, status: StatusArtigo.PUBLICADO },
+                    { ...base, status: StatusArtigo.AGENDADO, dataPublicacao: LessThanOrEqual(agora) }
+                ];
+            case StatusArtigo.AGENDADO:
+                return [{ ...base, status: StatusArtigo.AGENDADO, dataPublicacao: MoreThan(agora) }];
+            default:
+                return [{ ...base, status }];
+        }
+    }
+
+    static condicoesVisiveis(
+        base: FindOptionsWhere<Article>,
+        userId: string | undefined,
+        editorial: boolean,
+        status?: StatusArtigo,
+        agora: Date = new Date()
+    ): FindOptionsWhere<Article>[] {
+        if (editorial) {
+            return status ? this.condicoesPorStatus(base, status, agora) : [base];
+        }
+
+        const condicoes = !status || status === StatusArtigo.PUBLICADO
+            ? this.condicoesPorStatus(base, StatusArtigo.PUBLICADO, agora)
+            : [];
+
+        if (userId && (!base.autorId || base.autorId === userId)) {
+            const proprios = { ...base, autorId: userId };
+            condicoes.push(...(status ? this.condicoesPorStatus(proprios, status, agora) : [proprios]));
+        }
+
+        return condicoes;
+    }
+}
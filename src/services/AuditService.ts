@@ -0,0 +1,43 @@
+import { EntityManager, EntityTarget, ObjectLiteral } from "typeorm";
+import { AuditLog, AcaoAuditoria } from "../entities/AuditLog";
+import { WebhookService } from "./WebhookService";
+
+export interface RegistroAuditoria {
+    usuarioId?: string | null;
+    acao: AcaoAuditoria;
+    entidade: EntityTarget<ObjectLiteral>;
+    entidadeId: string;
+    antes?: object | null;
+    depois?: object | null;
+}
+
+export class AuditService {
+    private static readonly CAMPOS_OCULTOS = ["senha", "segredo"];
+
+    static snapshot(dados: object): Record<string, any> {
+        return JSON.parse(JSON.stringify(dados, (campo, valor) => this.CAMPOS_OCULTOS.includes(campo) ? undefined : valor));
+    }
+
+    // Toda alteração auditada também é publicada para os webhooks inscritos no evento correspondente
+    static async registrar(manager: EntityManager, registro: RegistroAuditoria): Promise<void> {
+        const tabela = manager.connection.getMetadata(registro.entidade).tableName;
+        const antes = registro.antes ? this.snapshot(registro.antes) : null;
+        const depois = registro.depois ? this.snapshot(registro.depois) : null;
+
+        await manager.insert(AuditLog, {
+            usuarioId: registro.usuarioId ?? null,
+            acao: registro.acao,
+            entidade: tabela,
+            entidadeId: registro.entidadeId,
+            dadosAnteriores: antes,
+            dadosNovos: depois
+        });
+        await WebhookService.enfileirar(manager, {
+            tabela,
+            acao: registro.acao,
+            entidadeId: registro.entidadeId,
+            antes,
+            depois
+        });
+    }
+}
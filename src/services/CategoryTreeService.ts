@@ -0,0 +1,50 @@
+import { EntityManager } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Category } from "../entities/Category";
+
+export type NoCategoria = Category & { subcategorias: NoCategoria[] };
+
+export class CategoryTreeService {
+    private static async carregarTodas(manager: EntityManager = AppDataSource.manager): Promise<Category[]> {
+        return manager.find(Category, { order: { nome: "ASC" } });
+    }
+
+    static async montarArvore(): Promise<NoCategoria[]> {
+        const categorias = await this.carregarTodas();
+        const nos = new Map<string, NoCategoria>(
+            categorias.map(categoria => [categoria.id, Object.assign(categoria, { subcategorias: [] as NoCategoria[] })])
+        );
+
+        const raizes: NoCategoria[] = [];
+        for (const no of nos.values()) {
+            const pai = no.categoriaPaiId ? nos.get(no.categoriaPaiId) : undefined;
+            if (pai) {
+                pai.subcategorias.push(no);
+            } else {
+                raizes.push(no);
+            }
+        }
+        return raizes;
+    }
+
+    // Dentro de uma transação, use o manager dela para enxergar as categorias alteradas nela
+    static async idsDaSubarvore(categoriaId: string, manager: EntityManager = AppDataSource.manager): Promise<string[]> {
+        const categorias = await this.carregarTodas(manager);
+        const filhos = new Map<string, string[]>();
+        for (const categoria of categorias) {
+            if (categoria.categoriaPaiId) {
+                filhos.set(categoria.categoriaPaiId, [...(filhos.get(categoria.categoriaPaiId) ?? []), categoria.id]);
+            }
+        }
+
+        const ids = [categoriaId];
+        for (let i = 0; i < ids.length; i++) {
+            ids.push(...(filhos.get(ids[i]) ?? []).filter(id => !ids.includes(id)));
+        }
+        return ids;
+    }
+
+    static async criariaCiclo(categoriaId: string, novoPaiId: string): Promise<boolean> {
+        return (await this.idsDaSubarvore(categoriaId)).includes(novoPaiId);
+    }
+}
@@ -0,0 +1,90 @@
+import { LoggerService } from "./LoggerService";
+
+export const TIPOS_FALHA = ["latencia", "erro-500", "erro-503", "json-malformado", "conexao-encerrada"] as const;
+
+export type TipoFalha = typeof TIPOS_FALHA[number];
+
+export interface RegraCaos {
+    rota: string;
+    metodo?: string;
+    falha: TipoFalha;
+    probabilidade: number;
+    latenciaMs?: number;
+}
+
+export interface ConfiguracaoCaos {
+    ativo: boolean;
+    regras: RegraCaos[];
+}
+
+export interface FalhaSorteada {
+    falha: TipoFalha;
+    latenciaMs: number;
+}
+
+export class ChaosService {
+    static readonly LATENCIA_PADRAO_MS = 2000;
+    static readonly LATENCIA_MAXIMA_MS = 30000;
+
+    private static configuracao: ConfiguracaoCaos = { ativo: false, regras: [] };
+
+    static obterConfiguracao(): ConfiguracaoCaos {
+        return this.configuracao;
+    }
+
+    static configurar(configuracao: ConfiguracaoCaos): ConfiguracaoCaos {
+        this.configuracao = configuracao;
+        LoggerService.warn("Configuração do modo caos alterada", configuracao);
+        return this.configuracao;
+    }
+
+    static ativo(): boolean {
+        return this.configuracao.ativo;
+    }
+
+    // Cenários do header X-Chaos-Scenario: "<falha>" ou "latencia:<ms>"
+    static interpretarCenario(cenario: string): FalhaSorteada | null {
+        const [falha, latencia, ...resto] = cenario.trim().toLowerCase().split(":");
+        if (resto.length > 0 || !(TIPOS_FALHA as readonly string[]).includes(falha)) {
+            return null;
+        }
+
+        if (latencia === undefined) {
+            return { falha: falha as TipoFalha, latenciaMs: this.LATENCIA_PADRAO_MS };
+        }
+
+        const latenciaMs = Number(latencia);
+        if (falha !== "latencia" || !Number.isInteger(latenciaMs) || latenciaMs < 0 || latenciaMs > this.LATENCIA_MAXIMA_MS) {
+            return null;
+        }
+        return { falha, latenciaMs };
+    }
+
+    static sortearFalha(metodo: string, caminho: string): FalhaSorteada | null {
+        for (const regra of this.configuracao.regras) {
+            if (regra.metodo && regra.metodo.toUpperCase() !== metodo.toUpperCase()) {
+                continue;
+            }
+            if (!this.padraoParaRegex(regra.rota).test(caminho)) {
+                continue;
+            }
+            if (Math.random() < regra.probabilidade) {
+                return { falha: regra.falha, latenciaMs: regra.latenciaMs ?? this.LATENCIA_PADRAO_MS };
+            }
+        }
+        return null;
+    }
+
+    private static padraoParaRegex(padrao: string): RegExp {
+        const corpo = padrao
+            .replace(/\/+$/, "")
+            .split("/")
+            .map(segmento => {
+                if (segmento === "*") return ".*";
+                if (segmento.startsWith(":")) return "[^/]+";
+                return segmento.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            })
+            .join("/");
+        return new RegExp(`^${corpo}/?$`, "i");
+    }
+}
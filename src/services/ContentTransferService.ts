@@ -0,0 +1,661 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { body, validationResult, ValidationChain } from "express-validator";
+import { EntityManager, Not } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { User, PapelUsuario } from "../entities/User";
+import { Category } from "../entities/Category";
+import { Article, FormatoConteudo, StatusArtigo } from "../entities/Article";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { AuditService } from "./AuditService";
+import { TagService } from "./TagService";
+import { ArticleRevisionService, CAMPOS_VERSIONADOS } from "./ArticleRevisionService";
+import { LoggerService } from "./LoggerService";
+import { validarSenha } from "../utils/ValidarSenha";
+import { gerarCsv, lerCsv } from "../utils/Csv";
+import { slugify } from "../utils/Slugify";
+import { config } from "../config/config";
+
+export type FormatoTransferencia = "json" | "csv" | "ndjson";
+export type EntidadeTransferencia = "usuarios" | "categorias" | "artigos";
+export type TipoRegistro = "usuario" | "categoria" | "artigo";
+export type ResultadoImportacao = "criado" | "atualizado" | "ignorado" | "falha";
+
+export const FORMATOS_TRANSFERENCIA: FormatoTransferencia[] = ["json", "csv", "ndjson"];
+
+// A ordem das entidades é a ordem de importação: artigos dependem de usuários e categorias
+const TIPOS: Record<EntidadeTransferencia, TipoRegistro> = {
+    usuarios: "usuario",
+    categorias: "categoria",
+    artigos: "artigo"
+};
+export const ENTIDADES_TRANSFERENCIA = Object.keys(TIPOS) as EntidadeTransferencia[];
+
+const COLUNAS: Record<TipoRegistro, string[]> = {
+    usuario: ["id", "nomeCompleto", "nomeUsuario", "email", "papel", "emailVerificado", "dataCriacao"],
+    categoria: ["id", "nome", "descricao", "categoriaPaiId", "nomeCategoriaPai", "dataCriacao"],
+    artigo: [
+        "id", "titulo", "conteudo", "formatoConteudo", "status", "dataPublicacao",
+        "autorId", "nomeAutor", "categoriaId", "nomeCategoria", "tags", "dataCriacao"
+    ]
+};
+
+// No CSV, listas são gravadas numa única coluna com os itens separados por este caractere
+const SEPARADOR_LISTA_CSV = "|";
+
+export type DadosExportacao = Record<EntidadeTransferencia, Record<string, any>[]>;
+
+export interface RegistroImportacao {
+    tipo: TipoRegistro | null;
+    referencia: string;
+    dados: Record<string, any>;
+    erroFormato?: string;
+}
+
+export interface ItemRelatorioImportacao {
+    referencia: string;
+    tipo: TipoRegistro | null;
+    id: string | null;
+    resultado: ResultadoImportacao;
+    erros?: string[];
+}
+
+export interface RelatorioImportacao {
+    simulacao: boolean;
+    aplicado: boolean;
+    totais: Record<ResultadoImportacao, number>;
+    registros: ItemRelatorioImportacao[];
+}
+
+// Falha esperada de um registro, informada no relatório sem interromper a importação
+class FalhaRegistro extends Error {}
+
+const VALIDADORES: Record<TipoRegistro, ValidationChain[]> = {
+    usuario: [
+        body("id").optional().isUUID().withMessage("ID inválido"),
+        body("nomeCompleto").notEmpty().withMessage("Nome completo é obrigatório"),
+        body("nomeUsuario").notEmpty().withMessage("Nome de usuário é obrigatório"),
+        body("email").isEmail().withMessage("Email inválido"),
+        validarSenha(body("senha").optional()),
+        body("papel")
+            .optional()
+            .isIn(Object.values(PapelUsuario)).withMessage(`Papel deve ser um dos valores: ${Object.values(PapelUsuario).join(", ")}`),
+        body("emailVerificado")
+            .optional()
+            .isBoolean({ strict: true }).withMessage("emailVerificado deve ser booleano"),
+        body("dataCriacao").optional().isISO8601().withMessage("Data de criação deve estar no formato ISO8601")
+    ],
+    categoria: [
+        body("id").optional().isUUID().withMessage("ID inválido"),
+        body("nome")
+            .isString().withMessage("Nome é obrigatório")
+            .bail()
+            .notEmpty().withMessage("Nome é obrigatório"),
+        body("descricao").optional({ values: "null" }).isString().withMessage("Descrição deve ser um texto"),
+        body("categoriaPaiId").optional({ values: "null" }).isUUID().withMessage("Categoria pai inválida"),
+        body("nomeCategoriaPai").optional({ values: "null" }).isString().withMessage("Nome da categoria pai deve ser um texto"),
+        body("dataCriacao").optional().isISO8601().withMessage("Data de criação deve estar no formato ISO8601")
+    ],
+    artigo: [
+        body("id").optional().isUUID().withMessage("ID inválido"),
+        body("titulo")
+            .notEmpty().withMessage("Título é obrigatório")
+            .isLength({ max: 100 }).withMessage("Título deve ter no máximo 100 caracteres"),
+        body("conteudo").notEmpty().withMessage("Conteúdo é obrigatório"),
+        body("formatoConteudo")
+            .optional()
+            .isIn(Object.values(FormatoConteudo)).withMessage(`Formato do conteúdo deve ser um dos valores: ${Object.values(FormatoConteudo).join(", ")}`),
+        body("status")
+            .optional()
+            .isIn(Object.values(StatusArtigo)).withMessage(`Status deve ser um dos valores: ${Object.values(StatusArtigo).join(", ")}`),
+        body("dataPublicacao").optional().isISO8601().withMessage("Data de publicação deve estar no formato ISO8601"),
+        body("autorId").optional().isUUID().withMessage("Autor inválido"),
+        body("nomeAutor")
+            .if(body("autorId").not().exists())
+            .notEmpty().withMessage("Informe autorId ou nomeAutor"),
+        body("categoriaId").optional().isUUID().withMessage("Categoria inválida"),
+        body("nomeCategoria")
+            .if(body("categoriaId").not().exists())
+            .notEmpty().withMessage("Informe categoriaId ou nomeCategoria"),
+        body("tags")
+            .optional()
+            .isArray({ max: 20 }).withMessage("Tags devem ser uma lista com no máximo 20 itens"),
+        body("tags.*")
+            .isString().withMessage("Cada tag deve ser um texto")
+            .bail()
+            .trim()
+            .isLength({ min: 1, max: 50 }).withMessage("Cada tag deve ter entre 1 e 50 caracteres")
+            .custom(tag => slugify(tag).length > 0).withMessage("Tag deve conter letras ou números"),
+        body("dataCriacao").optional().isISO8601().withMessage("Data de criação deve estar no formato ISO8601")
+    ]
+};
+
+export class ContentTransferService {
+    static readonly TIPOS_CONTEUDO: Record<FormatoTransferencia, string> = {
+        json: "application/json",
+        csv: "text/csv",
+        ndjson: "application/x-ndjson"
+    };
+
+    static async exportar(entidades: EntidadeTransferencia[]): Promise<DadosExportacao> {
+        const dados: DadosExportacao = { usuarios: [], categorias: [], artigos: [] };
+
+        if (entidades.includes("usuarios")) {
+            const usuarios = await AppDataSource.getRepository(User).find({ order: { dataCriacao: "ASC", id: "ASC" } });
+            dados.usuarios = usuarios.map(user => this.selecionar("usuario", user));
+        }
+
+        if (entidades.includes("categorias")) {
+            const categorias = await AppDataSource.getRepository(Category).find({ order: { dataCriacao: "ASC", id: "ASC" } });
+            const nomes = new Map(categorias.map(category => [category.id, category.nome]));
+            dados.categorias = categorias.map(category => this.selecionar("categoria", {
+                ...category,
+                nomeCategoriaPai: category.categoriaPaiId ? nomes.get(category.categoriaPaiId) : null
+            }));
+        }
+
+        if (entidades.includes("artigos")) {
+            const artigos = await AppDataSource.getRepository(Article).find({
+                relations: ["autor", "categoria", "tags"],
+                order: { dataCriacao: "ASC", id: "ASC" }
+            });
+            dados.artigos = artigos.map(article => this.selecionar("artigo", {
+                ...article,
+                nomeAutor: article.autor.nomeUsuario,
+                nomeCategoria: article.categoria.nome,
+                tags: article.tags.map(tag => tag.nome)
+            }));
+        }
+
+        return dados;
+    }
+
+    static serializar(dados: DadosExportacao, entidades: EntidadeTransferencia[], formato: FormatoTransferencia): string {
+        if (formato === "json") {
+            const conteudo: Record<string, unknown> = { exportadoEm: new Date() };
+            entidades.forEach(entidade => {
+                conteudo[entidade] = dados[entidade];
+            });
+            return JSON.stringify(conteudo, null, 2);
+        }
+
+        const registros = entidades.flatMap(entidade => dados[entidade].map(registro => ({ tipo: TIPOS[entidade], ...registro })));
+        if (formato === "ndjson") {
+            return registros.map(registro => `${JSON.stringify(registro)}\n`).join("");
+        }
+
+        // Um único CSV com a coluna "tipo" e a união das colunas das entidades exportadas
+        const colunas = ["tipo", ...new Set(entidades.flatMap(entidade => COLUNAS[TIPOS[entidade]]))];
+        return gerarCsv(colunas, registros.map(registro => {
+            const linha: Record<string, string | undefined> = {};
+            for (const [campo, valor] of Object.entries(registro) as [string, unknown][]) {
+                linha[campo] = valor === null || valor === undefined ? undefined
+                    : Array.isArray(valor) ? valor.join(SEPARADOR_LISTA_CSV)
+                    : valor instanceof Date ? valor.toISOString()
+                    : String(valor);
+            }
+            return linha;
+        }));
+    }
+
+    // Erros de estrutura do arquivo inteiro são lançados; problemas de um registro ficam em erroFormato
+    static interpretar(texto: string, formato: FormatoTransferencia): RegistroImportacao[] {
+        if (formato === "json") {
+            let conteudo: unknown;
+            try {
+                conteudo = JSON.parse(texto);
+            } catch (error) {
+                throw new Error(`JSON inválido: ${(error as Error).message}`);
+            }
+            if (typeof conteudo !== "object" || conteudo === null || Array.isArray(conteudo)) {
+                throw new Error(`O JSON deve ser um objeto com as listas ${ENTIDADES_TRANSFERENCIA.join(", ")}`);
+            }
+
+            const objeto = conteudo as Record<string, unknown>;
+            return ENTIDADES_TRANSFERENCIA.flatMap(entidade => {
+                const lista = objeto[entidade] ?? [];
+                if (!Array.isArray(lista)) {
+                    throw new Error(`${entidade} deve ser uma lista`);
+                }
+                return lista.map((dados, indice) => this.registro(TIPOS[entidade], `${entidade}[${indice}]`, dados));
+            });
+        }
+
+        if (formato === "ndjson") {
+            return texto.split(/\r?\n/)
+                .map((linha, indice) => ({ linha: linha.trim(), numero: indice + 1 }))
+                .filter(({ linha }) => linha.length > 0)
+                .map(({ linha, numero }) => {
+                    const referencia = `linha ${numero}`;
+                    try {
+                        const { tipo, ...dados } = JSON.parse(linha);
+                        return this.registro(tipo, referencia, dados);
+                    } catch (error) {
+                        return { tipo: null, referencia, dados: {}, erroFormato: `JSON inválido: ${(error as Error).message}` };
+                    }
+                });
+        }
+
+        const linhas = lerCsv(texto);
+        if (linhas.length > 0 && !("tipo" in linhas[0].valores)) {
+            throw new Error("O CSV deve ter a coluna 'tipo'");
+        }
+        return linhas.map(({ linha, valores }) => {
+            const { tipo, ...campos } = valores;
+            const dados: Record<string, unknown> = {};
+            // Colunas vazias são tratadas como ausentes
+            for (const [campo, valor] of Object.entries(campos)) {
+                if (valor === "") {
+                    continue;
+                }
+                dados[campo] = campo === "tags" ? valor.split(SEPARADOR_LISTA_CSV)
+                    : ["true", "false"].includes(valor) && campo === "emailVerificado" ? valor === "true"
+                    : valor;
+            }
+            return this.registro(tipo, `linha ${linha}`, dados);
+        });
+    }
+
+    // Tudo roda numa única transação: com simulacao ou com qualquer falha, nada é gravado
+    static async importar(
+        registros: RegistroImportacao[],
+        { simulacao, usuarioId }: { simulacao: boolean; usuarioId: string | null }
+    ): Promise<RelatorioImportacao> {
+        const itens: ItemRelatorioImportacao[] = registros.map(registro => ({
+            referencia: registro.referencia,
+            tipo: registro.tipo,
+            id: typeof registro.dados.id === "string" ? registro.dados.id : null,
+            resultado: "ignorado"
+        }));
+
+        const validos: number[] = [];
+        for (const [indice, registro] of registros.entries()) {
+            const erros = registro.erroFormato ? [registro.erroFormato] : await this.validar(registro);
+            if (erros.length > 0) {
+                itens[indice].resultado = "falha";
+                itens[indice].erros = erros;
+            } else {
+                validos.push(indice);
+            }
+        }
+
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+        let aplicado = false;
+        try {
+            const manager = queryRunner.manager;
+            const executar = async (indice: number, importar: () => Promise<{ id: string; resultado: ResultadoImportacao }>) => {
+                try {
+                    Object.assign(itens[indice], await importar());
+                } catch (error) {
+                    if (!(error instanceof FalhaRegistro)) {
+                        LoggerService.error(`Erro ao importar registro: ${registros[indice].referencia}`, error);
+                    }
+                    itens[indice].resultado = "falha";
+                    itens[indice].erros = [error instanceof FalhaRegistro ? error.message : "Erro inesperado ao importar o registro"];
+                }
+            };
+            const porTipo = (tipo: TipoRegistro) => validos.filter(indice => registros[indice].tipo === tipo);
+
+            for (const indice of porTipo("usuario")) {
+                await executar(indice, () => this.importarUsuario(manager, registros[indice].dados, usuarioId));
+            }
+
+            // Categorias cuja categoria pai ainda será importada aguardam a próxima passada
+            let pendentes = porTipo("categoria");
+            while (pendentes.length > 0) {
+                const aguardando: number[] = [];
+                for (const indice of pendentes) {
+                    const outras = pendentes.filter(outro => outro !== indice).map(outro => registros[outro].dados);
+                    if (await this.aguardaCategoriaPai(manager, registros[indice].dados, outras)) {
+                        aguardando.push(indice);
+                    } else {
+                        await executar(indice, () => this.importarCategoria(manager, registros[indice].dados, usuarioId));
+                    }
+                }
+                if (aguardando.length === pendentes.length) {
+                    for (const indice of aguardando) {
+                        itens[indice].resultado = "falha";
+                        itens[indice].erros = ["Categoria pai não encontrada ou com referência circular"];
+                    }
+                    break;
+                }
+                pendentes = aguardando;
+            }
+
+            for (const indice of porTipo("artigo")) {
+                await executar(indice, () => this.importarArtigo(manager, registros[indice].dados, usuarioId));
+            }
+
+            aplicado = !simulacao && itens.every(item => item.resultado !== "falha");
+            if (aplicado) {
+                await queryRunner.commitTransaction();
+            } else {
+                await queryRunner.rollbackTransaction();
+            }
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        const totais: Record<ResultadoImportacao, number> = { criado: 0, atualizado: 0, ignorado: 0, falha: 0 };
+        itens.forEach(item => totais[item.resultado]++);
+        LoggerService.info(aplicado ? "Importação aplicada" : "Importação não aplicada", { simulacao, totais });
+        return { simulacao, aplicado, totais, registros: itens };
+    }
+
+    private static registro(tipo: unknown, referencia: string, dados: unknown): RegistroImportacao {
+        if (typeof dados !== "object" || dados === null || Array.isArray(dados)) {
+            return { tipo: null, referencia, dados: {}, erroFormato: "Registro deve ser um objeto" };
+        }
+        if (!Object.values(TIPOS).includes(tipo as TipoRegistro)) {
+            return {
+                tipo: null,
+                referencia,
+                dados: dados as Record<string, any>,
+                erroFormato: `Tipo deve ser um dos valores: ${Object.values(TIPOS).join(", ")}`
+            };
+        }
+        return { tipo: tipo as TipoRegistro, referencia, dados: dados as Record<string, any> };
+    }
+
+    private static selecionar(tipo: TipoRegistro, origem: Record<string, any>): Record<string, any> {
+        const registro: Record<string, any> = {};
+        for (const coluna of COLUNAS[tipo]) {
+            registro[coluna] = origem[coluna] ?? null;
+        }
+        return registro;
+    }
+
+    // Reaproveita o express-validator executando as cadeias sobre um objeto no formato de uma requisição
+    private static async validar(registro: RegistroImportacao): Promise<string[]> {
+        const requisicao = { body: registro.dados };
+        for (const validador of VALIDADORES[registro.tipo!]) {
+            await validador.run(requisicao);
+        }
+        return validationResult(requisicao).array().map(erro => erro.type === "field" ? `${erro.path}: ${erro.msg}` : String(erro.msg));
+    }
+
+    private static async importarUsuario(
+        manager: EntityManager,
+        dados: Record<string, any>,
+        usuarioId: string | null
+    ): Promise<{ id: string; resultado: ResultadoImportacao }> {
+        const repository = manager.getRepository(User);
+        // Registros na lixeira também são considerados, para não duplicar nem reaproveitar identificadores reservados
+        const existente = (dados.id ? await repository.findOne({ where: { id: dados.id }, withDeleted: true }) : null)
+            ?? await repository.findOne({ where: { email: dados.email }, withDeleted: true });
+        if (existente?.dataExclusao) {
+            throw new FalhaRegistro("Usuário está na lixeira; restaure-o antes de importar");
+        }
+
+        const outro = existente ? { id: Not(existente.id) } : {};
+        if (await repository.exists({ where: { ...outro, email: dados.email }, withDeleted: true })) {
+            throw new FalhaRegistro("E-mail já está em uso");
+        }
+        if (await repository.exists({ where: { ...outro, nomeUsuario: dados.nomeUsuario }, withDeleted: true })) {
+            throw new FalhaRegistro("Nome de usuário já está em uso");
+        }
+
+        if (!existente) {
+            // Sem senha no arquivo, o usuário define uma pelo fluxo de redefinição de senha
+            const senha = dados.senha ?? crypto.randomBytes(24).toString("base64");
+            const user = repository.create({
+                ...(dados.id ? { id: dados.id } : {}),
+                nomeCompleto: dados.nomeCompleto,
+                nomeUsuario: dados.nomeUsuario,
+                email: dados.email,
+                senha: await bcrypt.hash(senha, config.bcryptCusto),
+                papel: dados.papel ?? PapelUsuario.AUTOR,
+                emailVerificado: dados.emailVerificado ?? false,
+                ...(dados.dataCriacao ? { dataCriacao: new Date(dados.dataCriacao) } : {})
+            });
+            await repository.save(user);
+            await AuditService.registrar(manager, {
+                usuarioId,
+                acao: AcaoAuditoria.CRIAR,
+                entidade: User,
+                entidadeId: user.id,
+                depois: user
+            });
+            return { id: user.id, resultado: "criado" };
+        }
+
+        const alteracoes = this.alteracoes(existente, {
+            nomeCompleto: dados.nomeCompleto,
+            nomeUsuario: dados.nomeUsuario,
+            email: dados.email,
+            papel: dados.papel,
+            emailVerificado: dados.emailVerificado
+        });
+        if (Object.keys(alteracoes).length === 0) {
+            return { id: existente.id, resultado: "ignorado" };
+        }
+
+        if (existente.papel === PapelUsuario.ADMIN && alteracoes.papel !== undefined
+            && await repository.countBy({ papel: PapelUsuario.ADMIN }) === 1) {
+            throw new FalhaRegistro("Não é possível remover o último administrador");
+        }
+
+        const antes = AuditService.snapshot(existente);
+        repository.merge(existente, alteracoes);
+        await repository.save(existente);
+        await AuditService.registrar(manager, {
+            usuarioId,
+            acao: AcaoAuditoria.ATUALIZAR,
+            entidade: User,
+            entidadeId: existente.id,
+            antes,
+            depois: existente
+        });
+        return { id: existente.id, resultado: "atualizado" };
+    }
+
+    private static async aguardaCategoriaPai(
+        manager: EntityManager,
+        dados: Record<string, any>,
+        pendentes: Record<string, any>[]
+    ): Promise<boolean> {
+        const repository = manager.getRepository(Category);
+        if (dados.categoriaPaiId) {
+            return !(await repository.existsBy({ id: dados.categoriaPaiId }))
+                && pendentes.some(outra => outra.id === dados.categoriaPaiId);
+        }
+        if (dados.nomeCategoriaPai) {
+            return !(await repository.existsBy({ nome: dados.nomeCategoriaPai }))
+                && pendentes.some(outra => outra.nome === dados.nomeCategoriaPai);
+        }
+        return false;
+    }
+
+    private static async importarCategoria(
+        manager: EntityManager,
+        dados: Record<string, any>,
+        usuarioId: string | null
+    ): Promise<{ id: string; resultado: ResultadoImportacao }> {
+        const repository = manager.getRepository(Category);
+        const existente = (dados.id ? await repository.findOne({ where: { id: dados.id }, withDeleted: true }) : null)
+            ?? await repository.findOne({ where: { nome: dados.nome }, withDeleted: true });
+        if (existente?.dataExclusao) {
+            throw new FalhaRegistro("Categoria está na lixeira; restaure-a antes de importar");
+        }
+
+        if (await repository.exists({ where: { ...(existente ? { id: Not(existente.id) } : {}), nome: dados.nome }, withDeleted: true })) {
+            throw new FalhaRegistro("Nome de categoria já existe");
+        }
+
+        // Sem categoriaPaiId nem nomeCategoriaPai, a categoria pai atual é mantida
+        let categoriaPaiId: string | null | undefined;
+        if (dados.categoriaPaiId || dados.nomeCategoriaPai) {
+            const pai = await repository.findOneBy(dados.categoriaPaiId ? { id: dados.categoriaPaiId } : { nome: dados.nomeCategoriaPai });
+            if (!pai) {
+                throw new FalhaRegistro("Categoria pai não encontrada");
+            }
+            categoriaPaiId = pai.id;
+        } else if (dados.categoriaPaiId === null || !existente) {
+            categoriaPaiId = null;
+        }
+
+        if (!existente) {
+            const category = repository.create({
+                ...(dados.id ? { id: dados.id } : {}),
+                nome: dados.nome,
+                descricao: dados.descricao ?? undefined,
+                categoriaPaiId,
+                ...(dados.dataCriacao ? { dataCriacao: new Date(dados.dataCriacao) } : {})
+            });
+            await repository.save(category);
+            await AuditService.registrar(manager, {
+                usuarioId,
+                acao: AcaoAuditoria.CRIAR,
+                entidade: Category,
+                entidadeId: category.id,
+                depois: category
+            });
+            return { id: category.id, resultado: "criado" };
+        }
+
+        const alteracoes = this.alteracoes(existente, { nome: dados.nome, descricao: dados.descricao, categoriaPaiId });
+        if (Object.keys(alteracoes).length === 0) {
+            return { id: existente.id, resultado: "ignorado" };
+        }
+
+        if (alteracoes.categoriaPaiId && await this.criariaCiclo(manager, existente.id, alteracoes.categoriaPaiId)) {
+            throw new FalhaRegistro("Categoria pai não pode ser a própria categoria nem uma de suas subcategorias");
+        }
+
+        const antes = AuditService.snapshot(existente);
+        repository.merge(existente, alteracoes);
+        await repository.save(existente);
+        await AuditService.registrar(manager, {
+            usuarioId,
+            acao: AcaoAuditoria.ATUALIZAR,
+            entidade: Category,
+            entidadeId: existente.id,
+            antes,
+            depois: existente
+        });
+        return { id: existente.id, resultado: "atualizado" };
+    }
+
+    private static async importarArtigo(
+        manager: EntityManager,
+        dados: Record<string, any>,
+        usuarioId: string | null
+    ): Promise<{ id: string; resultado: ResultadoImportacao }> {
+        const autor = await manager.findOneBy(User, dados.autorId ? { id: dados.autorId } : { nomeUsuario: dados.nomeAutor });
+        if (!autor) {
+            throw new FalhaRegistro("Autor não encontrado");
+        }
+        const categoria = await manager.findOneBy(Category, dados.categoriaId ? { id: dados.categoriaId } : { nome: dados.nomeCategoria });
+        if (!categoria) {
+            throw new FalhaRegistro("Categoria não encontrada");
+        }
+
+        const repository = manager.getRepository(Article);
+        const existente = dados.id ? await repository.findOne({ where: { id: dados.id }, relations: ["tags"], withDeleted: true }) : null;
+        if (existente?.dataExclusao) {
+            throw new FalhaRegistro("Artigo está na lixeira; restaure-o antes de importar");
+        }
+        const tags: string[] | undefined = dados.tags;
+
+        if (!existente) {
+            const article = repository.create({
+                ...(dados.id ? { id: dados.id } : {}),
+                titulo: dados.titulo,
+                conteudo: dados.conteudo,
+                formatoConteudo: dados.formatoConteudo ?? FormatoConteudo.TEXTO,
+                status: dados.status ?? StatusArtigo.RASCUNHO,
+                dataPublicacao: dados.dataPublicacao ? new Date(dados.dataPublicacao) : new Date(),
+                autorId: autor.id,
+                categoriaId: categoria.id,
+                ...(dados.dataCriacao ? { dataCriacao: new Date(dados.dataCriacao) } : {})
+            });
+            article.tags = await TagService.resolverTags(manager, tags ?? []);
+            await repository.save(article);
+            await ArticleRevisionService.registrar(manager, article, usuarioId, [...CAMPOS_VERSIONADOS]);
+            await AuditService.registrar(manager, {
+                usuarioId,
+                acao: AcaoAuditoria.CRIAR,
+                entidade: Article,
+                entidadeId: article.id,
+                depois: article
+            });
+            return { id: article.id, resultado: "criado" };
+        }
+
+        const alteracoes = this.alteracoes(existente, {
+            titulo: dados.titulo,
+            conteudo: dados.conteudo,
+            formatoConteudo: dados.formatoConteudo,
+            status: dados.status,
+            dataPublicacao: dados.dataPublicacao ? new Date(dados.dataPublicacao) : undefined,
+            autorId: autor.id,
+            categoriaId: categoria.id
+        });
+        const slugsAtuais = new Set(existente.tags.map(tag => tag.slug));
+        const slugsNovos = new Set((tags ?? []).map(slugify));
+        const tagsAlteradas = tags !== undefined
+            && (slugsAtuais.size !== slugsNovos.size || [...slugsNovos].some(slug => !slugsAtuais.has(slug)));
+
+        if (Object.keys(alteracoes).length === 0 && !tagsAlteradas) {
+            return { id: existente.id, resultado: "ignorado" };
+        }
+
+        const camposAlterados = ArticleRevisionService.camposAlterados(existente, alteracoes);
+        const antes = AuditService.snapshot(existente);
+        if (camposAlterados.length > 0) {
+            await ArticleRevisionService.garantirRevisaoInicial(manager, existente);
+        }
+        repository.merge(existente, alteracoes);
+        if (tagsAlteradas) {
+            existente.tags = await TagService.resolverTags(manager, tags!);
+        }
+        await repository.save(existente);
+        if (camposAlterados.length > 0) {
+            await ArticleRevisionService.registrar(manager, existente, usuarioId, camposAlterados);
+        }
+        await AuditService.registrar(manager, {
+            usuarioId,
+            acao: AcaoAuditoria.ATUALIZAR,
+            entidade: Article,
+            entidadeId: existente.id,
+            antes,
+            depois: existente
+        });
+        return { id: existente.id, resultado: "atualizado" };
+    }
+
+    // Campos informados que diferem do registro atual; datas são comparadas pelo instante
+    private static alteracoes<T extends object>(atual: T, novos: Partial<Record<keyof T, unknown>>): Partial<T> {
+        const alteracoes: Partial<T> = {};
+        for (const [campo, valor] of Object.entries(novos) as [keyof T, unknown][]) {
+            const anterior = atual[campo];
+            const igual = valor instanceof Date && anterior
+                ? valor.getTime() === new Date(anterior as unknown as Date).getTime()
+                : valor === anterior;
+            if (valor !== undefined && !igual) {
+                alteracoes[campo] = valor as T[keyof T];
+            }
+        }
+        return alteracoes;
+    }
+
+    // Mesma verificação do CategoryTreeService, mas dentro da transação da importação
+    private static async criariaCiclo(manager: EntityManager, categoriaId: string, novoPaiId: string): Promise<boolean> {
+        let atual: string | null = novoPaiId;
+        const visitados = new Set<string>();
+        while (atual && !visitados.has(atual)) {
+            if (atual === categoriaId) {
+                return true;
+            }
+            visitados.add(atual);
+            const category: Category | null = await manager.findOneBy(Category, { id: atual });
+            atual = category?.categoriaPaiId ?? null;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import { In } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Article, StatusArtigo } from "../entities/Article";
+import { ArticleRevision } from "../entities/ArticleRevision";
+import { ArticleWorkflowService } from "./ArticleWorkflowService";
+import { ArticleContentService } from "./ArticleContentService";
+
+export interface FiltroFeed {
+    categoriaIds?: string[];
+    autorId?: string;
+}
+
+export interface CanalFeed {
+    titulo: string;
+    descricao: string;
+    link: string;
+    linkFeed: string;
+}
+
+export interface ArtigosFeed {
+    artigos: Article[];
+    // Data da última alteração de cada artigo: a publicação ou a revisão mais recente, o que for posterior
+    atualizacoes: Map<string, Date>;
+    ultimaModificacao: Date | null;
+}
+
+export class FeedService {
+    static readonly NOME_SITE = "CMS";
+    static readonly LIMITE_ITENS = 20;
+    // Limite de URLs por arquivo definido pelo protocolo de sitemaps
+    static readonly LIMITE_SITEMAP = 50000;
+    private static readonly TAMANHO_LOTE = 500;
+
+    static linkArtigo(base: string, artigoId: string): string {
+        return `${base}/artigos/${artigoId}`;
+    }
+
+    static async publicados(filtro: FiltroFeed, limite: number): Promise<ArtigosFeed> {
+        const base = {
+            ...(filtro.categoriaIds ? { categoriaId: In(filtro.categoriaIds) } : {}),
+            ...(filtro.autorId ? { autorId: filtro.autorId } : {})
+        };
+
+        const artigos = await AppDataSource.getRepository(Article).find({
+            where: ArticleWorkflowService.condicoesPorStatus(base, StatusArtigo.PUBLICADO),
+            relations: ["autor", "categoria"],
+            order: { dataPublicacao: "DESC", id: "DESC" },
+            take: limite
+        });
+        return this.comAtualizacoes(artigos);
+    }
+
+    // O sitemap só precisa do ID e das datas, então não carrega conteúdo, autor nem categoria
+    static async publicadosSitemap(): Promise<ArtigosFeed> {
+        const artigos = await AppDataSource.getRepository(Article).find({
+            select: { id: true, dataPublicacao: true },
+            where: ArticleWorkflowService.condicoesPorStatus({}, StatusArtigo.PUBLICADO),
+            order: { dataPublicacao: "DESC", id: "DESC" },
+            take: this.LIMITE_SITEMAP
+        });
+        return this.comAtualizacoes(artigos);
+    }
+
+    private static async comAtualizacoes(artigos: Article[]): Promise<ArtigosFeed> {
+        const atualizacoes = new Map(artigos.map(article => [article.id, new Date(article.dataPublicacao)]));
+        const ids = artigos.map(article => article.id);
+        // Em lotes, para não ultrapassar o limite de parâmetros por consulta do SQLite no sitemap
+        for (let inicio = 0; inicio < ids.length; inicio += this.TAMANHO_LOTE) {
+            const revisoes: { artigoId: string; data: string }[] = await AppDataSource.getRepository(ArticleRevision)
+                .createQueryBuilder("revisao")
+                .select("revisao.artigoId", "artigoId")
+                .addSelect("MAX(revisao.dataCriacao)", "data")
+                .where("revisao.artigoId IN (:...ids)", { ids: ids.slice(inicio, inicio + this.TAMANHO_LOTE) })
+                .groupBy("revisao.artigoId")
+                .getRawMany();
+
+            for (const revisao of revisoes) {
+                // O SQLite devolve a data em UTC sem indicação de fuso
+                const data = new Date(`${revisao.data.replace(" ", "T")}Z`);
+                if (data > atualizacoes.get(revisao.artigoId)!) {
+                    atualizacoes.set(revisao.artigoId, data);
+                }
+            }
+        }
+
+        let ultimaModificacao: Date | null = null;
+        for (const data of atualizacoes.values()) {
+            if (!ultimaModificacao || data > ultimaModificacao) {
+                ultimaModificacao = data;
+            }
+        }
+        return { artigos, atualizacoes, ultimaModificacao };
+    }
+
+    // Calculada a partir das URLs e datas, para responder 304 sem gerar o XML do sitemap
+    static etagSitemap(base: string, { artigos, atualizacoes }: ArtigosFeed): string {
+        const hash = crypto.createHash("sha1").update(base);
+        for (const article of artigos) {
+            hash.update(`\n${article.id}:${atualizacoes.get(article.id)!.getTime()}`);
+        }
+        return hash.digest("hex");
+    }
+
+    static rss(canal: CanalFeed, base: string, { artigos, ultimaModificacao }: ArtigosFeed): string {
+        const itens = artigos.map(article => {
+            const link = this.linkArtigo(base, article.id);
+            const { conteudoHtml, resumo } = ArticleContentService.renderizar(article.conteudo, article.formatoConteudo);
+            return [
+                "    <item>",
+                `      <title>${this.escapar(article.titulo)}</title>`,
+                `      <link>${this.escapar(link)}</link>`,
+                `      <guid isPermaLink="true">${this.escapar(link)}</guid>`,
+                `      <pubDate>${new Date(article.dataPublicacao).toUTCString()}</pubDate>`,
+                `      <dc:creator>${this.escapar(article.autor.nomeCompleto)}</dc:creator>`,
+                `      <category>${this.escapar(article.categoria.nome)}</category>`,
+                `      <description>${this.escapar(resumo)}</description>`,
+                `      <content:encoded>${this.escapar(conteudoHtml)}</content:encoded>`,
+                "    </item>"
+            ].join("\n");
+        });
+
+        return [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<rss version=\"2.0\" xmlns:atom=\"http://www.w3.org/2005/Atom\" xmlns:content=\"http://purl.org/rss/1.0/modules/content/\" xmlns:dc=\"http://purl.org/dc/elements/1.1/\">",
+            "  <channel>",
+            `    <title>${this.escapar(canal.titulo)}</title>`,
+            `    <link>${this.escapar(canal.link)}</link>`,
+            `    <description>${this.escapar(canal.descricao)}</description>`,
+            "    <language>pt-BR</language>",
+            `    <atom:link href="${this.escapar(canal.linkFeed)}" rel="self" type="application/rss+xml" />`,
+            ...(ultimaModificacao ? [`    <lastBuildDate>${ultimaModificacao.toUTCString()}</lastBuildDate>`] : []),
+            ...itens,
+            "  </channel>",
+            "</rss>",
+            ""
+        ].join("\n");
+    }
+
+    static atom(canal: CanalFeed, base: string, { artigos, atualizacoes, ultimaModificacao }: ArtigosFeed): string {
+        const entradas = artigos.map(article => {
+            const link = this.linkArtigo(base, article.id);
+            const { conteudoHtml, resumo } = ArticleContentService.renderizar(article.conteudo, article.formatoConteudo);
+            return [
+                "  <entry>",
+                `    <id>urn:uuid:${article.id}</id>`,
+                `    <title>${this.escapar(article.titulo)}</title>`,
+                `    <link rel="alternate" href="${this.escapar(link)}" />`,
+                `    <published>${new Date(article.dataPublicacao).toISOString()}</published>`,
+                `    <updated>${atualizacoes.get(article.id)!.toISOString()}</updated>`,
+                `    <author><name>${this.escapar(article.autor.nomeCompleto)}</name></author>`,
+                `    <category term="${this.escapar(article.categoria.nome)}" />`,
+                `    <summary>${this.escapar(resumo)}</summary>`,
+                `    <content type="html">${this.escapar(conteudoHtml)}</content>`,
+                "  </entry>"
+            ].join("\n");
+        });
+
+        return [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<feed xmlns=\"http://www.w3.org/2005/Atom\" xml:lang=\"pt-BR\">",
+            `  <id>${this.escapar(canal.linkFeed)}</id>`,
+            `  <title>${this.escapar(canal.titulo)}</title>`,
+            `  <subtitle>${this.escapar(canal.descricao)}</subtitle>`,
+            `  <link rel="self" type="application/atom+xml" href="${this.escapar(canal.linkFeed)}" />`,
+            `  <link rel="alternate" href="${this.escapar(canal.link)}" />`,
+            // O elemento updated é obrigatório; um feed vazio usa a data de referência do Unix
+            `  <updated>${(ultimaModificacao ?? new Date(0)).toISOString()}</updated>`,
+            ...entradas,
+            "</feed>",
+            ""
+        ].join("\n");
+    }
+
+    static sitemap(base: string, { artigos, atualizacoes }: ArtigosFeed): string {
+        return [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<urlset xmlns=\"http://www.sitemaps.org/schemas/sitemap/0.9\">",
+            ...artigos.map(article => [
+                "  <url>",
+                `    <loc>${this.escapar(this.linkArtigo(base, article.id))}</loc>`,
+                `    <lastmod>${atualizacoes.get(article.id)!.toISOString()}</lastmod>`,
+                "  </url>"
+            ].join("\n")),
+            "</urlset>",
+            ""
+        ].join("\n");
+    }
+
+    private static escapar(texto: string): string {
+        return texto
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&apos;")
+            // Caracteres de controle não são permitidos em XML 1.0
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+    }
+}
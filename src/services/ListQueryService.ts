@@ -0,0 +1,210 @@
+import { Request } from "express";
+import { query, ValidationChain } from "express-validator";
+import { Brackets, ObjectLiteral, SelectQueryBuilder } from "typeorm";
+
+type Direcao = "ASC" | "DESC";
+
+export interface OpcoesListagem {
+    filtrosParciais?: string[];
+    filtrosExatos?: string[];
+    filtrosData?: string[];
+    camposOrdenaveis: string[];
+    ordenacaoPadrao: string;
+    camposSelecionaveis: string[];
+}
+
+export interface EnvelopeListagem<T> {
+    data: Partial<T>[];
+    total: number;
+    page: number | null;
+    lastPage: number | null;
+    limit: number;
+    nextCursor: string | null;
+}
+
+interface Cursor {
+    sort: string;
+    valor: string | number | null;
+    id: string;
+}
+
+export class ListQueryService {
+    static readonly LIMITE_PADRAO = 10;
+    static readonly LIMITE_MAXIMO = 100;
+
+    static validadores(opcoes: OpcoesListagem): ValidationChain[] {
+        return [
+            query("page")
+                .optional()
+                .isInt({ min: 1 }).withMessage("Página deve ser um inteiro positivo"),
+            query("limit")
+                .optional()
+                .isInt({ min: 1, max: this.LIMITE_MAXIMO }).withMessage(`Limite deve estar entre 1 e ${this.LIMITE_MAXIMO}`),
+            query("cursor")
+                .optional()
+                .custom((cursor, { req }) => {
+                    if (req.query?.page !== undefined) {
+                        throw new Error("Use 'page' ou 'cursor', não ambos");
+                    }
+                    const decodificado = this.decodificarCursor(String(cursor));
+                    if (!decodificado) {
+                        throw new Error("Cursor inválido");
+                    }
+                    if (decodificado.sort !== this.normalizarOrdenacao(req.query?.sort, opcoes)) {
+                        throw new Error("Cursor não corresponde à ordenação informada");
+                    }
+                    return true;
+                }),
+            query("sort")
+                .optional()
+                .custom(sort => {
+                    const [campo, direcao = "asc", ...resto] = String(sort).split(":");
+                    if (resto.length > 0 || !opcoes.camposOrdenaveis.includes(campo) || !["asc", "desc"].includes(direcao.toLowerCase())) {
+                        throw new Error(`Ordenação deve seguir o formato campo:asc|desc com um dos campos: ${opcoes.camposOrdenaveis.join(", ")}`);
+                    }
+                    return true;
+                }),
+            query("fields")
+                .optional()
+                .custom(fields => {
+                    const invalidos = String(fields).split(",").filter(campo => !opcoes.camposSelecionaveis.includes(campo));
+                    if (invalidos.length > 0) {
+                        throw new Error(`Campos inválidos: ${invalidos.join(", ")}. Permitidos: ${opcoes.camposSelecionaveis.join(", ")}`);
+                    }
+                    return true;
+                }),
+            ...(opcoes.filtrosData ?? []).flatMap(campo => [
+                query(`${campo}De`)
+                    .optional()
+                    .isISO8601().withMessage(`${campo}De deve estar no formato ISO8601`),
+                query(`${campo}Ate`)
+                    .optional()
+                    .isISO8601().withMessage(`${campo}Ate deve estar no formato ISO8601`)
+            ])
+        ];
+    }
+
+    // transformar permite trocar a representação dos itens antes da seleção de campos (fields)
+    static async listar<T extends ObjectLiteral & { id: string }, R extends ObjectLiteral = T>(
+        qb: SelectQueryBuilder<T>,
+        opcoes: OpcoesListagem,
+        params: Request["query"],
+        transformar: (item: T) => R = item => item as unknown as R
+    ): Promise<EnvelopeListagem<R>> {
+        const alias = qb.alias;
+        this.aplicarFiltros(qb, opcoes, params);
+
+        const total = await qb.getCount();
+        const limit = params.limit ? Number(params.limit) : this.LIMITE_PADRAO;
+        const sort = this.normalizarOrdenacao(params.sort, opcoes);
+        const [campo, direcao] = sort.split(":") as [string, Direcao];
+
+        const cursor = params.cursor ? this.decodificarCursor(String(params.cursor)) : null;
+        const page = cursor ? null : Number(params.page ?? 1);
+
+        if (cursor) {
+            const operador = direcao === "ASC" ? ">" : "<";
+            qb.andWhere(new Brackets(sub => {
+                sub.where(`${alias}.${campo} ${operador} :cursorValor`)
+                    .orWhere(`(${alias}.${campo} = :cursorValor AND ${alias}.id ${operador} :cursorId)`);
+            }), { cursorValor: cursor.valor, cursorId: cursor.id });
+        }
+
+        qb.orderBy(`${alias}.${campo}`, direcao)
+            .addOrderBy(`${alias}.id`, direcao)
+            .take(limit + 1);
+
+        if (page) {
+            qb.skip((page - 1) * limit);
+        }
+
+        const { entities, raw } = await qb.getRawAndEntities();
+        const itens = entities.slice(0, limit);
+        const ultimo = itens[itens.length - 1];
+
+        let nextCursor: string | null = null;
+        if (entities.length > limit && ultimo) {
+            const coluna = qb.expressionMap.mainAlias!.metadata.findColumnWithPropertyName(campo)!;
+            const linha = raw.find(registro => registro[`${alias}_id`] === ultimo.id);
+            nextCursor = this.codificarCursor({
+                sort,
+                valor: linha ? linha[`${alias}_${coluna.databaseName}`] : ultimo[campo],
+                id: ultimo.id
+            });
+        }
+
+        return {
+            data: this.selecionarCampos(itens.map(transformar), params.fields),
+            total,
+            page,
+            lastPage: page ? Math.ceil(total / limit) : null,
+            limit,
+            nextCursor
+        };
+    }
+
+    private static aplicarFiltros<T extends ObjectLiteral>(
+        qb: SelectQueryBuilder<T>,
+        opcoes: OpcoesListagem,
+        params: Request["query"]
+    ): void {
+        const alias = qb.alias;
+
+        for (const campo of opcoes.filtrosParciais ?? []) {
+            if (params[campo]) {
+                const termo = String(params[campo]).toLowerCase().replace(/[\\%_]/g, caractere => `\\${caractere}`);
+                qb.andWhere(`LOWER(${alias}.${campo}) LIKE :${campo}Filtro ESCAPE '\\'`, { [`${campo}Filtro`]: `%${termo}%` });
+            }
+        }
+
+        for (const campo of opcoes.filtrosExatos ?? []) {
+            if (params[campo]) {
+                qb.andWhere(`${alias}.${campo} = :${campo}Filtro`, { [`${campo}Filtro`]: String(params[campo]) });
+            }
+        }
+
+        for (const campo of opcoes.filtrosData ?? []) {
+            if (params[`${campo}De`]) {
+                qb.andWhere(`${alias}.${campo} >= :${campo}De`, { [`${campo}De`]: new Date(String(params[`${campo}De`])) });
+            }
+            if (params[`${campo}Ate`]) {
+                qb.andWhere(`${alias}.${campo} <= :${campo}Ate`, { [`${campo}Ate`]: new Date(String(params[`${campo}Ate`])) });
+            }
+        }
+    }
+
+    private static normalizarOrdenacao(sort: unknown, opcoes: OpcoesListagem): string {
+        const [campo, direcao = "asc"] = String(sort ?? opcoes.ordenacaoPadrao).split(":");
+        return `${campo}:${direcao.toUpperCase()}`;
+    }
+
+    private static selecionarCampos<T extends ObjectLiteral>(itens: T[], fields: unknown): Partial<T>[] {
+        if (!fields) {
+            return itens;
+        }
+        const campos = String(fields).split(",");
+        return itens.map(item => campos
+            .filter(campo => campo in item)
+            .reduce((selecionado, campo) => ({ ...selecionado, [campo]: item[campo] }), {} as Partial<T>));
+    }
+
+    private static codificarCursor(cursor: Cursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+    }
+
+    private static decodificarCursor(cursor: string): Cursor | null {
+        try {
+            const decodificado = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+            if (typeof decodificado?.sort !== "string" || typeof decodificado?.id !== "string" || !("valor" in decodificado)) {
+                return null;
+            }
+            // O valor vira parâmetro da consulta: só tipos escalares, como os gravados por codificarCursor
+            if (decodificado.valor !== null && !["string", "number"].includes(typeof decodificado.valor)) {
+                return null;
+            }
+            return decodificado;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,4 +1,6 @@
 import { formatDate } from '../utils/FormatDate';
+import { config, NivelLog } from '../config/config';
+import { RequestContextService } from './RequestContextService';
 
 export class LoggerService {
     private static readonly BLUE = '\x1b[34m';
@@ -7,18 +9,79 @@ export class LoggerService {
     private static readonly GRAY = '\x1b[90m';
     private static readonly RESET = '\x1b[0m';
 
+    private static readonly NIVEIS: Record<NivelLog, { peso: number; cor: string }> = {
+        debug: { peso: 0, cor: LoggerService.GRAY },
+        info: { peso: 1, cor: LoggerService.BLUE },
+        warn: { peso: 2, cor: LoggerService.YELLOW },
+        error: { peso: 3, cor: LoggerService.RED }
+    };
+
+    // Parâmetros de consultas (QueryFailedError) podem conter hashes de senha e tokens
+    private static readonly CHAVES_SENSIVEIS = /senha|password|secret|segredo|token|authorization|cookie|^parameters$/i;
+    private static readonly OCULTO = '[OCULTO]';
+
+    static debug(message: string, metadata?: any): void {
+        this.registrar('debug', message, metadata);
+    }
+
     static info(message: string, metadata?: any): void {
-        const timestamp = formatDate(new Date());
-        console.log(`[${this.BLUE}INFO${this.RESET}] ${this.GRAY}${timestamp}${this.RESET} - ${message}`, metadata ? metadata : '');
+        this.registrar('info', message, metadata);
     }
 
     static error(message: string, error?: any): void {
-        const timestamp = formatDate(new Date());
-        console.error(`[${this.RED}ERROR${this.RESET}] ${this.GRAY}${timestamp}${this.RESET} - ${message}`, error ? error : '');
+        this.registrar('error', message, error);
     }
 
     static warn(message: string, metadata?: any): void {
+        this.registrar('warn', message, metadata);
+    }
+
+    private static registrar(nivel: NivelLog, message: string, metadata?: any): void {
+        if (this.NIVEIS[nivel].peso < this.NIVEIS[config.log.nivel].peso) {
+            return;
+        }
+
+        const dados = metadata ? this.ocultarSensiveis(metadata) : undefined;
+        const requestId = RequestContextService.requestId();
+        const saida = nivel === 'error' ? console.error : nivel === 'warn' ? console.warn : console.log;
+
+        if (config.log.formato === 'json') {
+            saida(JSON.stringify({ timestamp: formatDate(new Date(), 'iso'), nivel, mensagem: message, requestId, dados }));
+            return;
+        }
+
         const timestamp = formatDate(new Date());
-        console.warn(`[${this.YELLOW}WARN${this.RESET}] ${this.GRAY}${timestamp}${this.RESET} - ${message}`, metadata ? metadata : '');
+        const prefixo = `[${this.NIVEIS[nivel].cor}${nivel.toUpperCase()}${this.RESET}] ${this.GRAY}${timestamp}${this.RESET}`;
+        const id = requestId ? ` ${this.GRAY}(${requestId})${this.RESET}` : '';
+        if (metadata instanceof Error) {
+            const { stack, ...resto } = dados as Record<string, unknown>;
+            saida(`${prefixo}${id} - ${message}`, resto, `\n${stack}`);
+            return;
+        }
+        saida(`${prefixo}${id} - ${message}`, dados !== undefined ? dados : '');
+    }
+
+    private static ocultarSensiveis(valor: unknown, visitados = new WeakSet<object>()): unknown {
+        if (valor === null || typeof valor !== 'object' || valor instanceof Date) {
+            return valor;
+        }
+        if (visitados.has(valor)) {
+            return '[Circular]';
+        }
+        visitados.add(valor);
+
+        if (Array.isArray(valor)) {
+            return valor.map(item => this.ocultarSensiveis(item, visitados));
+        }
+
+        const origem = valor instanceof Error
+            ? { ...valor, name: valor.name, message: valor.message, stack: valor.stack }
+            : valor;
+
+        const resultado: Record<string, unknown> = {};
+        for (const [chave, item] of Object.entries(origem)) {
+            resultado[chave] = this.CHAVES_SENSIVEIS.test(chave) ? this.OCULTO : this.ocultarSensiveis(item, visitados);
+        }
+        return resultado;
     }
-}
\ No newline at end of file
+}
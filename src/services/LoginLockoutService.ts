@@ -0,0 +1,84 @@
+import { AppDataSource } from "../database/data-source";
+import { User } from "../entities/User";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { AuditService } from "./AuditService";
+import { RateLimitService } from "./RateLimitService";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+export interface EstadoBloqueio {
+    tentativasLoginFalhas: number;
+    bloqueadoAte: Date | null;
+}
+
+export class LoginLockoutService {
+    static readonly LIMITADOR_CONTA = "login-conta";
+    private static readonly BLOQUEIO_MAXIMO_MINUTOS = 24 * 60;
+
+    private static get repository() {
+        return AppDataSource.getRepository(User);
+    }
+
+    static segundosRestantes(estado: EstadoBloqueio): number {
+        if (!estado.bloqueadoAte) {
+            return 0;
+        }
+        return Math.max(0, Math.ceil((estado.bloqueadoAte.getTime() - Date.now()) / 1000));
+    }
+
+    // A cada maxTentativas falhas seguidas a conta é bloqueada, dobrando a duração a cada novo bloqueio
+    static async registrarFalha(usuarioId: string): Promise<Date | null> {
+        await this.repository.increment({ id: usuarioId }, "tentativasLoginFalhas", 1);
+        const { tentativasLoginFalhas } = await this.estado(usuarioId);
+        const { maxTentativas, minutos } = config.bloqueioLogin;
+
+        if (maxTentativas === 0 || tentativasLoginFalhas % maxTentativas !== 0) {
+            return null;
+        }
+
+        const bloqueios = tentativasLoginFalhas / maxTentativas;
+        const duracaoMinutos = Math.min(minutos * 2 ** (bloqueios - 1), this.BLOQUEIO_MAXIMO_MINUTOS);
+        const bloqueadoAte = new Date(Date.now() + duracaoMinutos * 60 * 1000);
+
+        await this.repository.update(usuarioId, { bloqueadoAte });
+        LoggerService.warn("Conta bloqueada por excesso de tentativas de login", {
+            userId: usuarioId,
+            tentativasLoginFalhas,
+            bloqueadoAte
+        });
+        return bloqueadoAte;
+    }
+
+    static async registrarSucesso(usuarioId: string, estado: EstadoBloqueio): Promise<void> {
+        if (estado.tentativasLoginFalhas > 0 || estado.bloqueadoAte) {
+            await this.repository.update(usuarioId, { tentativasLoginFalhas: 0, bloqueadoAte: null });
+        }
+    }
+
+    static async desbloquear(usuario: User, adminId?: string): Promise<void> {
+        const antes = await this.estado(usuario.id);
+        const depois: EstadoBloqueio = { tentativasLoginFalhas: 0, bloqueadoAte: null };
+
+        await AppDataSource.transaction(async manager => {
+            await manager.update(User, usuario.id, depois);
+            await AuditService.registrar(manager, {
+                usuarioId: adminId,
+                acao: AcaoAuditoria.ATUALIZAR,
+                entidade: User,
+                entidadeId: usuario.id,
+                antes,
+                depois
+            });
+        });
+
+        RateLimitService.resetar(this.LIMITADOR_CONTA, usuario.email.toLowerCase());
+    }
+
+    static async estado(usuarioId: string): Promise<EstadoBloqueio> {
+        const usuario = await this.repository.findOneOrFail({
+            where: { id: usuarioId },
+            select: ["id", "tentativasLoginFalhas", "bloqueadoAte"]
+        });
+        return { tentativasLoginFalhas: usuario.tentativasLoginFalhas, bloqueadoAte: usuario.bloqueadoAte };
+    }
+}
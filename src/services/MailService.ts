@@ -0,0 +1,70 @@
+import { AppDataSource } from "../database/data-source";
+import { OutboxEmail } from "../entities/OutboxEmail";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+export interface MensagemEmail {
+    destinatario: string;
+    assunto: string;
+    texto: string;
+    tipo?: string;
+    dados?: Record<string, any>;
+}
+
+export interface TransporteEmail {
+    readonly nome: string;
+    enviar(remetente: string, mensagem: MensagemEmail): Promise<void>;
+}
+
+// Grava as mensagens na caixa de saída local, consultável em GET /admin/emails
+export class OutboxTransport implements TransporteEmail {
+    readonly nome = "outbox";
+
+    async enviar(remetente: string, mensagem: MensagemEmail): Promise<void> {
+        await AppDataSource.getRepository(OutboxEmail).insert({
+            remetente,
+            destinatario: mensagem.destinatario,
+            assunto: mensagem.assunto,
+            texto: mensagem.texto,
+            tipo: mensagem.tipo ?? null,
+            dados: mensagem.dados ?? null
+        });
+    }
+}
+
+// Apenas registra o envio no log, sem conteúdo, para ambientes em que nenhuma mensagem deve ser guardada
+export class LogTransport implements TransporteEmail {
+    readonly nome = "log";
+
+    async enviar(remetente: string, mensagem: MensagemEmail): Promise<void> {
+        LoggerService.info("Email descartado pelo transporte de log", {
+            remetente,
+            destinatario: mensagem.destinatario,
+            assunto: mensagem.assunto
+        });
+    }
+}
+
+export class MailService {
+    private static transporte: TransporteEmail = config.email.transporte === "log"
+        ? new LogTransport()
+        : new OutboxTransport();
+
+    static definirTransporte(transporte: TransporteEmail): void {
+        this.transporte = transporte;
+        LoggerService.info("Transporte de email definido", { transporte: transporte.nome });
+    }
+
+    static transporteAtual(): string {
+        return this.transporte.nome;
+    }
+
+    static async enviar(mensagem: MensagemEmail): Promise<void> {
+        await this.transporte.enviar(config.email.remetente, mensagem);
+        LoggerService.info("Email enviado", {
+            transporte: this.transporte.nome,
+            destinatario: mensagem.destinatario,
+            assunto: mensagem.assunto
+        });
+    }
+}
@@ -0,0 +1,129 @@
+import crypto from "crypto";
+import { In } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Media } from "../entities/Media";
+import { Article } from "../entities/Article";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { AuditService } from "./AuditService";
+import { MediaStorageService } from "./MediaStorageService";
+import { LoggerService } from "./LoggerService";
+import { detectarTipoMime, TIPOS_COM_ASSINATURA } from "../utils/DetectarTipoMime";
+import { config } from "../config/config";
+
+export interface ArquivoEnviado {
+    originalname: string;
+    mimetype: string;
+    size: number;
+    buffer: Buffer;
+}
+
+export class MediaService {
+    static tipoPermitido(tipoMime: string): boolean {
+        return config.midias.tiposPermitidos.includes(tipoMime.toLowerCase());
+    }
+
+    // O tipo declarado pelo cliente só é aceito se o conteúdo confirmar a assinatura dos formatos conhecidos
+    static tipoEfetivo(arquivo: ArquivoEnviado): string | null {
+        const declarado = arquivo.mimetype.toLowerCase();
+        const detectado = detectarTipoMime(arquivo.buffer);
+
+        if (detectado) {
+            return this.tipoPermitido(detectado) ? detectado : null;
+        }
+        return TIPOS_COM_ASSINATURA.includes(declarado) || !this.tipoPermitido(declarado) ? null : declarado;
+    }
+
+    static async criar(arquivo: ArquivoEnviado, tipoMime: string, usuarioId: string): Promise<Media> {
+        const chaveArmazenamento = crypto.randomUUID();
+        await MediaStorageService.salvar(chaveArmazenamento, arquivo.buffer);
+
+        try {
+            return await AppDataSource.transaction(async manager => {
+                const media = manager.create(Media, {
+                    nomeOriginal: arquivo.originalname,
+                    tipoMime,
+                    tamanhoBytes: arquivo.size,
+                    chaveArmazenamento,
+                    usuarioId
+                });
+                await manager.save(media);
+                await AuditService.registrar(manager, {
+                    usuarioId,
+                    acao: AcaoAuditoria.CRIAR,
+                    entidade: Media,
+                    entidadeId: media.id,
+                    depois: media
+                });
+                return media;
+            });
+        } catch (error) {
+            await MediaStorageService.remover(chaveArmazenamento);
+            throw error;
+        }
+    }
+
+    static async emUso(midiaId: string): Promise<boolean> {
+        return (await this.idsEmUso([midiaId])).length > 0;
+    }
+
+    // Mídias que não estão vinculadas a nenhum artigo nem são capa de algum artigo, inclusive os que estão na lixeira
+    static async idsOrfas(ids: string[]): Promise<string[]> {
+        const emUso = new Set(await this.idsEmUso(ids));
+        return [...new Set(ids)].filter(id => !emUso.has(id));
+    }
+
+    static async remover(midias: Media[], usuarioId?: string): Promise<void> {
+        if (midias.length === 0) {
+            return;
+        }
+
+        await AppDataSource.transaction(async manager => {
+            for (const media of midias) {
+                const antes = AuditService.snapshot(media);
+                await manager.delete(Media, media.id);
+                await AuditService.registrar(manager, {
+                    usuarioId,
+                    acao: AcaoAuditoria.EXCLUIR,
+                    entidade: Media,
+                    entidadeId: media.id,
+                    antes
+                });
+            }
+        });
+
+        for (const media of midias) {
+            await MediaStorageService.remover(media.chaveArmazenamento);
+        }
+        LoggerService.info("Mídias removidas", { ids: midias.map(media => media.id) });
+    }
+
+    static async removerOrfas(ids: string[], usuarioId?: string): Promise<number> {
+        const orfas = await this.idsOrfas(ids);
+        if (orfas.length === 0) {
+            return 0;
+        }
+
+        const midias = await AppDataSource.getRepository(Media).findBy({ id: In(orfas) });
+        await this.remover(midias, usuarioId);
+        return midias.length;
+    }
+
+    private static async idsEmUso(ids: string[]): Promise<string[]> {
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const vinculadas: { id: string }[] = await AppDataSource.createQueryBuilder()
+            .select("DISTINCT articles_media.midia_id", "id")
+            .from("articles_media", "articles_media")
+            .where("articles_media.midia_id IN (:...ids)", { ids })
+            .getRawMany();
+        const capas = await AppDataSource.getRepository(Article).find({
+            select: ["id", "capaId"],
+            where: { capaId: In(ids) },
+            withDeleted: true
+        });
+
+        return [...new Set([...vinculadas.map(linha => linha.id), ...capas.map(article => article.capaId as string)])];
+    }
+}
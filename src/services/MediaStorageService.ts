@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+export interface IntervaloBytes {
+    inicio: number;
+    fim: number;
+}
+
+export interface ArmazenamentoMidia {
+    readonly nome: string;
+    salvar(chave: string, conteudo: Buffer): Promise<void>;
+    ler(chave: string, intervalo?: IntervaloBytes): Readable;
+    remover(chave: string): Promise<void>;
+}
+
+// Guarda os arquivos em um diretório local, um arquivo por chave
+export class LocalDiskStorage implements ArmazenamentoMidia {
+    readonly nome = "disco-local";
+
+    constructor(private readonly diretorio: string) {}
+
+    async salvar(chave: string, conteudo: Buffer): Promise<void> {
+        await fs.promises.mkdir(this.diretorio, { recursive: true });
+        await fs.promises.writeFile(this.caminho(chave), conteudo, { flag: "wx" });
+    }
+
+    ler(chave: string, intervalo?: IntervaloBytes): Readable {
+        return fs.createReadStream(this.caminho(chave), intervalo ? { start: intervalo.inicio, end: intervalo.fim } : {});
+    }
+
+    async remover(chave: string): Promise<void> {
+        await fs.promises.rm(this.caminho(chave), { force: true });
+    }
+
+    // As chaves são geradas pela aplicação, mas a verificação impede que uma chave escape do diretório
+    private caminho(chave: string): string {
+        const caminho = path.resolve(this.diretorio, chave);
+        if (path.dirname(caminho) !== path.resolve(this.diretorio)) {
+            throw new Error(`Chave de armazenamento inválida: ${chave}`);
+        }
+        return caminho;
+    }
+}
+
+export class MediaStorageService {
+    private static armazenamento: ArmazenamentoMidia = new LocalDiskStorage(config.midias.diretorio);
+
+    static definirArmazenamento(armazenamento: ArmazenamentoMidia): void {
+        this.armazenamento = armazenamento;
+        LoggerService.info("Armazenamento de mídias definido", { armazenamento: armazenamento.nome });
+    }
+
+    static armazenamentoAtual(): string {
+        return this.armazenamento.nome;
+    }
+
+    static async salvar(chave: string, conteudo: Buffer): Promise<void> {
+        await this.armazenamento.salvar(chave, conteudo);
+    }
+
+    static ler(chave: string, intervalo?: IntervaloBytes): Readable {
+        return this.armazenamento.ler(chave, intervalo);
+    }
+
+    // Falhas ao remover o arquivo não devem impedir a exclusão do registro; o arquivo fica apenas órfão no armazenamento
+    static async remover(chave: string): Promise<void> {
+        try {
+            await this.armazenamento.remover(chave);
+        } catch (error) {
+            LoggerService.error("Erro ao remover arquivo de mídia do armazenamento", error);
+        }
+    }
+}
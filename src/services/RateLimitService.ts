@@ -0,0 +1,59 @@
+export interface ConsumoRateLimit {
+    permitido: boolean;
+    limite: number;
+    restante: number;
+    resetSegundos: number;
+}
+
+interface Janela {
+    total: number;
+    expiraEm: number;
+}
+
+// Contadores de janela fixa mantidos em memória: adequados para uma única instância do servidor
+export class RateLimitService {
+    private static readonly INTERVALO_LIMPEZA_MS = 60 * 1000;
+    private static readonly janelas = new Map<string, Janela>();
+    private static limpeza: NodeJS.Timeout | null = null;
+
+    static consumir(limitador: string, chave: string, limite: number, janelaSegundos: number): ConsumoRateLimit {
+        const agora = Date.now();
+        const id = `${limitador}:${chave}`;
+        let janela = this.janelas.get(id);
+
+        if (!janela || janela.expiraEm <= agora) {
+            janela = { total: 0, expiraEm: agora + janelaSegundos * 1000 };
+            this.janelas.set(id, janela);
+            this.agendarLimpeza();
+        }
+
+        janela.total++;
+
+        return {
+            permitido: janela.total <= limite,
+            limite,
+            restante: Math.max(0, limite - janela.total),
+            resetSegundos: Math.max(1, Math.ceil((janela.expiraEm - agora) / 1000))
+        };
+    }
+
+    static resetar(limitador: string, chave: string): void {
+        this.janelas.delete(`${limitador}:${chave}`);
+    }
+
+    private static agendarLimpeza(): void {
+        if (this.limpeza) {
+            return;
+        }
+
+        this.limpeza = setInterval(() => {
+            const agora = Date.now();
+            for (const [id, janela] of this.janelas) {
+                if (janela.expiraEm <= agora) {
+                    this.janelas.delete(id);
+                }
+            }
+        }, this.INTERVALO_LIMPEZA_MS);
+        this.limpeza.unref();
+    }
+}
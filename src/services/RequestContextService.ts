@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface ContextoRequisicao {
+    requestId: string;
+}
+
+export class RequestContextService {
+    private static readonly armazenamento = new AsyncLocalStorage<ContextoRequisicao>();
+
+    static executar<T>(contexto: ContextoRequisicao, callback: () => T): T {
+        return this.armazenamento.run(contexto, callback);
+    }
+
+    static requestId(): string | undefined {
+        return this.armazenamento.getStore()?.requestId;
+    }
+}
@@ -0,0 +1,309 @@
+import { EntityMetadata } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { AuditLog, AcaoAuditoria } from "../entities/AuditLog";
+import { PapelUsuario, User } from "../entities/User";
+import { AuditService } from "./AuditService";
+import { LoggerService } from "./LoggerService";
+import { config, PoliticaRetencao } from "../config/config";
+
+export interface ResultadoRetencao {
+    tabela: string;
+    politica: PoliticaRetencao;
+    totalRegistros: number;
+    candidatos: number;
+    protegidos: number;
+    removidos: number;
+    ids: string[];
+}
+
+export interface RelatorioRetencao {
+    simulacao: boolean;
+    executadoEm: Date;
+    totalRemovidos: number;
+    tabelas: ResultadoRetencao[];
+}
+
+export class RetentionService {
+    private static readonly MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+    // Tabelas dependentes vêm antes das referenciadas para que uma única execução
+    // consiga liberar, por exemplo, os artigos cujos comentários acabaram de ser removidos.
+    // Só os registros temporários são podados por padrão: conteúdo, usuários e a trilha de
+    // auditoria só são removidos se RETENCAO_POLITICAS pedir, pois a remoção é definitiva.
+    private static politicasPadrao(): Record<string, PoliticaRetencao> {
+        return {
+            comments: { desativada: true },
+            article_revisions: { desativada: true },
+            // Tokens só saem depois de expirar, conforme a validade configurada para cada tipo
+            refresh_tokens: { maxDiasIdade: config.jwt.diasRefreshToken },
+            email_tokens: {
+                maxDiasIdade: Math.ceil(Math.max(config.email.validadeVerificacaoHoras / 24, config.email.validadeRedefinicaoMinutos / (24 * 60)))
+            },
+            outbox_emails: { maxDiasIdade: 30 },
+            webhook_deliveries: { maxDiasIdade: 30 },
+            articles: { desativada: true },
+            tags: { desativada: true },
+            categories: { desativada: true },
+            users: { desativada: true }
+        };
+    }
+
+    // Tabelas em que maxRegistros vale para cada grupo, e não para a tabela inteira
+    private static readonly AGRUPAMENTOS: Record<string, string> = {
+        article_revisions: "artigoId"
+    };
+
+    private static politicas: Record<string, PoliticaRetencao> = RetentionService.politicasPadrao();
+    private static intervaloMinutos = config.retencao.intervaloMinutos;
+    private static emExecucao = false;
+    private static ultimaExecucao: RelatorioRetencao | null = null;
+
+    static carregarConfiguracao(): void {
+        const personalizadas = config.retencao.politicas;
+        const tabelas = AppDataSource.entityMetadatas.map(metadata => metadata.tableName);
+
+        for (const tabela of Object.keys(personalizadas)) {
+            if (!tabelas.includes(tabela)) {
+                throw new Error(`Política de retenção para tabela desconhecida: ${tabela}`);
+            }
+        }
+
+        this.politicas = { ...this.politicasPadrao(), ...personalizadas };
+        this.intervaloMinutos = config.retencao.intervaloMinutos;
+
+        LoggerService.info("Políticas de retenção carregadas", {
+            politicas: this.politicas,
+            intervaloMinutos: this.intervaloMinutos
+        });
+    }
+
+    static agendar(): void {
+        if (this.intervaloMinutos === 0) {
+            LoggerService.info("Execução periódica da retenção desativada");
+            return;
+        }
+
+        setInterval(() => {
+            this.executar({ simulacao: false }).catch(error => {
+                LoggerService.error("Erro na execução periódica da retenção", error);
+            });
+        }, this.intervaloMinutos * 60 * 1000).unref();
+    }
+
+    static async estadoAtual() {
+        const tabelas = [];
+        for (const metadata of this.metadatasRetidas()) {
+            tabelas.push({
+                tabela: metadata.tableName,
+                politica: this.politicaDe(metadata.tableName),
+                totalRegistros: await AppDataSource.getRepository(metadata.target).count({ withDeleted: true })
+            });
+        }
+
+        return {
+            intervaloMinutos: this.intervaloMinutos,
+            emExecucao: this.emExecucao,
+            ultimaExecucao: this.ultimaExecucao,
+            tabelas
+        };
+    }
+
+    static async executar({ simulacao, usuarioId = null }: { simulacao: boolean; usuarioId?: string | null }): Promise<RelatorioRetencao | null> {
+        if (this.emExecucao) {
+            LoggerService.warn("Execução de retenção ignorada: outra execução está em andamento");
+            return null;
+        }
+
+        this.emExecucao = true;
+        try {
+            const removidosPorTabela = new Map<string, Set<string>>();
+            const tabelas: ResultadoRetencao[] = [];
+
+            for (const metadata of this.metadatasRetidas()) {
+                const resultado = await this.aplicarPolitica(metadata, removidosPorTabela, simulacao, usuarioId);
+                removidosPorTabela.set(metadata.tableName, new Set(resultado.ids));
+                tabelas.push(resultado);
+            }
+
+            const relatorio: RelatorioRetencao = {
+                simulacao,
+                executadoEm: new Date(),
+                totalRemovidos: tabelas.reduce((total, resultado) => total + resultado.removidos, 0),
+                tabelas
+            };
+
+            if (!simulacao) {
+                this.ultimaExecucao = relatorio;
+            }
+
+            LoggerService.info(simulacao ? "Simulação de retenção concluída" : "Retenção executada com sucesso", {
+                totalRemovidos: relatorio.totalRemovidos,
+                tabelas: tabelas
+                    .filter(resultado => resultado.removidos > 0 || resultado.protegidos > 0)
+                    .map(({ tabela, removidos, protegidos }) => ({ tabela, removidos, protegidos }))
+            });
+            return relatorio;
+        } finally {
+            this.emExecucao = false;
+        }
+    }
+
+    private static metadatasRetidas(): EntityMetadata[] {
+        const ordem = Object.keys(this.politicas);
+        return AppDataSource.entityMetadatas
+            .filter(metadata => !metadata.isJunction && metadata.createDateColumn)
+            .sort((a, b) => this.posicao(ordem, a.tableName) - this.posicao(ordem, b.tableName));
+    }
+
+    private static posicao(ordem: string[], tabela: string): number {
+        const indice = ordem.indexOf(tabela);
+        return indice === -1 ? ordem.length : indice;
+    }
+
+    private static politicaDe(tabela: string): PoliticaRetencao {
+        return this.politicas[tabela] ?? { desativada: true };
+    }
+
+    private static async aplicarPolitica(
+        metadata: EntityMetadata,
+        removidosPorTabela: Map<string, Set<string>>,
+        simulacao: boolean,
+        usuarioId: string | null
+    ): Promise<ResultadoRetencao> {
+        const repository = AppDataSource.getRepository(metadata.target);
+        const politica = this.politicaDe(metadata.tableName);
+        const resultado: ResultadoRetencao = {
+            tabela: metadata.tableName,
+            politica,
+            totalRegistros: await repository.count({ withDeleted: true }),
+            candidatos: 0,
+            protegidos: 0,
+            removidos: 0,
+            ids: []
+        };
+
+        if (politica.desativada || (!politica.maxRegistros && !politica.maxDiasIdade)) {
+            return resultado;
+        }
+
+        // Itens na lixeira ainda ocupam a tabela, então contam para a política e podem ser removidos por ela
+        const colunaCriacao = `registro.${metadata.createDateColumn!.propertyName}`;
+        const qb = repository.createQueryBuilder("registro")
+            .withDeleted()
+            .orderBy(colunaCriacao, "ASC")
+            .addOrderBy("registro.id", "ASC");
+
+        qb.where("1 = 0");
+        if (politica.maxDiasIdade) {
+            qb.orWhere(`${colunaCriacao} < :limiteData`, {
+                limiteData: new Date(Date.now() - politica.maxDiasIdade * this.MS_POR_DIA)
+            });
+        }
+        if (politica.maxRegistros) {
+            const grupo = this.AGRUPAMENTOS[metadata.tableName];
+            const subconsulta = qb.subQuery()
+                .select("recente.id")
+                .from(metadata.target, "recente")
+                .withDeleted()
+                .orderBy(`recente.${metadata.createDateColumn!.propertyName}`, "DESC")
+                .addOrderBy("recente.id", "DESC")
+                .limit(politica.maxRegistros);
+            if (grupo) {
+                const coluna = metadata.findColumnWithPropertyName(grupo)!.databaseName;
+                subconsulta.where(`recente.${coluna} = registro.${coluna}`);
+            }
+            const maisRecentes = subconsulta.getQuery();
+            qb.orWhere(`registro.id NOT IN ${maisRecentes}`);
+        }
+
+        const candidatos = await qb.getMany();
+        const protegidos = await this.idsReferenciados(metadata, candidatos.map(candidato => candidato.id), removidosPorTabela);
+        if (metadata.target === User) {
+            await this.protegerUltimoAdmin(candidatos.map(candidato => candidato.id), protegidos);
+        }
+        const removiveis = candidatos.filter(candidato => !protegidos.has(candidato.id));
+
+        resultado.candidatos = candidatos.length;
+        resultado.protegidos = candidatos.length - removiveis.length;
+        resultado.removidos = removiveis.length;
+        resultado.ids = removiveis.map(registro => registro.id);
+
+        if (!simulacao && removiveis.length > 0) {
+            await AppDataSource.transaction(async manager => {
+                if (metadata.target !== AuditLog) {
+                    for (const registro of removiveis) {
+                        await AuditService.registrar(manager, {
+                            usuarioId,
+                            acao: AcaoAuditoria.EXCLUIR,
+                            entidade: metadata.target,
+                            entidadeId: registro.id,
+                            antes: registro
+                        });
+                    }
+                }
+                await manager.remove(removiveis);
+            });
+        }
+
+        return resultado;
+    }
+
+    // Um registro fica protegido enquanto houver linhas que o referenciam por chaves
+    // estrangeiras sem ON DELETE CASCADE/SET NULL e que não serão removidas nesta execução.
+    // Em tabelas de junção, o vínculo protege o lado inverso (uma tag ainda ligada a artigos)
+    // até que o dono da relação seja removido; o dono leva os próprios vínculos consigo.
+    private static async idsReferenciados(
+        metadata: EntityMetadata,
+        ids: string[],
+        removidosPorTabela: Map<string, Set<string>>
+    ): Promise<Set<string>> {
+        const referenciados = new Set<string>();
+        if (ids.length === 0) {
+            return referenciados;
+        }
+
+        for (const dependente of AppDataSource.entityMetadatas) {
+            for (const chave of dependente.foreignKeys) {
+                if (chave.referencedEntityMetadata !== metadata) {
+                    continue;
+                }
+                const dono = dependente.isJunction ? dependente.foreignKeys.find(outra => outra !== chave) : undefined;
+                const ignorada = dependente.isJunction
+                    ? dependente.ownerColumns.includes(chave.columns[0])
+                    : chave.onDelete === "CASCADE" || chave.onDelete === "SET NULL";
+                if (ignorada) {
+                    continue;
+                }
+
+                const coluna = chave.columns[0].databaseName;
+                const colunaId = dono ? dono.columns[0].databaseName : "id";
+                const removidos = removidosPorTabela.get(dono ? dono.referencedEntityMetadata.tableName : dependente.tableName) ?? new Set<string>();
+                const linhas: { id: string; referencia: string }[] = await AppDataSource
+                    .createQueryBuilder()
+                    .select(`dependente.${colunaId}`, "id")
+                    .addSelect(`dependente.${coluna}`, "referencia")
+                    .from(dependente.tableName, "dependente")
+                    .where(`dependente.${coluna} IN (:...ids)`, { ids })
+                    .getRawMany();
+
+                linhas
+                    .filter(linha => !removidos.has(linha.id))
+                    .forEach(linha => referenciados.add(linha.referencia));
+            }
+        }
+
+        return referenciados;
+    }
+
+    // A retenção nunca deixa o sistema sem um admin ativo: se todos seriam removidos, o mais recente fica
+    private static async protegerUltimoAdmin(candidatos: string[], protegidos: Set<string>): Promise<void> {
+        const removiveis = new Set(candidatos.filter(id => !protegidos.has(id)));
+        const admins = await AppDataSource.getRepository(User).find({
+            where: { papel: PapelUsuario.ADMIN },
+            order: { dataCriacao: "DESC", id: "DESC" }
+        });
+        if (admins.length > 0 && admins.every(admin => removiveis.has(admin.id))) {
+            protegidos.add(admins[0].id);
+        }
+    }
+}
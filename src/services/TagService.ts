@@ -0,0 +1,52 @@
+import { EntityManager, In } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Tag } from "../entities/Tag";
+import { slugify } from "../utils/Slugify";
+
+export type ModoFiltroTags = "any" | "all";
+
+export class TagService {
+    static async resolverTags(manager: EntityManager, nomes: string[]): Promise<Tag[]> {
+        const porSlug = new Map<string, string>();
+        for (const nome of nomes) {
+            const slug = slugify(nome);
+            if (slug && !porSlug.has(slug)) {
+                porSlug.set(slug, nome.trim());
+            }
+        }
+
+        if (porSlug.size === 0) {
+            return [];
+        }
+
+        const repository = manager.getRepository(Tag);
+        const existentes = await repository.find({ where: { slug: In([...porSlug.keys()]) } });
+        const slugsExistentes = new Set(existentes.map(tag => tag.slug));
+
+        const novas = [...porSlug.entries()]
+            .filter(([slug]) => !slugsExistentes.has(slug))
+            .map(([slug, nome]) => repository.create({ nome, slug }));
+
+        if (novas.length > 0) {
+            await repository.save(novas);
+        }
+
+        return [...existentes, ...novas];
+    }
+
+    static async idsDeArtigosComTags(slugs: string[], modo: ModoFiltroTags): Promise<string[]> {
+        const qb = AppDataSource.createQueryBuilder()
+            .select("articles_tags.artigo_id", "id")
+            .from("articles_tags", "articles_tags")
+            .innerJoin(Tag, "tag", "tag.id = articles_tags.tag_id")
+            .where("tag.slug IN (:...slugs)", { slugs })
+            .groupBy("articles_tags.artigo_id");
+
+        if (modo === "all") {
+            qb.having("COUNT(DISTINCT tag.id) = :quantidade", { quantidade: new Set(slugs).size });
+        }
+
+        const linhas: { id: string }[] = await qb.getRawMany();
+        return linhas.map(linha => linha.id);
+    }
+}
@@ -0,0 +1,271 @@
+import fs from "fs";
+import path from "path";
+import bcrypt from "bcrypt";
+import YAML from "yamljs";
+import { AppDataSource } from "../database/data-source";
+import { User, PapelUsuario } from "../entities/User";
+import { Category } from "../entities/Category";
+import { Article, FormatoConteudo, StatusArtigo } from "../entities/Article";
+import { Comment, StatusComentario } from "../entities/Comment";
+import { ArticleRevisionService, CAMPOS_VERSIONADOS } from "./ArticleRevisionService";
+import { TagService } from "./TagService";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+interface FixtureUsuario {
+    id?: string;
+    nomeCompleto: string;
+    nomeUsuario: string;
+    email: string;
+    senha: string;
+    papel?: PapelUsuario;
+    emailVerificado?: boolean;
+    dataCriacao?: string;
+}
+
+interface FixtureCategoria {
+    id?: string;
+    nome: string;
+    descricao?: string;
+    categoriaPaiId?: string | null;
+    dataCriacao?: string;
+}
+
+interface FixtureArtigo {
+    id?: string;
+    titulo: string;
+    conteudo: string;
+    formatoConteudo?: FormatoConteudo;
+    autorId: string;
+    categoriaId: string;
+    dataPublicacao?: string;
+    status?: StatusArtigo;
+    tags?: string[];
+    dataCriacao?: string;
+}
+
+interface FixtureComentario {
+    id?: string;
+    conteudo: string;
+    autorId: string;
+    artigoId: string;
+    comentarioPaiId?: string | null;
+    status?: StatusComentario;
+    dataCriacao?: string;
+}
+
+export interface Fixture {
+    usuarios?: FixtureUsuario[];
+    categorias?: FixtureCategoria[];
+    artigos?: FixtureArtigo[];
+    comentarios?: FixtureComentario[];
+}
+
+export interface ResumoFixture {
+    fixture: string;
+    usuarios: number;
+    categorias: number;
+    artigos: number;
+    comentarios: number;
+}
+
+export interface Snapshot {
+    nome: string;
+    tamanhoBytes: number;
+    dataCriacao: Date;
+}
+
+export class TestDataService {
+    static readonly DIRETORIO_FIXTURES = path.resolve(__dirname, "../../fixtures");
+    static readonly DIRETORIO_SNAPSHOTS = path.resolve(__dirname, "../../snapshots");
+    private static readonly EXTENSOES_FIXTURE = [".json", ".yaml", ".yml"];
+
+    static habilitado(): boolean {
+        return config.dadosTeste;
+    }
+
+    static async limpar(): Promise<void> {
+        await this.substituirDados(null);
+        LoggerService.info("Banco de dados limpo");
+    }
+
+    static listarFixtures(): string[] {
+        if (!fs.existsSync(this.DIRETORIO_FIXTURES)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.DIRETORIO_FIXTURES)
+            .filter(arquivo => this.EXTENSOES_FIXTURE.includes(path.extname(arquivo)))
+            .map(arquivo => path.basename(arquivo, path.extname(arquivo)))
+            .sort();
+    }
+
+    static async carregarFixture(nome: string, limparAntes = true): Promise<ResumoFixture | null> {
+        const fixture = this.lerFixture(nome);
+        if (!fixture) {
+            return null;
+        }
+
+        if (limparAntes) {
+            await this.limpar();
+        }
+
+        const usuarios = fixture.usuarios ?? [];
+        const categorias = fixture.categorias ?? [];
+        const artigos = fixture.artigos ?? [];
+        const comentarios = fixture.comentarios ?? [];
+
+        await AppDataSource.transaction(async manager => {
+            for (const dados of usuarios) {
+                await manager.save(manager.create(User, {
+                    ...dados,
+                    senha: await bcrypt.hash(dados.senha, config.bcryptCusto),
+                    emailVerificado: dados.emailVerificado ?? true,
+                    dataCriacao: this.data(dados.dataCriacao)
+                }));
+            }
+
+            for (const dados of categorias) {
+                await manager.save(manager.create(Category, {
+                    ...dados,
+                    categoriaPaiId: dados.categoriaPaiId ?? null,
+                    dataCriacao: this.data(dados.dataCriacao)
+                }));
+            }
+
+            for (const { tags = [], ...dados } of artigos) {
+                const article = manager.create(Article, {
+                    ...dados,
+                    dataPublicacao: this.data(dados.dataPublicacao) ?? new Date(),
+                    dataCriacao: this.data(dados.dataCriacao)
+                });
+                article.tags = await TagService.resolverTags(manager, tags);
+                await manager.save(article);
+                await ArticleRevisionService.registrar(manager, article, article.autorId, [...CAMPOS_VERSIONADOS]);
+            }
+
+            for (const dados of comentarios) {
+                await manager.save(manager.create(Comment, {
+                    ...dados,
+                    comentarioPaiId: dados.comentarioPaiId ?? null,
+                    dataCriacao: this.data(dados.dataCriacao)
+                }));
+            }
+        });
+
+        const resumo: ResumoFixture = {
+            fixture: nome,
+            usuarios: usuarios.length,
+            categorias: categorias.length,
+            artigos: artigos.length,
+            comentarios: comentarios.length
+        };
+        LoggerService.info("Fixture carregada com sucesso", resumo);
+        return resumo;
+    }
+
+    static listarSnapshots(): Snapshot[] {
+        if (!fs.existsSync(this.DIRETORIO_SNAPSHOTS)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.DIRETORIO_SNAPSHOTS)
+            .filter(arquivo => path.extname(arquivo) === ".sqlite")
+            .map(arquivo => {
+                const stats = fs.statSync(path.join(this.DIRETORIO_SNAPSHOTS, arquivo));
+                return {
+                    nome: path.basename(arquivo, ".sqlite"),
+                    tamanhoBytes: stats.size,
+                    dataCriacao: stats.mtime
+                };
+            })
+            .sort((a, b) => a.nome.localeCompare(b.nome));
+    }
+
+    static async criarSnapshot(nome: string): Promise<Snapshot> {
+        const arquivo = this.caminhoSnapshot(nome);
+        fs.mkdirSync(this.DIRETORIO_SNAPSHOTS, { recursive: true });
+        if (fs.existsSync(arquivo)) {
+            fs.unlinkSync(arquivo);
+        }
+
+        await AppDataSource.query("VACUUM INTO ?", [arquivo]);
+        LoggerService.info("Snapshot do banco de dados criado", { nome });
+
+        const stats = fs.statSync(arquivo);
+        return { nome, tamanhoBytes: stats.size, dataCriacao: stats.mtime };
+    }
+
+    static async restaurarSnapshot(nome: string): Promise<boolean> {
+        const arquivo = this.caminhoSnapshot(nome);
+        if (!fs.existsSync(arquivo)) {
+            return false;
+        }
+
+        await this.substituirDados(arquivo);
+        LoggerService.info("Snapshot do banco de dados restaurado", { nome });
+        return true;
+    }
+
+    private static lerFixture(nome: string): Fixture | null {
+        const extensao = this.EXTENSOES_FIXTURE.find(ext => fs.existsSync(path.join(this.DIRETORIO_FIXTURES, `${nome}${ext}`)));
+        if (!extensao) {
+            return null;
+        }
+
+        const arquivo = path.join(this.DIRETORIO_FIXTURES, `${nome}${extensao}`);
+        return extensao === ".json"
+            ? JSON.parse(fs.readFileSync(arquivo, "utf8"))
+            : YAML.load(arquivo);
+    }
+
+    private static caminhoSnapshot(nome: string): string {
+        return path.join(this.DIRETORIO_SNAPSHOTS, `${nome}.sqlite`);
+    }
+
+    private static data(valor?: string): Date | undefined {
+        return valor ? new Date(valor) : undefined;
+    }
+
+    // Apaga todas as tabelas e, se houver origem, copia o conteúdo das tabelas do banco anexado.
+    // As chaves estrangeiras precisam ser desligadas fora da transação para que a ordem não importe.
+    private static async substituirDados(origem: string | null): Promise<void> {
+        const queryRunner = AppDataSource.createQueryRunner();
+        await queryRunner.query("PRAGMA foreign_keys = OFF");
+        try {
+            if (origem) {
+                await queryRunner.query("ATTACH DATABASE ? AS origem", [origem]);
+            }
+
+            await queryRunner.startTransaction();
+            try {
+                for (const metadata of AppDataSource.entityMetadatas) {
+                    await queryRunner.query(`DELETE FROM "${metadata.tableName}"`);
+
+                    if (origem) {
+                        const [existe] = await queryRunner.query(
+                            "SELECT name FROM origem.sqlite_master WHERE type = 'table' AND name = ?",
+                            [metadata.tableName]
+                        );
+                        if (existe) {
+                            const colunas = metadata.columns.map(coluna => `"${coluna.databaseName}"`).join(", ");
+                            await queryRunner.query(
+                                `INSERT INTO main."${metadata.tableName}" (${colunas}) SELECT ${colunas} FROM origem."${metadata.tableName}"`
+                            );
+                        }
+                    }
+                }
+                await queryRunner.commitTransaction();
+            } catch (error) {
+                await queryRunner.rollbackTransaction();
+                throw error;
+            }
+        } finally {
+            if (origem) {
+                await queryRunner.query("DETACH DATABASE origem");
+            }
+            await queryRunner.query("PRAGMA foreign_keys = ON");
+            await queryRunner.release();
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { EntityManager, IsNull } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { RefreshToken } from "../entities/RefreshToken";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+export interface AccessTokenPayload {
+    id: string;
+    sid: string;
+}
+
+export interface TokensEmitidos {
+    token: string;
+    refreshToken: string;
+    refreshTokenExpiraEm: Date;
+}
+
+export class TokenService {
+
+    private static get repository() {
+        return AppDataSource.getRepository(RefreshToken);
+    }
+
+    private static hash(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
+
+    static async emitirTokens(usuarioId: string, sessaoId: string = crypto.randomUUID()): Promise<TokensEmitidos> {
+        const { tokens } = await this.gerar(usuarioId, sessaoId);
+        return tokens;
+    }
+
+    private static async gerar(usuarioId: string, sessaoId: string): Promise<{ tokens: TokensEmitidos; registro: RefreshToken }> {
+        const refreshToken = crypto.randomBytes(48).toString("hex");
+        const refreshTokenExpiraEm = new Date(Date.now() + config.jwt.diasRefreshToken * 24 * 60 * 60 * 1000);
+
+        const registro = this.repository.create({
+            tokenHash: this.hash(refreshToken),
+            usuarioId,
+            sessaoId,
+            expiraEm: refreshTokenExpiraEm,
+            revogadoEm: null,
+            substituidoPorId: null
+        });
+        await this.repository.save(registro);
+
+        const payload: AccessTokenPayload = { id: usuarioId, sid: registro.id };
+        const token = jwt.sign(payload, config.jwt.segredo, {
+            expiresIn: config.jwt.expiracaoAccessToken as SignOptions["expiresIn"]
+        });
+
+        return { tokens: { token, refreshToken, refreshTokenExpiraEm }, registro };
+    }
+
+    static verificarAccessToken(token: string): AccessTokenPayload {
+        const decoded = jwt.verify(token, config.jwt.segredo) as Partial<AccessTokenPayload>;
+        if (!decoded.id || !decoded.sid) {
+            throw new jwt.JsonWebTokenError("Token sem identificação de sessão");
+        }
+        return { id: decoded.id, sid: decoded.sid };
+    }
+
+    static async sessaoAtiva(refreshTokenId: string): Promise<boolean> {
+        const registro = await this.repository.findOne({ where: { id: refreshTokenId } });
+        return !!registro && !registro.revogadoEm && registro.expiraEm > new Date();
+    }
+
+    static async rotacionar(refreshToken: string): Promise<TokensEmitidos | null> {
+        const registro = await this.repository.findOne({ where: { tokenHash: this.hash(refreshToken) } });
+
+        if (!registro) {
+            LoggerService.warn("Refresh token desconhecido");
+            return null;
+        }
+
+        if (registro.revogadoEm) {
+            if (registro.substituidoPorId) {
+                LoggerService.warn("Reutilização de refresh token já rotacionado, revogando sessão", {
+                    usuarioId: registro.usuarioId,
+                    sessaoId: registro.sessaoId
+                });
+                await this.revogarSessao(registro.sessaoId);
+            }
+            return null;
+        }
+
+        if (registro.expiraEm <= new Date()) {
+            LoggerService.warn("Refresh token expirado", { usuarioId: registro.usuarioId, sessaoId: registro.sessaoId });
+            return null;
+        }
+
+        const resultado = await this.repository.update(
+            { id: registro.id, revogadoEm: IsNull() },
+            { revogadoEm: new Date() }
+        );
+        if (!resultado.affected) {
+            LoggerService.warn("Refresh token rotacionado concorrentemente", { sessaoId: registro.sessaoId });
+            return null;
+        }
+
+        const { tokens, registro: novoRegistro } = await this.gerar(registro.usuarioId, registro.sessaoId);
+        await this.repository.update({ id: registro.id }, { substituidoPorId: novoRegistro.id });
+
+        return tokens;
+    }
+
+    static async revogarPorId(refreshTokenId: string): Promise<void> {
+        const registro = await this.repository.findOne({ where: { id: refreshTokenId } });
+        if (registro) {
+            await this.revogarSessao(registro.sessaoId);
+        }
+    }
+
+    static async revogarSessoesDoUsuario(usuarioId: string, manager: EntityManager = AppDataSource.manager): Promise<void> {
+        await manager.update(
+            RefreshToken,
+            { usuarioId, revogadoEm: IsNull() },
+            { revogadoEm: new Date() }
+        );
+    }
+
+    static async revogarSessao(sessaoId: string): Promise<void> {
+        await this.repository.update(
+            { sessaoId, revogadoEm: IsNull() },
+            { revogadoEm: new Date() }
+        );
+    }
+}
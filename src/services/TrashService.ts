@@ -0,0 +1,159 @@
+import { EntityManager, EntityTarget, IsNull, Not, ObjectLiteral, SelectQueryBuilder } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Article } from "../entities/Article";
+import { Category } from "../entities/Category";
+import { User } from "../entities/User";
+import { Comment } from "../entities/Comment";
+import { Media } from "../entities/Media";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { AuditService } from "./AuditService";
+import { LoggerService } from "./LoggerService";
+import { MediaService } from "./MediaService";
+
+export type TipoLixeira = "artigos" | "categorias" | "usuarios";
+
+export type ItemLixeira = Article | Category | User;
+
+// A ordem é a de remoção ao esvaziar a lixeira: artigos prendem suas categorias e seus autores
+const ENTIDADES: Record<TipoLixeira, { entidade: EntityTarget<ItemLixeira>; alias: string }> = {
+    artigos: { entidade: Article, alias: "article" },
+    categorias: { entidade: Category, alias: "category" },
+    usuarios: { entidade: User, alias: "user" }
+};
+export const TIPOS_LIXEIRA = Object.keys(ENTIDADES) as TipoLixeira[];
+
+export interface ItemMantidoLixeira {
+    tipo: TipoLixeira;
+    id: string;
+    motivo: string;
+}
+
+export interface RelatorioEsvaziamento {
+    removidos: Record<TipoLixeira, number>;
+    mantidos: ItemMantidoLixeira[];
+    midiasRemovidas: number;
+}
+
+export class TrashService {
+    static consulta(tipo: TipoLixeira): SelectQueryBuilder<ItemLixeira> {
+        const { entidade, alias } = ENTIDADES[tipo];
+        return AppDataSource.getRepository(entidade)
+            .createQueryBuilder(alias)
+            .withDeleted()
+            .where(`${alias}.dataExclusao IS NOT NULL`);
+    }
+
+    static async totais(): Promise<Record<TipoLixeira, number>> {
+        const totais = {} as Record<TipoLixeira, number>;
+        for (const tipo of TIPOS_LIXEIRA) {
+            totais[tipo] = await this.consulta(tipo).getCount();
+        }
+        return totais;
+    }
+
+    static async buscar(manager: EntityManager, tipo: TipoLixeira, id: string): Promise<ItemLixeira | null> {
+        return manager.findOne(ENTIDADES[tipo].entidade, {
+            where: { id, dataExclusao: Not(IsNull()) },
+            withDeleted: true,
+            relations: tipo === "artigos" ? ["midias", "capa"] : []
+        });
+    }
+
+    // Registros ainda referenciados não podem ser removidos, mesmo que quem os referencia também esteja na lixeira
+    static async impedimento(manager: EntityManager, tipo: TipoLixeira, id: string): Promise<string | null> {
+        const contar = (entidade: EntityTarget<ObjectLiteral>, where: ObjectLiteral) => manager.count(entidade, { where, withDeleted: true });
+
+        switch (tipo) {
+            case "artigos":
+                if (await contar(Comment, { artigoId: id }) > 0) {
+                    return "Não é possível remover definitivamente artigo com comentários vinculados";
+                }
+                return null;
+            case "categorias":
+                if (await contar(Article, { categoriaId: id }) > 0) {
+                    return "Não é possível remover definitivamente categoria com artigos vinculados, inclusive na lixeira";
+                }
+                if (await contar(Category, { categoriaPaiId: id }) > 0) {
+                    return "Não é possível remover definitivamente categoria com subcategorias vinculadas, inclusive na lixeira";
+                }
+                return null;
+            case "usuarios":
+                if (await contar(Article, { autorId: id }) > 0) {
+                    return "Não é possível remover definitivamente usuário com artigos vinculados, inclusive na lixeira";
+                }
+                if (await contar(Comment, { autorId: id }) > 0) {
+                    return "Não é possível remover definitivamente usuário com comentários vinculados";
+                }
+                if (await contar(Media, { usuarioId: id }) > 0) {
+                    return "Não é possível remover definitivamente usuário com mídias vinculadas";
+                }
+                return null;
+        }
+    }
+
+    // Devolve as mídias vinculadas ao artigo removido, que podem ter ficado órfãs
+    static async expurgar(manager: EntityManager, tipo: TipoLixeira, item: ItemLixeira, usuarioId: string | null): Promise<string[]> {
+        const midias = item instanceof Article
+            ? [...item.midias, ...(item.capa ? [item.capa] : [])].map(media => media.id)
+            : [];
+
+        const { id } = item;
+        const antes = AuditService.snapshot(item);
+        await manager.remove(item);
+        await AuditService.registrar(manager, {
+            usuarioId,
+            acao: AcaoAuditoria.EXPURGAR,
+            entidade: ENTIDADES[tipo].entidade,
+            entidadeId: id,
+            antes
+        });
+        return midias;
+    }
+
+    // Itens que ainda têm vínculos continuam na lixeira e aparecem em `mantidos`
+    static async esvaziar(
+        { tipos, usuarioId, removerMidiasOrfas }: { tipos: TipoLixeira[]; usuarioId: string | null; removerMidiasOrfas: boolean }
+    ): Promise<RelatorioEsvaziamento> {
+        const relatorio: RelatorioEsvaziamento = { removidos: { artigos: 0, categorias: 0, usuarios: 0 }, mantidos: [], midiasRemovidas: 0 };
+        const midias: string[] = [];
+
+        for (const tipo of TIPOS_LIXEIRA.filter(tipo => tipos.includes(tipo))) {
+            // Subcategorias precisam sair antes das categorias pai, então repete enquanto houver progresso
+            let pendentes = (await this.consulta(tipo).select(`${ENTIDADES[tipo].alias}.id`).getMany()).map(item => item.id);
+            let mantidos: ItemMantidoLixeira[] = [];
+            while (pendentes.length > 0) {
+                mantidos = [];
+                for (const id of pendentes) {
+                    const motivo = await AppDataSource.transaction(async manager => {
+                        const item = await this.buscar(manager, tipo, id);
+                        if (!item) {
+                            return null;
+                        }
+                        const impedimento = await this.impedimento(manager, tipo, id);
+                        if (impedimento) {
+                            return impedimento;
+                        }
+                        midias.push(...await this.expurgar(manager, tipo, item, usuarioId));
+                        relatorio.removidos[tipo]++;
+                        return null;
+                    });
+                    if (motivo) {
+                        mantidos.push({ tipo, id, motivo });
+                    }
+                }
+                if (tipo !== "categorias" || mantidos.length === pendentes.length) {
+                    break;
+                }
+                pendentes = mantidos.map(item => item.id);
+            }
+            relatorio.mantidos.push(...mantidos);
+        }
+
+        if (removerMidiasOrfas) {
+            relatorio.midiasRemovidas = await MediaService.removerOrfas(midias, usuarioId ?? undefined);
+        }
+
+        LoggerService.info("Lixeira esvaziada", { removidos: relatorio.removidos, mantidos: relatorio.mantidos.length });
+        return relatorio;
+    }
+}
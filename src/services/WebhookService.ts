@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import { EntityManager, LessThanOrEqual } from "typeorm";
+import { AppDataSource } from "../database/data-source";
+import { Webhook } from "../entities/Webhook";
+import { WebhookDelivery, StatusEntrega, TentativaEntrega } from "../entities/WebhookDelivery";
+import { AcaoAuditoria } from "../entities/AuditLog";
+import { LoggerService } from "./LoggerService";
+import { config } from "../config/config";
+
+// Tabelas cujas alterações geram eventos e o prefixo usado no nome do evento
+const RECURSOS_WEBHOOK: Record<string, string> = {
+    articles: "artigo",
+    categories: "categoria",
+    users: "usuario"
+};
+
+const SUFIXOS_ACAO: Record<AcaoAuditoria, string> = {
+    [AcaoAuditoria.CRIAR]: "criado",
+    [AcaoAuditoria.ATUALIZAR]: "atualizado",
+    [AcaoAuditoria.EXCLUIR]: "excluido",
+    [AcaoAuditoria.RESTAURAR]: "restaurado",
+    [AcaoAuditoria.EXPURGAR]: "expurgado"
+};
+
+export const EVENTOS_WEBHOOK = Object.values(RECURSOS_WEBHOOK)
+    .flatMap(recurso => Object.values(SUFIXOS_ACAO).map(sufixo => `${recurso}.${sufixo}`));
+export const TODOS_EVENTOS = "*";
+
+export const HEADER_ASSINATURA = "X-Webhook-Assinatura";
+export const HEADER_TIMESTAMP = "X-Webhook-Timestamp";
+export const HEADER_EVENTO = "X-Webhook-Evento";
+export const HEADER_ENTREGA = "X-Webhook-Entrega";
+
+export interface EventoEntidade {
+    tabela: string;
+    acao: AcaoAuditoria;
+    entidadeId: string;
+    antes: Record<string, any> | null;
+    depois: Record<string, any> | null;
+}
+
+export class WebhookService {
+    static readonly LOTE_ENTREGAS = 20;
+    static readonly MAX_HISTORICO = 50;
+    private static processando = false;
+
+    static gerarSegredo(): string {
+        return crypto.randomBytes(32).toString("hex");
+    }
+
+    // A assinatura cobre o timestamp para que o destinatário possa rejeitar reenvios antigos
+    static assinar(segredo: string, timestamp: number, corpo: string): string {
+        return `sha256=${crypto.createHmac("sha256", segredo).update(`${timestamp}.${corpo}`).digest("hex")}`;
+    }
+
+    // Chamado na mesma transação da alteração: se ela for desfeita, as entregas também são
+    static async enfileirar(manager: EntityManager, evento: EventoEntidade): Promise<void> {
+        const recurso = RECURSOS_WEBHOOK[evento.tabela];
+        if (!recurso) {
+            return;
+        }
+
+        const nome = `${recurso}.${SUFIXOS_ACAO[evento.acao]}`;
+        const inscritos = (await manager.findBy(Webhook, { ativo: true }))
+            .filter(webhook => webhook.eventos.includes(nome) || webhook.eventos.includes(TODOS_EVENTOS));
+        if (inscritos.length === 0) {
+            return;
+        }
+
+        const payload: Record<string, any> = {
+            id: crypto.randomUUID(),
+            evento: nome,
+            dataOcorrencia: new Date(),
+            dados: { id: evento.entidadeId, antes: evento.antes, depois: evento.depois }
+        };
+
+        await manager.insert(WebhookDelivery, inscritos.map(webhook => ({
+            webhookId: webhook.id,
+            evento: nome,
+            payload,
+            status: StatusEntrega.PENDENTE,
+            tentativas: 0,
+            proximaTentativaEm: new Date(),
+            ultimoStatusHttp: null,
+            ultimoErro: null,
+            historico: []
+        })));
+        LoggerService.debug(`Evento de webhook enfileirado: ${nome}`, { webhooks: inscritos.length });
+    }
+
+    static agendar(): void {
+        if (config.webhooks.intervaloSegundos === 0) {
+            LoggerService.info("Envio periódico de webhooks desativado");
+            return;
+        }
+
+        setInterval(() => {
+            this.processarPendentes().catch(error => {
+                LoggerService.error("Erro no envio periódico de webhooks", error);
+            });
+        }, config.webhooks.intervaloSegundos * 1000).unref();
+    }
+
+    static async processarPendentes(): Promise<number> {
+        if (this.processando) {
+            return 0;
+        }
+
+        this.processando = true;
+        try {
+            const pendentes = await AppDataSource.getRepository(WebhookDelivery).find({
+                where: {
+                    status: StatusEntrega.PENDENTE,
+                    proximaTentativaEm: LessThanOrEqual(new Date()),
+                    webhook: { ativo: true }
+                },
+                relations: { webhook: true },
+                order: { proximaTentativaEm: "ASC" },
+                take: this.LOTE_ENTREGAS
+            });
+
+            for (const entrega of pendentes) {
+                await this.entregar(entrega, false);
+            }
+            return pendentes.length;
+        } finally {
+            this.processando = false;
+        }
+    }
+
+    // Uma tentativa manual não conta para o limite de tentativas nem altera o agendamento,
+    // mas marca a entrega como bem-sucedida se o destinatário aceitar o evento
+    static async reenviar(entrega: WebhookDelivery): Promise<WebhookDelivery> {
+        return this.entregar(entrega, true);
+    }
+
+    private static async entregar(entrega: WebhookDelivery, manual: boolean): Promise<WebhookDelivery> {
+        const webhook = await AppDataSource.getRepository(Webhook)
+            .createQueryBuilder("webhook")
+            .addSelect("webhook.segredo")
+            .where("webhook.id = :id", { id: entrega.webhookId })
+            .getOneOrFail();
+
+        const tentativa = await this.enviar(webhook, entrega, manual);
+        entrega.historico = [...entrega.historico, tentativa].slice(-this.MAX_HISTORICO);
+        entrega.ultimoStatusHttp = tentativa.statusHttp;
+        entrega.ultimoErro = tentativa.erro;
+
+        if (!tentativa.erro) {
+            entrega.status = StatusEntrega.SUCESSO;
+            entrega.proximaTentativaEm = null;
+        } else if (!manual) {
+            entrega.tentativas += 1;
+            if (entrega.tentativas >= config.webhooks.maxTentativas) {
+                entrega.status = StatusEntrega.FALHA;
+                entrega.proximaTentativaEm = null;
+            } else {
+                const esperaSegundos = config.webhooks.esperaInicialSegundos * 2 ** (entrega.tentativas - 1);
+                entrega.proximaTentativaEm = new Date(Date.now() + esperaSegundos * 1000);
+            }
+        }
+
+        await AppDataSource.getRepository(WebhookDelivery).update(entrega.id, {
+            status: entrega.status,
+            tentativas: entrega.tentativas,
+            proximaTentativaEm: entrega.proximaTentativaEm,
+            ultimoStatusHttp: entrega.ultimoStatusHttp,
+            ultimoErro: entrega.ultimoErro,
+            historico: entrega.historico
+        });
+
+        const contexto = { webhookId: webhook.id, entregaId: entrega.id, evento: entrega.evento, manual };
+        if (tentativa.erro) {
+            LoggerService.warn(`Falha na entrega de webhook: ${tentativa.erro}`, { ...contexto, status: entrega.status });
+        } else {
+            LoggerService.info("Webhook entregue com sucesso", contexto);
+        }
+        return entrega;
+    }
+
+    private static async enviar(webhook: Webhook, entrega: WebhookDelivery, manual: boolean): Promise<TentativaEntrega> {
+        const corpo = JSON.stringify(entrega.payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+        const inicio = Date.now();
+        const tentativa: TentativaEntrega = { data: new Date(), statusHttp: null, erro: null, duracaoMs: 0, manual };
+
+        try {
+            const resposta = await fetch(webhook.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "User-Agent": "cms-webhooks",
+                    [HEADER_ASSINATURA]: this.assinar(webhook.segredo, timestamp, corpo),
+                    [HEADER_TIMESTAMP]: String(timestamp),
+                    [HEADER_EVENTO]: entrega.evento,
+                    [HEADER_ENTREGA]: entrega.id
+                },
+                body: corpo,
+                redirect: "manual",
+                signal: AbortSignal.timeout(config.webhooks.timeoutSegundos * 1000)
+            });
+            await resposta.body?.cancel();
+
+            tentativa.statusHttp = resposta.status;
+            if (!resposta.ok) {
+                tentativa.erro = `Resposta HTTP ${resposta.status}`;
+            }
+        } catch (error) {
+            tentativa.erro = error instanceof Error && error.name === "TimeoutError"
+                ? `Sem resposta em ${config.webhooks.timeoutSegundos} segundos`
+                : `Erro de conexão: ${error instanceof Error ? (error as { cause?: Error }).cause?.message ?? error.message : String(error)}`;
+        }
+
+        tentativa.duracaoMs = Date.now() - inicio;
+        return tentativa;
+    }
+}
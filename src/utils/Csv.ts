@@ -0,0 +1,102 @@
+export interface LinhaCsv {
+    linha: number;
+    valores: Record<string, string>;
+}
+
+// Planilhas executam como fórmula as células que começam com estes caracteres. Na exportação elas recebem um
+// apóstrofo na frente, que a leitura remove; valores que já começam com apóstrofos seguidos deles também recebem
+// mais um, para que a volta seja exata.
+const INICIO_FORMULA = /^'*[=+\-@\t\r]/;
+
+const neutralizarFormula = (valor: string): string => INICIO_FORMULA.test(valor) ? `'${valor}` : valor;
+
+const restaurarFormula = (valor: string): string => valor.startsWith("'") && INICIO_FORMULA.test(valor) ? valor.slice(1) : valor;
+
+const escaparCampo = (bruto: string): string => {
+    const valor = neutralizarFormula(bruto);
+    return /[",\r\n]/.test(valor) || /^\s|\s$/.test(valor)
+        ? `"${valor.replace(/"/g, "\"\"")}"`
+        : valor;
+};
+
+export const gerarCsv = (colunas: string[], linhas: Record<string, string | undefined>[]): string => {
+    return [colunas, ...linhas.map(linha => colunas.map(coluna => linha[coluna] ?? ""))]
+        .map(campos => campos.map(escaparCampo).join(","))
+        .join("\r\n") + "\r\n";
+};
+
+// Segue a RFC 4180: campos entre aspas podem conter vírgulas, quebras de linha e aspas duplicadas.
+// A primeira linha é o cabeçalho; `linha` é a linha do arquivo em que cada registro começa.
+export const lerCsv = (texto: string): LinhaCsv[] => {
+    const registros: { linha: number; campos: string[] }[] = [];
+    let campos: string[] = [];
+    let campo = "";
+    let entreAspas = false;
+    let linhaAtual = 1;
+    let inicioRegistro = 1;
+
+    const fecharRegistro = () => {
+        campos.push(campo);
+        if (campos.length > 1 || campos[0] !== "") {
+            registros.push({ linha: inicioRegistro, campos });
+        }
+        campos = [];
+        campo = "";
+        inicioRegistro = linhaAtual;
+    };
+
+    const conteudo = texto.replace(/^\uFEFF/, "");
+    for (let i = 0; i < conteudo.length; i++) {
+        const caractere = conteudo[i];
+
+        if (entreAspas) {
+            if (caractere === "\"" && conteudo[i + 1] === "\"") {
+                campo += "\"";
+                i++;
+            } else if (caractere === "\"") {
+                entreAspas = false;
+            } else {
+                if (caractere === "\n") {
+                    linhaAtual++;
+                }
+                campo += caractere;
+            }
+        } else if (caractere === "\"" && campo === "") {
+            entreAspas = true;
+        } else if (caractere === ",") {
+            campos.push(campo);
+            campo = "";
+        } else if (caractere === "\n" || caractere === "\r") {
+            if (caractere === "\r" && conteudo[i + 1] === "\n") {
+                i++;
+            }
+            linhaAtual++;
+            fecharRegistro();
+        } else {
+            campo += caractere;
+        }
+    }
+    if (entreAspas) {
+        throw new Error(`CSV inválido: aspas não fechadas no registro da linha ${inicioRegistro}`);
+    }
+    if (campo !== "" || campos.length > 0) {
+        fecharRegistro();
+    }
+
+    const [cabecalho, ...linhas] = registros;
+    if (!cabecalho) {
+        return [];
+    }
+
+    const colunas = cabecalho.campos.map(coluna => coluna.trim());
+    return linhas.map(({ linha, campos: valoresLinha }) => {
+        if (valoresLinha.length !== colunas.length) {
+            throw new Error(`CSV inválido: a linha ${linha} tem ${valoresLinha.length} campos, mas o cabeçalho tem ${colunas.length}`);
+        }
+        const valores: Record<string, string> = {};
+        colunas.forEach((coluna, indice) => {
+            valores[coluna] = restaurarFormula(valoresLinha[indice]);
+        });
+        return { linha, valores };
+    });
+};
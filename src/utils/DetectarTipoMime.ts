@@ -0,0 +1,22 @@
+interface Assinatura {
+    tipo: string;
+    bytes: (number | null)[];
+}
+
+// null corresponde a qualquer byte (ex.: o tamanho do arquivo no cabeçalho RIFF do WebP)
+const ASSINATURAS: Assinatura[] = [
+    { tipo: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+    { tipo: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { tipo: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38, null, 0x61] },
+    { tipo: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+    { tipo: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }
+];
+
+export const TIPOS_COM_ASSINATURA = ASSINATURAS.map(assinatura => assinatura.tipo);
+
+export const detectarTipoMime = (conteudo: Buffer): string | null => {
+    const assinatura = ASSINATURAS.find(({ bytes }) =>
+        conteudo.length >= bytes.length && bytes.every((byte, indice) => byte === null || conteudo[indice] === byte)
+    );
+    return assinatura ? assinatura.tipo : null;
+};
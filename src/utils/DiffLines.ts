@@ -0,0 +1,68 @@
+export type TipoLinhaDiff = "igual" | "adicionada" | "removida";
+
+export interface LinhaDiff {
+    tipo: TipoLinhaDiff;
+    linha: string;
+}
+
+// A tabela do LCS cresce com o produto das linhas alteradas, então trechos maiores não são comparados
+export const MAXIMO_LINHAS_DIFF = 2000;
+
+// Retorna null quando o trecho alterado de algum dos lados excede MAXIMO_LINHAS_DIFF
+export const diffLines = (anterior: string, atual: string): LinhaDiff[] | null => {
+    const a = anterior.split("\n");
+    const b = atual.split("\n");
+
+    let inicio = 0;
+    while (inicio < a.length && inicio < b.length && a[inicio] === b[inicio]) {
+        inicio++;
+    }
+
+    let fimA = a.length;
+    let fimB = b.length;
+    while (fimA > inicio && fimB > inicio && a[fimA - 1] === b[fimB - 1]) {
+        fimA--;
+        fimB--;
+    }
+
+    if (fimA - inicio > MAXIMO_LINHAS_DIFF || fimB - inicio > MAXIMO_LINHAS_DIFF) {
+        return null;
+    }
+
+    const meioA = a.slice(inicio, fimA);
+    const meioB = b.slice(inicio, fimB);
+    const colunas = meioB.length + 1;
+    const lcs = new Uint32Array((meioA.length + 1) * colunas);
+
+    for (let i = meioA.length - 1; i >= 0; i--) {
+        for (let j = meioB.length - 1; j >= 0; j--) {
+            lcs[i * colunas + j] = meioA[i] === meioB[j]
+                ? lcs[(i + 1) * colunas + j + 1] + 1
+                : Math.max(lcs[(i + 1) * colunas + j], lcs[i * colunas + j + 1]);
+        }
+    }
+
+    const resultado: LinhaDiff[] = a.slice(0, inicio).map(linha => ({ tipo: "igual" as const, linha }));
+
+    let i = 0;
+    let j = 0;
+    while (i < meioA.length && j < meioB.length) {
+        if (meioA[i] === meioB[j]) {
+            resultado.push({ tipo: "igual", linha: meioA[i] });
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * colunas + j] >= lcs[i * colunas + j + 1]) {
+            resultado.push({ tipo: "removida", linha: meioA[i++] });
+        } else {
+            resultado.push({ tipo: "adicionada", linha: meioB[j++] });
+        }
+    }
+    while (i < meioA.length) {
+        resultado.push({ tipo: "removida", linha: meioA[i++] });
+    }
+    while (j < meioB.length) {
+        resultado.push({ tipo: "adicionada", linha: meioB[j++] });
+    }
+
+    return resultado.concat(a.slice(fimA).map(linha => ({ tipo: "igual" as const, linha })));
+};
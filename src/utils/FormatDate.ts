@@ -1,4 +1,10 @@
-export const formatDate = (date: Date): string => {
+export type FormatoData = "padrao" | "iso";
+
+export const formatDate = (date: Date, formato: FormatoData = "padrao"): string => {
+    if (formato === "iso") {
+        return date.toISOString();
+    }
+
     const dia = date.getDate().toString().padStart(2, '0');
     const mes = (date.getMonth() + 1).toString().padStart(2, '0');
     const ano = date.getFullYear();
@@ -8,4 +14,4 @@ export const formatDate = (date: Date): string => {
     const milisegundos = date.getMilliseconds().toString().padStart(3, '0');
 
     return `${dia}-${mes}-${ano} ${hora}:${minuto}:${segundo}.${milisegundos}`;
-}
\ No newline at end of file
+}
@@ -0,0 +1,6 @@
+import { ValidationChain } from "express-validator";
+
+export const validarSenha = (campo: ValidationChain): ValidationChain => campo
+    .isLength({ min: 6 }).withMessage("Senha deve ter no mínimo 6 caracteres")
+    .matches(/\d/).withMessage("Senha deve conter pelo menos um número")
+    .matches(/[A-Z]/).withMessage("Senha deve conter pelo menos uma letra maiúscula");
@@ -0,0 +1,47 @@
+import { AppDataSource } from "../src/database/data-source";
+import { AcaoAuditoria, AuditLog } from "../src/entities/AuditLog";
+import { Category } from "../src/entities/Category";
+import { AuditService } from "../src/services/AuditService";
+import { LoggerService } from "../src/services/LoggerService";
+import { RetentionService } from "../src/services/RetentionService";
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("Registro de auditoria", () => {
+    let token: string;
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        ({ token } = await autenticar("admin"));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("desfaz a alteração quando o registro de auditoria falha", async () => {
+        jest.spyOn(AuditService, "registrar").mockRejectedValueOnce(new Error("Falha ao gravar auditoria"));
+        jest.spyOn(LoggerService, "error").mockImplementation(() => undefined);
+
+        await api().post("/categorias").set("Authorization", `Bearer ${token}`).send({ nome: "Tecnologia" }).expect(500);
+
+        expect(await AppDataSource.getRepository(Category).countBy({ nome: "Tecnologia" })).toBe(0);
+    });
+
+    it("registra a alteração e a auditoria juntas", async () => {
+        const resposta = await api().post("/categorias").set("Authorization", `Bearer ${token}`).send({ nome: "Tecnologia" }).expect(201);
+
+        expect(await AppDataSource.getRepository(AuditLog).countBy({ entidadeId: resposta.body.id })).toBe(1);
+    });
+
+    it("mantém registros antigos quando não há política de retenção configurada para audit_logs", async () => {
+        const repositorio = AppDataSource.getRepository(AuditLog);
+        const antigo = await repositorio.save(repositorio.create({ acao: AcaoAuditoria.CRIAR, entidade: "Category", entidadeId: "antiga" }));
+        await repositorio.update(antigo.id, { dataCriacao: new Date("2000-01-01T00:00:00Z") });
+
+        RetentionService.carregarConfiguracao();
+        await RetentionService.executar({ simulacao: false });
+
+        expect(await repositorio.countBy({ id: antigo.id })).toBe(1);
+    });
+});
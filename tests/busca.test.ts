@@ -0,0 +1,45 @@
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("GET /artigos/busca", () => {
+    let autorizacao: string;
+
+    const buscar = (q: string) => api().get("/artigos/busca").query({ q }).set("Authorization", autorizacao).expect(200);
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        autorizacao = `Bearer ${(await autenticar("admin")).token}`;
+        await api().post("/categorias").set("Authorization", autorizacao).send({ nome: "Tecnologia" }).expect(201);
+    });
+
+    it("mantém o índice atualizado pelos triggers criados nas migrações", async () => {
+        const { body: artigo } = await api()
+            .post("/artigos")
+            .set("Authorization", autorizacao)
+            .send({ titulo: "Introdução à Automação", conteudo: "Ferramentas de testes", nomeAutor: "admin", nomeCategoria: "Tecnologia" })
+            .expect(201);
+
+        const { body } = await buscar("automacao");
+        expect(body.data.map((item: { id: string }) => item.id)).toEqual([artigo.id]);
+        expect(body).toMatchObject({ total: 1, page: 1, lastPage: 1, limit: 10, nextCursor: null });
+
+        await api().put(`/artigos/${artigo.id}`).set("Authorization", autorizacao).send({ titulo: "Guia de Integração" }).expect(200);
+        expect((await buscar("automacao")).body.total).toBe(0);
+        expect((await buscar("integracao")).body.total).toBe(1);
+
+        await api().delete(`/artigos/${artigo.id}`).set("Authorization", autorizacao).expect(204);
+        expect((await buscar("integracao")).body.total).toBe(0);
+    });
+
+    it("escapa o HTML gravado nos trechos destacados", async () => {
+        await api()
+            .post("/artigos")
+            .set("Authorization", autorizacao)
+            .send({ titulo: "Segurança <b>web</b>", conteudo: "<img src=x onerror=alert(1)> Proteção contra injeção", nomeAutor: "admin", nomeCategoria: "Tecnologia" })
+            .expect(201);
+
+        const [resultado] = (await buscar("protecao")).body.data;
+        expect(resultado.trechos.titulo).toBe("Segurança &lt;b&gt;web&lt;/b&gt;");
+        expect(resultado.trechos.conteudo).toBe("&lt;img src=x onerror=alert(1)&gt; <mark>Proteção</mark> contra injeção");
+    });
+});
@@ -0,0 +1,29 @@
+describe("Configuração", () => {
+    const carregar = (variaveis: Record<string, string>): typeof import("../src/config/config") => {
+        const originais = { ...process.env };
+        Object.assign(process.env, variaveis);
+        try {
+            let modulo!: typeof import("../src/config/config");
+            jest.isolateModules(() => {
+                modulo = require("../src/config/config");
+            });
+            return modulo;
+        } finally {
+            process.env = originais;
+        }
+    };
+
+    it("não falha ao ser importada e lista os valores inválidos", () => {
+        const { config, errosConfiguracao } = carregar({ PORT: "abc", LOG_FORMATO: "xml" });
+
+        expect(errosConfiguracao()).toEqual([
+            "PORT: deve ser um inteiro entre 1 e 65535",
+            "LOG_FORMATO: deve ser um dos valores texto, json"
+        ]);
+        expect(config.porta).toBe(3000);
+    });
+
+    it("não tem erros com os valores padrão", () => {
+        expect(carregar({}).errosConfiguracao()).toEqual([]);
+    });
+});
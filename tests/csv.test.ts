@@ -0,0 +1,26 @@
+import { gerarCsv, lerCsv } from "../src/utils/Csv";
+
+describe("Csv", () => {
+    const valores = ["=HYPERLINK(\"http://exemplo.com\")", "+1", "-1", "@SOMA(A1)", "\tcomeça com tab", "'=já escapado", "'texto", "comum"];
+
+    it("impede que células sejam interpretadas como fórmulas", () => {
+        const [, ...linhas] = gerarCsv(["valor"], valores.map(valor => ({ valor }))).trimEnd().split("\r\n");
+
+        expect(linhas).toEqual([
+            "\"'=HYPERLINK(\"\"http://exemplo.com\"\")\"",
+            "'+1",
+            "'-1",
+            "'@SOMA(A1)",
+            "'\tcomeça com tab",
+            "''=já escapado",
+            "'texto",
+            "comum"
+        ]);
+    });
+
+    it("devolve os valores originais ao ler o arquivo exportado", () => {
+        const csv = gerarCsv(["valor"], valores.map(valor => ({ valor })));
+
+        expect(lerCsv(csv).map(({ valores: linha }) => linha.valor)).toEqual(valores);
+    });
+});
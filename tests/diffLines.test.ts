@@ -0,0 +1,31 @@
+import { diffLines, MAXIMO_LINHAS_DIFF } from "../src/utils/DiffLines";
+
+describe("diffLines", () => {
+    it("marca as linhas removidas e adicionadas", () => {
+        expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+            { tipo: "igual", linha: "a" },
+            { tipo: "removida", linha: "b" },
+            { tipo: "adicionada", linha: "x" },
+            { tipo: "igual", linha: "c" }
+        ]);
+    });
+
+    it("recusa trechos alterados maiores que o limite", () => {
+        const linhas = (prefixo: string) => Array.from({ length: MAXIMO_LINHAS_DIFF + 1 }, (_, i) => `${prefixo}${i}`).join("\n");
+
+        expect(diffLines(linhas("a"), linhas("b"))).toBeNull();
+    });
+
+    it("compara textos longos quando o trecho alterado está dentro do limite", () => {
+        const anterior = Array.from({ length: MAXIMO_LINHAS_DIFF * 5 }, (_, i) => `linha ${i}`);
+        const atual = [...anterior];
+        atual[MAXIMO_LINHAS_DIFF] = "alterada";
+
+        const diff = diffLines(anterior.join("\n"), atual.join("\n"));
+
+        expect(diff?.filter(linha => linha.tipo !== "igual")).toEqual([
+            { tipo: "removida", linha: `linha ${MAXIMO_LINHAS_DIFF}` },
+            { tipo: "adicionada", linha: "alterada" }
+        ]);
+    });
+});
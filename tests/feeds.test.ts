@@ -0,0 +1,37 @@
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("GET /sitemap.xml", () => {
+    let artigoId: string;
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        const { token } = await autenticar("admin");
+        const autorizacao = `Bearer ${token}`;
+
+        await api().post("/categorias").set("Authorization", autorizacao).send({ nome: "Tecnologia" }).expect(201);
+        const artigo = await api()
+            .post("/artigos")
+            .set("Authorization", autorizacao)
+            .send({ titulo: "Publicado", conteudo: "Texto", nomeAutor: "admin", nomeCategoria: "Tecnologia", dataPublicacao: "2024-03-21T10:00:00Z" })
+            .expect(201);
+        artigoId = artigo.body.id;
+        await api().post(`/artigos/${artigoId}/enviar-revisao`).set("Authorization", autorizacao).expect(200);
+        await api().post(`/artigos/${artigoId}/publicar`).set("Authorization", autorizacao).expect(200);
+    });
+
+    it("lista os artigos publicados", async () => {
+        const resposta = await api().get("/sitemap.xml").set("Host", "cms.teste").expect(200);
+
+        expect(resposta.text).toContain(`<loc>http://cms.teste/artigos/${artigoId}</loc>`);
+        expect(resposta.headers.etag).toBeDefined();
+        // Sem URL_PUBLICA, os links vêm do header Host e a resposta não vai para caches compartilhados
+        expect(resposta.headers["cache-control"]).toBe("private, max-age=300");
+    });
+
+    it("responde 304 quando o ETag não mudou", async () => {
+        const { headers } = await api().get("/sitemap.xml").set("Host", "cms.teste").expect(200);
+
+        await api().get("/sitemap.xml").set("Host", "cms.teste").set("If-None-Match", headers.etag).expect(304);
+    });
+});
@@ -0,0 +1,64 @@
+import { AppDataSource } from "../src/database/data-source";
+import { Article } from "../src/entities/Article";
+import { Category } from "../src/entities/Category";
+import { User } from "../src/entities/User";
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("POST /importar", () => {
+    let token: string;
+
+    const importar = (arquivo: object, simulacao = false) => api()
+        .post(`/importar${simulacao ? "?simulacao=true" : ""}`)
+        .set("Authorization", `Bearer ${token}`)
+        .set("Content-Type", "application/json")
+        .send(JSON.stringify(arquivo));
+
+    const totais = async () => ({
+        usuarios: await AppDataSource.getRepository(User).count(),
+        categorias: await AppDataSource.getRepository(Category).count(),
+        artigos: await AppDataSource.getRepository(Article).count()
+    });
+
+    const arquivo = (nomeCategoriaArtigo: string) => ({
+        usuarios: [{ nomeCompleto: "Maria", nomeUsuario: "maria", email: "maria@teste.com", papel: "editor" }],
+        categorias: [{ nome: "Notícias" }],
+        artigos: [
+            { titulo: "Primeiro", conteudo: "Texto", nomeAutor: "maria", nomeCategoria: "Notícias" },
+            { titulo: "Segundo", conteudo: "Texto", nomeAutor: "maria", nomeCategoria: nomeCategoriaArtigo }
+        ]
+    });
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        ({ token } = await autenticar("admin"));
+    });
+
+    it("não grava nenhum registro quando algum deles falha", async () => {
+        const antes = await totais();
+
+        const resposta = await importar(arquivo("Inexistente")).expect(400);
+
+        expect(resposta.body.totais.falha).toBe(1);
+        expect(resposta.body.registros.find((registro: { referencia: string }) => registro.referencia === "artigos[1]"))
+            .toMatchObject({ resultado: "falha" });
+        expect(await totais()).toEqual(antes);
+    });
+
+    it("desfaz a importação simulada mesmo sem falhas", async () => {
+        const antes = await totais();
+
+        const resposta = await importar(arquivo("Notícias"), true).expect(200);
+
+        expect(resposta.body.totais.falha).toBe(0);
+        expect(await totais()).toEqual(antes);
+    });
+
+    it("grava todos os registros quando nenhum falha", async () => {
+        const antes = await totais();
+
+        await importar(arquivo("Notícias")).expect(200);
+
+        expect(await totais()).toEqual({ usuarios: antes.usuarios + 1, categorias: antes.categorias + 1, artigos: antes.artigos + 2 });
+    });
+});
@@ -0,0 +1,39 @@
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("GET /artigos", () => {
+    let autorizacao: string;
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        autorizacao = `Bearer ${(await autenticar("admin")).token}`;
+        await api().post("/categorias").set("Authorization", autorizacao).send({ nome: "Tecnologia" }).expect(201);
+    });
+
+    it("traz o resumo gravado com o artigo, sem o conteúdo completo", async () => {
+        const { body: artigo } = await api()
+            .post("/artigos")
+            .set("Authorization", autorizacao)
+            .send({ titulo: "Primeiro artigo", conteudo: "# Título\n\nTexto **inicial**", formatoConteudo: "markdown", nomeAutor: "admin", nomeCategoria: "Tecnologia" })
+            .expect(201);
+
+        await api()
+            .put(`/artigos/${artigo.id}`)
+            .set("Authorization", autorizacao)
+            .send({ conteudo: `${"palavra ".repeat(250)}final` })
+            .expect(200);
+
+        const { body } = await api().get("/artigos").set("Authorization", autorizacao).expect(200);
+        expect(body.data).toHaveLength(1);
+        expect(body.data[0].conteudo).toBeUndefined();
+        expect(body.data[0].resumo).toMatch(/^palavra palavra .*…$/);
+        expect(body.data[0].tempoLeituraMinutos).toBe(2);
+    });
+
+    it("recusa cursores com valor que não seja texto, número ou nulo", async () => {
+        const cursor = Buffer.from(JSON.stringify({ sort: "dataPublicacao:desc", valor: { $gt: "" }, id: "x" })).toString("base64url");
+
+        const { body } = await api().get("/artigos").query({ cursor }).set("Authorization", autorizacao).expect(400);
+        expect(JSON.stringify(body)).toContain("Cursor inválido");
+    });
+});
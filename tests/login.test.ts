@@ -0,0 +1,28 @@
+import { config } from "../src/config/config";
+import { api, criarUsuario, inicializarBanco, SENHA } from "./utils/api";
+
+describe("POST /auth/login", () => {
+    const login = (email: string, senha: string) => api().post("/auth/login").send({ email, senha });
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        await criarUsuario("maria");
+    });
+
+    it("responde a conta bloqueada da mesma forma que um email não cadastrado", async () => {
+        for (let tentativa = 0; tentativa < config.bloqueioLogin.maxTentativas; tentativa++) {
+            await login("maria@teste.com", "SenhaErrada1").expect(401);
+        }
+
+        const bloqueada = await login("maria@teste.com", SENHA).expect(401);
+        const inexistente = await login("ninguem@teste.com", SENHA).expect(401);
+
+        expect(bloqueada.body).toEqual(inexistente.body);
+        expect(bloqueada.headers["retry-after"]).toBeUndefined();
+    });
+
+    it("mantém o login das demais contas", async () => {
+        await login("admin@teste.com", SENHA).expect(200);
+    });
+});
@@ -0,0 +1,66 @@
+import { AppDataSource } from "../src/database/data-source";
+import { Article } from "../src/entities/Article";
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("POST /artigos/lote", () => {
+    let token: string;
+
+    const criar = (titulo: string, nomeCategoria = "Tecnologia") => ({
+        operacao: "criar",
+        dados: { titulo, conteudo: "Conteúdo do artigo", nomeAutor: "admin", nomeCategoria }
+    });
+
+    const titulos = async () => (await AppDataSource.getRepository(Article).find({ order: { titulo: "ASC" } }))
+        .map(artigo => artigo.titulo);
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        ({ token } = await autenticar("admin"));
+        await api().post("/categorias").set("Authorization", `Bearer ${token}`).send({ nome: "Tecnologia" }).expect(201);
+    });
+
+    beforeEach(async () => {
+        await AppDataSource.getRepository(Article).clear();
+    });
+
+    it("desfaz todas as operações do lote atômico quando uma falha", async () => {
+        const resposta = await api()
+            .post("/artigos/lote")
+            .set("Authorization", `Bearer ${token}`)
+            .send({ operacoes: [criar("Primeiro"), criar("Segundo", "Inexistente"), criar("Terceiro")] })
+            .expect(400);
+
+        expect(resposta.body.aplicado).toBe(false);
+        expect(resposta.body.totais).toEqual({ sucesso: 0, falha: 1, desfeitas: 2 });
+        expect(resposta.body.resultados.map((resultado: { status: number }) => resultado.status)).toEqual([409, 404, 409]);
+        for (const indice of [0, 2]) {
+            expect(resposta.body.resultados[indice]).toMatchObject({ id: null, desfeita: true });
+            expect(resposta.body.resultados[indice].resposta).toEqual({ erro: "Operação desfeita: outra operação do lote falhou" });
+        }
+        expect(await titulos()).toEqual([]);
+    });
+
+    it("aplica as operações válidas de forma independente quando o lote não é atômico", async () => {
+        const resposta = await api()
+            .post("/artigos/lote")
+            .set("Authorization", `Bearer ${token}`)
+            .send({ atomico: false, operacoes: [criar("Primeiro"), criar("Segundo", "Inexistente"), criar("Terceiro")] })
+            .expect(200);
+
+        expect(resposta.body.aplicado).toBe(false);
+        expect(resposta.body.totais).toEqual({ sucesso: 2, falha: 1, desfeitas: 0 });
+        expect(await titulos()).toEqual(["Primeiro", "Terceiro"]);
+    });
+
+    it("aplica o lote atômico quando todas as operações têm sucesso", async () => {
+        const resposta = await api()
+            .post("/artigos/lote")
+            .set("Authorization", `Bearer ${token}`)
+            .send({ operacoes: [criar("Primeiro"), criar("Segundo")] })
+            .expect(200);
+
+        expect(resposta.body.aplicado).toBe(true);
+        expect(await titulos()).toEqual(["Primeiro", "Segundo"]);
+    });
+});
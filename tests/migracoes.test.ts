@@ -0,0 +1,70 @@
+import bcrypt from "bcrypt";
+import { DataSource } from "typeorm";
+import { AppDataSource } from "../src/database/data-source";
+import { api, SENHA } from "./utils/api";
+
+// Esquema criado pelo synchronize antes das migrações, apenas com usuários, categorias e artigos
+const ESQUEMA_ORIGINAL = [
+    `CREATE TABLE "users" ("id" varchar PRIMARY KEY NOT NULL, "nome_completo" varchar NOT NULL, "nome_usuario" varchar NOT NULL, "email" varchar NOT NULL, "senha" varchar NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`,
+    `CREATE UNIQUE INDEX "IDX_341df6237adcec3e27a951b048" ON "users" ("nome_usuario") `,
+    `CREATE UNIQUE INDEX "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email") `,
+    `CREATE TABLE "categories" ("id" varchar PRIMARY KEY NOT NULL, "nome" varchar NOT NULL, "descricao" varchar, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')))`,
+    `CREATE UNIQUE INDEX "IDX_83fb837fe9f069174d22b6ab69" ON "categories" ("nome") `,
+    `CREATE TABLE "articles" ("id" varchar PRIMARY KEY NOT NULL, "titulo" varchar(100) NOT NULL, "conteudo" text NOT NULL, "autor_id" varchar NOT NULL, "categoria_id" varchar NOT NULL, "data_publicacao" datetime NOT NULL, "data_criacao" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_82d169162af6cbe2f9d7c19a1d7" FOREIGN KEY ("autor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_1daf88d81194936fc5e084bfbd5" FOREIGN KEY ("categoria_id") REFERENCES "categories" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`
+];
+
+const ID_ADMIN = "6f1c2a40-0000-4000-8000-000000000001";
+const ID_AUTOR = "6f1c2a40-0000-4000-8000-000000000002";
+const ID_CATEGORIA = "6f1c2a40-0000-4000-8000-000000000003";
+const ID_ARTIGO = "6f1c2a40-0000-4000-8000-000000000004";
+
+describe("Migrações a partir de um banco criado pelo synchronize", () => {
+    beforeAll(async () => {
+        const original = new DataSource({ type: "sqlite", database: process.env.CAMINHO_BANCO_DADOS! });
+        await original.initialize();
+        for (const comando of ESQUEMA_ORIGINAL) {
+            await original.query(comando);
+        }
+        const senha = await bcrypt.hash(SENHA, 4);
+        await original.query(
+            `INSERT INTO "users" ("id", "nome_completo", "nome_usuario", "email", "senha", "data_criacao") VALUES (?, 'Ana', 'ana', 'ana@teste.com', ?, '2024-01-01 10:00:00'), (?, 'Bruno', 'bruno', 'bruno@teste.com', ?, '2024-02-01 10:00:00')`,
+            [ID_ADMIN, senha, ID_AUTOR, senha]
+        );
+        await original.query(`INSERT INTO "categories" ("id", "nome") VALUES (?, 'Tecnologia')`, [ID_CATEGORIA]);
+        await original.query(
+            `INSERT INTO "articles" ("id", "titulo", "conteudo", "autor_id", "categoria_id", "data_publicacao") VALUES (?, 'Artigo antigo', 'Conteúdo antigo', ?, ?, '2024-03-01 10:00:00')`,
+            [ID_ARTIGO, ID_AUTOR, ID_CATEGORIA]
+        );
+        await original.destroy();
+
+        await AppDataSource.initialize();
+    });
+
+    it("aplica todas as migrações", async () => {
+        expect(await AppDataSource.showMigrations()).toBe(false);
+        const queryRunner = AppDataSource.createQueryRunner();
+        for (const tabela of ["comments", "tags", "article_revisions", "audit_logs", "refresh_tokens", "email_tokens", "media", "webhooks"]) {
+            expect(await queryRunner.hasTable(tabela)).toBe(true);
+        }
+        await queryRunner.release();
+    });
+
+    it("preserva os dados e preenche papel, status e resumo", async () => {
+        const usuarios = await AppDataSource.query(`SELECT "nome_usuario", "papel" FROM "users" ORDER BY "nome_usuario"`);
+        expect(usuarios).toEqual([{ nome_usuario: "ana", papel: "admin" }, { nome_usuario: "bruno", papel: "autor" }]);
+
+        const [artigo] = await AppDataSource.query(`SELECT "titulo", "status", "autor_id", "resumo", "tempo_leitura_minutos" FROM "articles"`);
+        expect(artigo).toEqual({ titulo: "Artigo antigo", status: "publicado", autor_id: ID_AUTOR, resumo: "Conteúdo antigo", tempo_leitura_minutos: 1 });
+    });
+
+    it("mantém os usuários existentes aptos a entrar e consultar os artigos", async () => {
+        const login = await api().post("/auth/login").send({ email: "ana@teste.com", senha: SENHA }).expect(200);
+        expect(login.body.user.papel).toBe("admin");
+
+        const artigo = await api().get(`/artigos/${ID_ARTIGO}`).set("Authorization", `Bearer ${login.body.token}`).expect(200);
+        expect(artigo.body.titulo).toBe("Artigo antigo");
+
+        const busca = await api().get("/artigos/busca").query({ q: "antigo" }).set("Authorization", `Bearer ${login.body.token}`).expect(200);
+        expect(busca.body.total).toBe(1);
+    });
+});
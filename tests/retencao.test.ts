@@ -0,0 +1,89 @@
+import { config } from "../src/config/config";
+import { AppDataSource } from "../src/database/data-source";
+import { ArticleRevision } from "../src/entities/ArticleRevision";
+import { Tag } from "../src/entities/Tag";
+import { User } from "../src/entities/User";
+import { RetentionService } from "../src/services/RetentionService";
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("Retenção de dados", () => {
+    const envelhecer = (entidade: string, ids: string[]) => AppDataSource.query(
+        `UPDATE "${entidade}" SET "data_criacao" = '2000-01-01 00:00:00' WHERE "id" IN (${ids.map(() => "?").join(", ")})`,
+        ids
+    );
+
+    const executar = async (politicas: typeof config.retencao.politicas) => {
+        config.retencao.politicas = politicas;
+        RetentionService.carregarConfiguracao();
+        return RetentionService.executar({ simulacao: false });
+    };
+
+    beforeAll(async () => {
+        await inicializarBanco();
+    });
+
+    afterAll(() => {
+        config.retencao.politicas = {};
+    });
+
+    it("não remove conteúdo nem usuários sem uma política configurada", async () => {
+        const ids = [await criarUsuario("admin"), await criarUsuario("autor")];
+        await envelhecer("users", ids);
+
+        const relatorio = await executar({});
+
+        const politicas = Object.fromEntries(relatorio!.tabelas.map(({ tabela, politica }) => [tabela, politica]));
+        for (const tabela of ["users", "articles", "categories", "tags", "comments", "article_revisions", "audit_logs"]) {
+            expect(politicas[tabela]).toEqual({ desativada: true });
+        }
+        expect(await AppDataSource.getRepository(User).count()).toBe(2);
+    });
+
+    it("mantém o último admin mesmo sem registros que o referenciem", async () => {
+        await executar({ users: { maxDiasIdade: 1 } });
+
+        const usuarios = await AppDataSource.getRepository(User).find();
+        expect(usuarios.map(usuario => usuario.nomeUsuario)).toEqual(["admin"]);
+    });
+
+    it("protege tags ligadas a artigos e limita as revisões de cada artigo", async () => {
+        const autorizacao = `Bearer ${(await autenticar("admin")).token}`;
+        await api().post("/categorias").set("Authorization", autorizacao).send({ nome: "Tecnologia" }).expect(201);
+        const criar = async (titulo: string, tags: string[]) => (await api()
+            .post("/artigos")
+            .set("Authorization", autorizacao)
+            .send({ titulo, conteudo: "Primeira versão", nomeAutor: "admin", nomeCategoria: "Tecnologia", tags })
+            .expect(201)).body.id;
+
+        const editado = await criar("Editado", ["Testes"]);
+        const intacto = await criar("Intacto", []);
+        for (const conteudo of ["Segunda versão", "Terceira versão"]) {
+            await api().put(`/artigos/${editado}`).set("Authorization", autorizacao).send({ conteudo }).expect(200);
+        }
+        const orfa = await AppDataSource.getRepository(Tag).save({ nome: "Órfã", slug: "orfa" });
+        await envelhecer("tags", (await AppDataSource.getRepository(Tag).find()).map(tag => tag.id));
+
+        await executar({ tags: { maxDiasIdade: 1 }, article_revisions: { maxRegistros: 1 } });
+
+        expect((await AppDataSource.getRepository(Tag).find()).map(tag => tag.slug)).toEqual(["testes"]);
+        expect(await AppDataSource.getRepository(Tag).countBy({ id: orfa.id })).toBe(0);
+        const revisoes = AppDataSource.getRepository(ArticleRevision);
+        expect(await revisoes.countBy({ artigoId: editado })).toBe(1);
+        expect(await revisoes.countBy({ artigoId: intacto })).toBe(1);
+    });
+
+    it("mantém refresh tokens dentro da validade configurada", async () => {
+        const diasOriginais = config.jwt.diasRefreshToken;
+        config.jwt.diasRefreshToken = 30;
+        try {
+            const { refreshToken } = await autenticar("admin");
+            await AppDataSource.query(`UPDATE "refresh_tokens" SET "data_criacao" = datetime('now', '-10 days')`);
+
+            await executar({});
+
+            await api().post("/auth/refresh").send({ refreshToken }).expect(200);
+        } finally {
+            config.jwt.diasRefreshToken = diasOriginais;
+        }
+    });
+});
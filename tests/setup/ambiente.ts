@@ -0,0 +1,10 @@
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+
+// Cada arquivo de teste usa um banco próprio, criado pelas migrações ao inicializar o AppDataSource
+process.env.NODE_ENV = "test";
+process.env.CAMINHO_BANCO_DADOS = path.join(os.tmpdir(), `cms-teste-${crypto.randomUUID()}.sqlite`);
+process.env.LOG_NIVEL = "error";
+process.env.BCRYPT_CUSTO = "4";
+process.env.EMAIL_TRANSPORTE = "outbox";
@@ -0,0 +1,9 @@
+import fs from "fs";
+import { AppDataSource } from "../../src/database/data-source";
+
+afterAll(async () => {
+    if (AppDataSource.isInitialized) {
+        await AppDataSource.destroy();
+    }
+    fs.rmSync(process.env.CAMINHO_BANCO_DADOS!, { force: true });
+});
@@ -0,0 +1,70 @@
+import { AppDataSource } from "../src/database/data-source";
+import { OutboxEmail } from "../src/entities/OutboxEmail";
+import { TipoTokenEmail } from "../src/entities/EmailToken";
+import { LoggerService } from "../src/services/LoggerService";
+import { TokenService } from "../src/services/TokenService";
+import { api, autenticar, criarUsuario, inicializarBanco, SENHA } from "./utils/api";
+
+describe("Tokens de uso único", () => {
+    beforeAll(async () => {
+        await inicializarBanco();
+        await criarUsuario("admin");
+        await criarUsuario("maria");
+    });
+
+    it("rejeita o refresh token já rotacionado e revoga a sessão", async () => {
+        const { refreshToken } = await autenticar("maria");
+
+        const rotacao = await api().post("/auth/refresh").send({ refreshToken }).expect(200);
+        await api().post("/auth/refresh").send({ refreshToken }).expect(401);
+
+        // A reutilização revoga a sessão inteira, inclusive o par emitido na rotação
+        await api().post("/auth/refresh").send({ refreshToken: rotacao.body.refreshToken }).expect(401);
+        await api().get("/tags").set("Authorization", `Bearer ${rotacao.body.token}`).expect(401);
+    });
+
+    it("aceita o código de redefinição de senha apenas uma vez", async () => {
+        await api().post("/auth/esqueci-senha").send({ email: "maria@teste.com" }).expect(202);
+        const email = await AppDataSource.getRepository(OutboxEmail).findOneOrFail({
+            where: { destinatario: "maria@teste.com", tipo: TipoTokenEmail.REDEFINICAO_SENHA },
+            order: { dataCriacao: "DESC" }
+        });
+        const token = email.dados!.token;
+
+        await api().post("/auth/redefinir-senha").send({ token, senha: "NovaSenha1" }).expect(200);
+        await api().post("/auth/redefinir-senha").send({ token, senha: "OutraSenha2" }).expect(400);
+
+        await api().post("/auth/login").send({ email: "maria@teste.com", senha: SENHA }).expect(401);
+        await api().post("/auth/login").send({ email: "maria@teste.com", senha: "NovaSenha1" }).expect(200);
+    });
+
+    it("aceita o código de verificação de email apenas uma vez", async () => {
+        const email = await AppDataSource.getRepository(OutboxEmail).findOneOrFail({
+            where: { destinatario: "admin@teste.com", tipo: TipoTokenEmail.VERIFICACAO_EMAIL }
+        });
+        const token = email.dados!.token;
+
+        await api().post("/auth/verificar-email").send({ token }).expect(200);
+        await api().post("/auth/verificar-email").send({ token }).expect(400);
+    });
+
+    it("mantém o código de redefinição válido quando a troca de senha falha", async () => {
+        await api().post("/auth/esqueci-senha").send({ email: "admin@teste.com" }).expect(202);
+        const email = await AppDataSource.getRepository(OutboxEmail).findOneOrFail({
+            where: { destinatario: "admin@teste.com", tipo: TipoTokenEmail.REDEFINICAO_SENHA }
+        });
+        const token = email.dados!.token;
+
+        jest.spyOn(TokenService, "revogarSessoesDoUsuario").mockRejectedValueOnce(new Error("Falha ao revogar sessões"));
+        jest.spyOn(LoggerService, "error").mockImplementation(() => undefined);
+        try {
+            await api().post("/auth/redefinir-senha").send({ token, senha: "NovaSenha1" }).expect(500);
+        } finally {
+            jest.restoreAllMocks();
+        }
+        await api().post("/auth/login").send({ email: "admin@teste.com", senha: SENHA }).expect(200);
+
+        await api().post("/auth/redefinir-senha").send({ token, senha: "NovaSenha1" }).expect(200);
+        await api().post("/auth/login").send({ email: "admin@teste.com", senha: "NovaSenha1" }).expect(200);
+    });
+});
@@ -0,0 +1,25 @@
+import { api, autenticar, criarUsuario, inicializarBanco } from "./utils/api";
+
+describe("DELETE /usuarios/:id", () => {
+    let adminId: string;
+    let autorizacao: string;
+
+    beforeAll(async () => {
+        await inicializarBanco();
+        adminId = await criarUsuario("admin");
+        autorizacao = `Bearer ${(await autenticar("admin")).token}`;
+    });
+
+    it("não permite que o admin exclua o próprio usuário", async () => {
+        const { body } = await api().delete(`/usuarios/${adminId}`).set("Authorization", autorizacao).expect(400);
+        expect(body.erro).toBe("Não é possível excluir o próprio usuário");
+    });
+
+    it("exclui outro admin enquanto restar um administrador", async () => {
+        const outroId = await criarUsuario("outro");
+        await api().put(`/usuarios/${outroId}`).set("Authorization", autorizacao).send({ papel: "admin" }).expect(200);
+
+        await api().delete(`/usuarios/${outroId}`).set("Authorization", autorizacao).expect(204);
+        await api().get(`/usuarios/${adminId}`).set("Authorization", autorizacao).expect(200);
+    });
+});
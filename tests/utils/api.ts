@@ -0,0 +1,28 @@
+import request from "supertest";
+import app from "../../src/app";
+import { AppDataSource } from "../../src/database/data-source";
+
+export const SENHA = "Senha123";
+
+export const api = () => request(app);
+
+export const inicializarBanco = async (): Promise<void> => {
+    await AppDataSource.initialize();
+};
+
+// O primeiro usuário criado recebe o papel admin; os demais, autor
+export const criarUsuario = async (nomeUsuario: string): Promise<string> => {
+    const resposta = await api()
+        .post("/usuarios")
+        .send({ nomeCompleto: nomeUsuario, nomeUsuario, email: `${nomeUsuario}@teste.com`, senha: SENHA })
+        .expect(201);
+    return resposta.body.id;
+};
+
+export const autenticar = async (nomeUsuario: string): Promise<{ token: string; refreshToken: string }> => {
+    const resposta = await api()
+        .post("/auth/login")
+        .send({ email: `${nomeUsuario}@teste.com`, senha: SENHA })
+        .expect(200);
+    return { token: resposta.body.token, refreshToken: resposta.body.refreshToken };
+};